@@ -0,0 +1,36 @@
+#!/usr/bin/env tsx
+/**
+ * Download the DuckDB extensions the app loads, so queries and exports don't
+ * need network access: sqlite and postgres for attaching sources, excel for
+ * .xlsx exports
+ */
+
+import Database from 'duckdb';
+
+const EXTENSIONS = ['sqlite', 'postgres', 'excel'];
+
+async function installExtensions() {
+  const db = new Database.Database(':memory:');
+
+  try {
+    for (const extension of EXTENSIONS) {
+      console.log(`  Installing ${extension}...`);
+      await new Promise<void>((resolve, reject) => {
+        db.all(`INSTALL ${extension}; LOAD ${extension};`, (err) => (err ? reject(err) : resolve()));
+      });
+      console.log(`  ✓ ${extension} installed`);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+installExtensions()
+  .then(() => {
+    console.log('🎉 DuckDB extensions installed');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Installing extensions failed:', error);
+    process.exit(1);
+  });
@@ -1,356 +1,728 @@
 /**
  * SQL-of-Thought: Multi-agent Text-to-SQL with Guided Error Correction
- * Using OpenAI GPT-4o-mini and custom tools
+ * Using a pluggable LLM provider (OpenAI, Anthropic, local or scripted) and custom tools
+ *
+ * CLI adapter: ask, repl, schema, exec, history and examples subcommands, with results
+ * printed as a table, JSON, CSV or the run's trace.
  */
 
-import OpenAI from 'openai';
 import * as dotenv from 'dotenv';
-import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
-import { readFileSync } from 'fs';
+import { createInterface } from 'readline';
+import { executeSQL, exportFormatForPath, exportSQL, EXPORT_FORMATS, toJSONSafeRows } from './tools/sql-executor-tool.js';
+import { getDataSource } from './tools/database-registry.js';
 import { getCompleteSchema, formatSchemaForPrompt } from './tools/schema-tool.js';
-import { executeSQL } from './tools/sql-executor-tool.js';
+import { createProvider, providerConfigFromEnv, LLMProvider } from './llm/provider.js';
+import { runSqlOfThought, PipelineEvent, PipelineOptions, PipelineResult } from './engine/sql-of-thought.js';
+import { addTurn, createConversation } from './engine/conversation.js';
+import { CandidateVote, isCandidateStrategy } from './engine/self-consistency.js';
+import { RunUsage, formatCost } from './engine/usage.js';
+import { listPromptSets } from './engine/prompt-templates.js';
+import { addExample, exampleFromRun, getExampleLibrary } from './engine/examples.js';
+import { ALLOWED_STATEMENTS, MAX_CORRECTION_ATTEMPTS, SCHEMA_PROFILING } from './engine/config.js';
+import { getRun, listRuns } from './history/store.js';
+import { RunTrace } from './history/trace.js';
+import { OUTPUT_FORMATS, OutputFormat, formatCSV, formatJSON, formatTable, isOutputFormat } from './cli/output.js';
+import { chartFormatForPath, writeChart } from './cli/chart.js';
 
 dotenv.config();
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-// Configuration
-const DB_PATH = join(__dirname, '../data/chinook.db');
-const ERROR_TAXONOMY_PATH = join(__dirname, '../data/error-taxonomy.json');
-const MAX_CORRECTION_ATTEMPTS = 3;
-
-// Initialize OpenAI
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-const MODEL = process.env.OPENAI_MODEL || 'gpt-4o-mini';
-const TEMPERATURE = parseFloat(process.env.TEMPERATURE || '1');
-
-// Load resources
-const errorTaxonomy = JSON.parse(readFileSync(ERROR_TAXONOMY_PATH, 'utf-8'));
+/** Progress goes to stderr so results on stdout can be piped */
+const progress = (...values: unknown[]) => console.error(...values);
 
 /**
- * Agent 1: Schema Linking
+ * Vote distribution over candidate queries, largest cluster first
  */
-async function schemaLinkingAgent(question: string, schema: any): Promise<any> {
-  console.log('\n📊 [Schema Linking Agent] Analyzing question...');
-
-  const prompt = `${readFileSync(join(__dirname, 'prompts/schema-linking.md'), 'utf-8')}
-
-## Database Schema
-
-${formatSchemaForPrompt(schema)}
-
-## Question
-
-"${question}"
-
-Analyze the question and identify the relevant tables, columns, and relationships needed. Return ONLY a valid JSON object as specified in the output format.`;
-
-  const response = await openai.chat.completions.create({
-    model: MODEL,
-    messages: [{ role: 'user', content: prompt }],
-    temperature: TEMPERATURE,
-    response_format: { type: 'json_object' },
-  });
-
-  const result = JSON.parse(response.choices[0].message.content || '{}');
-  console.log('  ✓ Identified tables:', result.tables);
-  return result;
+function printVote(vote: CandidateVote): void {
+  const failed = vote.candidates.filter((candidate) => !candidate.success);
+  progress(
+    `  ✓ ${vote.candidates.length} candidates, ${vote.clusters.length} distinct results, confidence ${Math.round(vote.confidence * 100)}%`
+  );
+  for (const cluster of vote.clusters) {
+    const chosen = cluster.candidates.includes(vote.winner) ? '  ← chosen' : '';
+    const members = cluster.candidates.map((index) => `#${index + 1}`).join(', ');
+    progress(`    🗳️  ${cluster.votes} vote(s) for ${cluster.row_count} rows (${members})${chosen}`);
+  }
+  if (failed.length > 0) {
+    progress(`    ❌ ${failed.length} failed (${failed.map((candidate) => `#${candidate.index + 1}`).join(', ')})`);
+  }
 }
 
 /**
- * Agent 2: Subproblem Identification
+ * Print a pipeline event the way the original CLI did (--verbose)
  */
-async function subproblemAgent(question: string, linkedSchema: any): Promise<any> {
-  console.log('\n🧩 [Subproblem Agent] Breaking down query...');
-
-  const prompt = `You are a SQL query decomposition expert. Given a natural language question, break it down into SQL clause-level subproblems.
+function printEvent(event: PipelineEvent, maxAttempts: number): void {
+  switch (event.type) {
+    case 'question_rewritten':
+      if (event.followUp) progress(`\n🔁 Follow-up rewritten: "${event.standaloneQuestion}"`);
+      break;
+    case 'stage_start':
+      if (event.stage === 'schema') progress('\n📥 Loading database schema...');
+      if (event.stage === 'subproblem') progress('\n🧩 [Subproblem Agent] Breaking down query...');
+      if (event.stage === 'queryplan') progress('\n🤔 [Query Plan Agent] Generating execution plan...');
+      if (event.stage === 'sql') progress('\n⚡ [SQL Agent] Generating SQL query...');
+      if (event.stage === 'execute') progress('\n⚙️  Executing SQL...');
+      if (event.stage === 'correction') progress('\n🔍 [Correction Plan Agent] Analyzing error...');
+      if (event.stage === 'answer') progress('\n💬 [Answer Agents] Explaining the result...');
+      break;
+    case 'schema_loaded':
+      progress('  ✓ Schema loaded:', event.tableCount, 'tables');
+      break;
+    case 'schema_retrieved':
+      progress(`  ✓ Kept ${event.tables.length}/${event.totalTables} tables:`);
+      for (const { table, score, reason } of event.tables) {
+        progress(`    - ${table} (${score.toFixed(2)}, ${reason})`);
+      }
+      progress('\n📊 [Schema Linking Agent] Analyzing question...');
+      break;
+    case 'schema_linked':
+      progress('  ✓ Identified tables:', event.linkedSchema.tables);
+      break;
+    case 'schema_validated':
+      if (event.adjustments.length === 0) {
+        progress('  ✓ All linked tables and columns exist');
+        break;
+      }
+      progress(`  🩹 Adjusted linked schema (${event.adjustments.length} changes):`);
+      for (const adjustment of event.adjustments) progress(`    - ${adjustment.message}`);
+      progress('  ✓ Using tables:', event.linkedSchema.tables);
+      break;
+    case 'subproblems_identified':
+      progress('  ✓ Identified clauses:', Object.keys(event.subproblems.clauses));
+      break;
+    case 'examples_retrieved':
+      progress(`  📚 ${event.examples.length} similar solved question(s):`);
+      for (const { example, score } of event.examples) {
+        progress(`    - ${example.question} (${score.toFixed(2)})`);
+      }
+      break;
+    case 'query_planned':
+      progress('  ✓ Generated plan with', event.queryPlan.steps.length, 'steps');
+      break;
+    case 'candidates_voted':
+      printVote(event.vote);
+      break;
+    case 'sql_generated':
+      progress('  ✓ Generated SQL');
+      progress('\n📄 Generated SQL:\n', event.sql);
+      break;
+    case 'execution_succeeded':
+      progress('✅ Query executed successfully!');
+      progress(`📊 Returned ${event.result.row_count} rows in ${event.result.execution_time_ms}ms`);
+      if (event.result.truncated) {
+        progress(`  ⚠️  Result truncated at ${event.result.row_count} rows (SQL_MAX_ROWS)`);
+      }
+      break;
+    case 'validation_failed':
+      progress('❌ Query rejected by EXPLAIN validation:');
+      for (const diag of event.diagnostics) {
+        const suggestions = diag.suggestions.length > 0 ? ` (did you mean ${diag.suggestions.join(', ')}?)` : '';
+        progress(`  - ${diag.code}: ${diag.message}${suggestions}`);
+      }
+      break;
+    case 'execution_failed':
+      progress('❌ Query failed:', event.error);
+      break;
+    case 'verification_failed':
+      progress('\n🧐 Result verification failed:');
+      for (const issue of event.issues) progress(`  - ${issue.check}: ${issue.message}`);
+      break;
+    case 'chart_recommended':
+      progress(`📈 Chart: ${event.chart.type} (${event.chart.reason})`);
+      break;
+    case 'answer_summarized':
+      progress('  ✓ Answer summarized');
+      break;
+    case 'sql_explained':
+      progress(`  ✓ SQL explained in ${event.explanation.clauses.length} clauses`);
+      break;
+    case 'answer_agent_failed':
+      progress(`⚠️  ${event.agent} agent failed: ${event.error}`);
+      break;
+    case 'correction_planned':
+      progress('  ✓ Error categories:', event.correctionPlan.error_categories);
+      progress('\n🔧 [Correction SQL Agent] Generating corrected SQL...');
+      break;
+    case 'sql_corrected':
+      progress('  ✓ Generated corrected SQL');
+      progress('\n📄 Corrected SQL:\n', event.sql);
+      progress(`\n🔄 Correction attempt ${event.attempt}/${maxAttempts}`);
+      break;
+    case 'budget_exceeded':
+      progress(`\n💸 ${event.error}; no further corrections`);
+      break;
+    case 'max_attempts_reached':
+      progress('\n⚠️  Max correction attempts reached');
+      break;
+  }
+}
 
-Question: "${question}"
 
-Relevant tables: ${linkedSchema.tables.join(', ')}
-Relevant columns: ${JSON.stringify(linkedSchema.columns)}
+const USAGE = `Usage: npm start -- <command> [options]
+
+Commands:
+  ask "<question>"     Answer a question with the SQL-of-Thought pipeline
+  repl                 Ask questions interactively; later ones may follow up on earlier ones
+  schema               Print the database schema as the agents see it
+  exec "<sql>"         Run a read-only SQL query
+  history [id]         List recent runs, or show one run's trace
+  examples [promote <id>]
+                       List the few-shot example library, or add a successful run to it once approved
+
+Options:
+  --db <name>          Registered database (default: DATABASE or the registry default)
+  --model <name>       Model for the configured LLM_PROVIDER
+  --prompt-set <id>    Prompt templates to use, e.g. v2 (default: PROMPT_SET or v1)
+  --examples <n>       Similar library examples shown to the planning and SQL agents (0 = zero-shot)
+  --max-attempts <n>   Correction rounds after the first failed attempt (default: ${MAX_CORRECTION_ATTEMPTS})
+  --budget <usd>       Start no correction round once the run has cost this much
+  --max-tokens <n>     Start no correction round once the run has used this many tokens
+  --format <format>    ${OUTPUT_FORMATS.join(', ')} (default: table)
+  --json               Same as --format json
+  --verbose            Print each agent's progress to stderr
+  --candidates <n>     Candidate queries to generate and vote on
+  --parallel <n>       Candidates generated concurrently
+  --strategy <name>    Candidate strategy: sample or plans
+  --out <file>         Also write the full result of ask or exec to a .csv, .jsonl, .parquet or .xlsx file
+  --chart <file>       Write the chart recommended by ask as a Vega-Lite .json spec, .svg or .png
+  --summarize          Answer the question in plain English, grounded in the result rows
+  --explain            Explain the final SQL clause by clause
+  --limit <n>          Runs listed by history (default: 20)
+  --prompts            Include prompts and responses in traces
+  --yes                Promote a run without asking for approval`;
+
+const COMMANDS = ['ask', 'repl', 'schema', 'exec', 'history', 'examples', 'help'];
+
+interface CLIArgs {
+  command: string;
+  /** Words after the command: the question, the SQL, a run id or an examples action */
+  positional: string[];
+  db?: string;
+  model?: string;
+  promptSet?: string;
+  /** Few-shot examples per question */
+  examples?: number;
+  maxAttempts?: number;
+  /** Run budget in USD */
+  budget?: number;
+  maxTokens?: number;
+  format: OutputFormat;
+  verbose: boolean;
+  candidates?: number;
+  parallel?: number;
+  strategy?: PipelineOptions['candidateStrategy'];
+  /** File the full result is exported to; the format follows its extension */
+  out?: string;
+  /** File the recommended chart is written to: .json spec, .svg or .png */
+  chart?: string;
+  summarize: boolean;
+  explain: boolean;
+  limit: number;
+  prompts: boolean;
+  /** Skip the approval prompt of examples promote */
+  yes: boolean;
+}
 
-Identify which SQL clauses are needed and what each should accomplish. Return a JSON object with:
+function parseArgs(argv: string[]): CLIArgs {
+  const args: CLIArgs = {
+    command: 'help',
+    positional: [],
+    format: 'table',
+    verbose: false,
+    summarize: false,
+    explain: false,
+    limit: 20,
+    prompts: false,
+    yes: false,
+  };
+  const value = (i: number) => {
+    if (argv[i + 1] === undefined) throw new Error(`${argv[i]} needs a value`);
+    return argv[i + 1];
+  };
+  const count = (i: number) => {
+    const n = parseInt(value(i), 10);
+    if (isNaN(n) || n < 0) throw new Error(`${argv[i]} expects a number, got "${argv[i + 1]}"`);
+    return n;
+  };
+
+  const words: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--db') args.db = value(i++);
+    else if (arg === '--model') args.model = value(i++);
+    else if (arg === '--max-attempts') args.maxAttempts = count(i++);
+    else if (arg === '--examples') args.examples = count(i++);
+    else if (arg === '--max-tokens') args.maxTokens = count(i++);
+    else if (arg === '--candidates') args.candidates = count(i++);
+    else if (arg === '--parallel') args.parallel = count(i++);
+    else if (arg === '--limit') args.limit = count(i++);
+    else if (arg === '--json') args.format = 'json';
+    else if (arg === '--verbose' || arg === '-v') args.verbose = true;
+    else if (arg === '--prompts') args.prompts = true;
+    else if (arg === '--summarize') args.summarize = true;
+    else if (arg === '--explain') args.explain = true;
+    else if (arg === '--yes' || arg === '-y') args.yes = true;
+    else if (arg === '--help' || arg === '-h') words.unshift('help');
+    else if (arg === '--format') {
+      const format = value(i++);
+      if (!isOutputFormat(format)) throw new Error(`Unknown format "${format}" (expected ${OUTPUT_FORMATS.join(', ')})`);
+      args.format = format;
+    } else if (arg === '--out') {
+      args.out = value(i++);
+      if (!exportFormatForPath(args.out)) {
+        const extensions = Object.values(EXPORT_FORMATS).map((format) => `.${format.extension}`);
+        throw new Error(`Can't tell the export format of ${args.out} (expected ${extensions.join(', ')})`);
+      }
+    } else if (arg === '--chart') {
+      args.chart = value(i++);
+      if (!chartFormatForPath(args.chart)) {
+        throw new Error(`Can't tell the chart format of ${args.chart} (expected .json, .svg or .png)`);
+      }
+    } else if (arg === '--prompt-set') {
+      args.promptSet = value(i++);
+      const promptSets = listPromptSets();
+      if (!promptSets.includes(args.promptSet)) {
+        throw new Error(`Unknown prompt set "${args.promptSet}" (expected ${promptSets.join(', ')})`);
+      }
+    } else if (arg === '--budget') {
+      const budget = parseFloat(value(i++));
+      if (isNaN(budget) || budget < 0) throw new Error(`--budget expects an amount in USD, got "${argv[i]}"`);
+      args.budget = budget;
+    } else if (arg === '--strategy') {
+      const strategy = value(i++);
+      if (!isCandidateStrategy(strategy)) throw new Error(`Unknown candidate strategy "${strategy}" (expected sample or plans)`);
+      args.strategy = strategy;
+    } else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else words.push(arg);
+  }
 
-\`\`\`json
-{
-  "clauses": {
-    "SELECT": "description of what to select",
-    "FROM": "base table(s)",
-    "JOIN": "join conditions needed",
-    "WHERE": "filter conditions",
-    "GROUP BY": "grouping columns",
-    "HAVING": "post-aggregation filters",
-    "ORDER BY": "sorting criteria",
-    "LIMIT": "row limit"
+  if (words.length > 0) {
+    if (!COMMANDS.includes(words[0])) throw new Error(`Unknown command "${words[0]}"`);
+    args.command = words[0];
+    args.positional = words.slice(1);
   }
+  if ((args.command === 'ask' || args.command === 'exec') && args.positional.length === 0) {
+    throw new Error(args.command === 'ask' ? 'ask needs a question' : 'exec needs a SQL query');
+  }
+  return args;
 }
-\`\`\`
-
-Only include clauses that are needed. Return ONLY valid JSON.`;
-
-  const response = await openai.chat.completions.create({
-    model: MODEL,
-    messages: [{ role: 'user', content: prompt }],
-    temperature: TEMPERATURE,
-    response_format: { type: 'json_object' },
-  });
 
-  const result = JSON.parse(response.choices[0].message.content || '{}');
-  console.log('  ✓ Identified clauses:', Object.keys(result.clauses || {}));
-  return result;
+function pipelineOptions(args: CLIArgs, provider: LLMProvider): PipelineOptions {
+  const maxAttempts = args.maxAttempts ?? MAX_CORRECTION_ATTEMPTS;
+  return {
+    provider,
+    database: args.db,
+    ...(args.promptSet && { promptSet: args.promptSet }),
+    ...(args.examples !== undefined && { fewShotExamples: args.examples }),
+    maxCorrectionAttempts: maxAttempts,
+    ...((args.budget !== undefined || args.maxTokens !== undefined) && {
+      budget: {
+        ...(args.budget !== undefined && { maxCostUSD: args.budget }),
+        ...(args.maxTokens !== undefined && { maxTokens: args.maxTokens }),
+      },
+    }),
+    ...(args.candidates !== undefined && { candidates: args.candidates }),
+    ...(args.parallel !== undefined && { candidateParallelism: args.parallel }),
+    ...(args.strategy && { candidateStrategy: args.strategy }),
+    ...(args.summarize && { summarizeAnswer: true }),
+    ...(args.explain && { explainSQL: true }),
+    ...(args.verbose && { onEvent: (event: PipelineEvent) => printEvent(event, maxAttempts) }),
+  };
 }
 
 /**
- * Agent 3: Query Plan Generation (Chain-of-Thought)
+ * A run's prompts, responses and SQL attempts, as stored in the history
  */
-async function queryPlanAgent(question: string, linkedSchema: any, subproblems: any): Promise<any> {
-  console.log('\n🤔 [Query Plan Agent] Generating execution plan...');
-
-  const prompt = `${readFileSync(join(__dirname, 'prompts/query-planning.md'), 'utf-8')}
-
-## Question
-"${question}"
-
-## Schema Information
-Tables: ${linkedSchema.tables.join(', ')}
-Columns: ${JSON.stringify(linkedSchema.columns, null, 2)}
-Foreign Keys: ${JSON.stringify(linkedSchema.foreign_keys, null, 2)}
-
-## Identified Clauses
-${JSON.stringify(subproblems.clauses, null, 2)}
+function printTrace(run: RunTrace, showPrompts: boolean): void {
+  console.log('\n' + '='.repeat(80));
+  console.log(`${run.success ? '✅' : '❌'} Run ${run.id}`);
+  console.log('='.repeat(80));
+  console.log('📝 Question:', run.question);
+  console.log(`🗄️  Database: ${run.database}   🤖 ${run.provider}/${run.model}   📝 Prompts: ${run.prompt_set}   🕒 ${run.created_at}`);
+  const cost = run.cost_usd !== undefined ? `, ${formatCost(run.cost_usd)}` : '';
+  console.log(`⏱️  ${run.duration_ms}ms, ${run.usage.input_tokens} input / ${run.usage.output_tokens} output tokens${cost}`);
+  if (run.error) console.log('❌ Error:', run.error);
+
+  const examples = run.artifacts.few_shot_examples as { id: string; question: string; score: number }[] | undefined;
+  if (examples?.length) {
+    console.log('\n📚 Few-shot examples:');
+    for (const example of examples) console.log(`  - ${example.id}: ${example.question} (${example.score.toFixed(2)})`);
+  }
 
-Create a detailed step-by-step query plan using Chain-of-Thought reasoning. Return ONLY valid JSON as specified.`;
+  console.log('\n🤖 Agent calls:');
+  for (const call of run.agent_calls) {
+    const tokens = call.usage ? `, ${call.usage.input_tokens}/${call.usage.output_tokens} tokens` : '';
+    const callCost = call.cost_usd !== undefined ? `, ${formatCost(call.cost_usd)}` : '';
+    console.log(`  ${call.seq}. ${call.agent} (${call.duration_ms}ms${tokens}${callCost})${call.error ? ` ❌ ${call.error}` : ''}`);
+    if (showPrompts) {
+      console.log(`\n--- prompt ---\n${call.prompt}\n--- response ---\n${call.response}\n`);
+    }
+  }
 
-  const response = await openai.chat.completions.create({
-    model: MODEL,
-    messages: [{ role: 'user', content: prompt }],
-    temperature: TEMPERATURE,
-    response_format: { type: 'json_object' },
-  });
+  console.log('\n⚙️  SQL attempts:');
+  for (const attempt of run.sql_attempts) {
+    console.log(`\n  Attempt ${attempt.attempt}: ${attempt.success ? `✅ ${attempt.row_count} rows` : `❌ ${attempt.error}`}`);
+    if (attempt.error_categories.length > 0) console.log('  Categories:', attempt.error_categories.join(', '));
+    console.log(attempt.sql.replace(/^/gm, '    '));
+  }
 
-  const result = JSON.parse(response.choices[0].message.content || '{}');
-  console.log('  ✓ Generated plan with', result.steps?.length || 0, 'steps');
-  return result;
+  if (run.result_preview.length > 0) {
+    console.log(`\n📋 Result preview (${run.result_preview.length} of ${run.row_count} rows):`);
+    console.log(formatTable(run.result_preview));
+  }
+  console.log();
 }
 
 /**
- * Agent 4: SQL Generation
+ * Tokens, latency and cost of a run, in total and per agent
  */
-async function sqlGenerationAgent(question: string, queryPlan: any, linkedSchema: any): Promise<string> {
-  console.log('\n⚡ [SQL Agent] Generating SQL query...');
-
-  const prompt = `You are an expert SQL query generator. Given a query plan, generate the exact SQL query.
-
-Question: "${question}"
-
-Query Plan:
-${JSON.stringify(queryPlan, null, 2)}
-
-Schema:
-${JSON.stringify(linkedSchema, null, 2)}
-
-Generate the SQL query that implements this plan. Return ONLY the SQL query, no explanations or markdown. The query should be executable and syntactically correct.`;
-
-  const response = await openai.chat.completions.create({
-    model: MODEL,
-    messages: [{ role: 'user', content: prompt }],
-    temperature: TEMPERATURE,
-  });
-
-  const sql = response.choices[0].message.content?.trim() || '';
-  // Clean up SQL (remove markdown code blocks if present)
-  const cleanedSQL = sql
-    .replace(/```sql\n?/g, '')
-    .replace(/```\n?/g, '')
-    .trim();
-
-  console.log('  ✓ Generated SQL');
-  return cleanedSQL;
+function printUsage(usage: RunUsage): void {
+  const cached = usage.cached_input_tokens > 0 ? ` (${usage.cached_input_tokens} cached)` : '';
+  const cost = usage.cost_usd !== undefined ? `, ${formatCost(usage.cost_usd)}` : ` (no price for ${usage.model})`;
+  progress(`💰 ${usage.calls} agent calls, ${usage.input_tokens} input${cached} / ${usage.output_tokens} output tokens${cost}`);
+  if (usage.calls === 0) return;
+
+  const rows = usage.agents.map((agent) => ({
+    agent: agent.agent,
+    calls: agent.calls,
+    input: agent.input_tokens,
+    cached: agent.cached_input_tokens,
+    output: agent.output_tokens,
+    latency_ms: agent.latency_ms,
+    cost: agent.cost_usd !== undefined ? formatCost(agent.cost_usd) : '',
+  }));
+  progress(formatTable(rows).replace(/^/gm, '   '));
 }
 
 /**
- * Agent 5: Correction Plan Agent
+ * Print a finished run in the chosen format. Results go to stdout, notes to stderr.
  */
-async function correctionPlanAgent(
-  question: string,
-  incorrectSQL: string,
-  error: string,
-  linkedSchema: any
-): Promise<any> {
-  console.log('\n🔍 [Correction Plan Agent] Analyzing error...');
-
-  const prompt = `${readFileSync(join(__dirname, 'prompts/error-correction.md'), 'utf-8')}
-
-## Error Taxonomy
-${JSON.stringify(errorTaxonomy, null, 2)}
-
-## Question
-"${question}"
-
-## Failed SQL Query
-\`\`\`sql
-${incorrectSQL}
-\`\`\`
-
-## Error Message
-${error}
-
-## Schema
-${JSON.stringify(linkedSchema, null, 2)}
+async function printResult(result: PipelineResult, args: CLIArgs): Promise<void> {
+  const rows = result.result?.result || [];
+  const columns = result.result?.columns;
+
+  if (args.format === 'json') {
+    console.log(
+      formatJSON({
+        success: result.success,
+        question: result.question,
+        standaloneQuestion: result.standaloneQuestion,
+        database: result.database,
+        promptSet: result.promptSet,
+        sql: result.sql,
+        attempts: result.attempts,
+        columns,
+        rows: toJSONSafeRows(rows, columns),
+        row_count: result.result?.row_count,
+        truncated: result.result?.truncated,
+        error: result.error,
+        verificationIssues: result.verificationIssues,
+        confidence: result.vote?.confidence,
+        answerSummary: result.answerSummary,
+        sqlExplanation: result.sqlExplanation,
+        usage: result.usage,
+        runId: result.runId,
+      })
+    );
+    return;
+  }
 
-Analyze this error using the taxonomy and provide a structured correction plan. Return ONLY valid JSON as specified.`;
+  if (args.format === 'csv') {
+    if (result.success) console.log(formatCSV(rows, columns));
+    else progress(`❌ ${result.error}`);
+    return;
+  }
 
-  const response = await openai.chat.completions.create({
-    model: MODEL,
-    messages: [{ role: 'user', content: prompt }],
-    temperature: TEMPERATURE,
-    response_format: { type: 'json_object' },
-  });
+  if (args.format === 'trace') {
+    const run = result.runId ? await getRun(result.runId) : null;
+    if (run) {
+      printTrace(run, args.prompts);
+      return;
+    }
+    progress('⚠️  No trace recorded (RUN_HISTORY=false); showing the result instead');
+  }
 
-  const result = JSON.parse(response.choices[0].message.content || '{}');
-  console.log('  ✓ Error categories:', result.error_categories);
-  return result;
+  if (result.standaloneQuestion) console.log(`🔁 ${result.standaloneQuestion}`);
+  console.log(`\n${result.sql}\n`);
+  if (result.sqlExplanation) {
+    console.log('📖 How the query works:');
+    for (const clause of result.sqlExplanation.clauses) {
+      const steps = clause.plan_steps.length > 0 ? ` [plan step ${clause.plan_steps.join(', ')}]` : '';
+      console.log(`  ${clause.clause.replace(/\s+/g, ' ')}${steps}\n    ${clause.explanation}`);
+    }
+    console.log();
+  }
+  if (result.success) {
+    console.log(formatTable(rows, columns));
+    if (result.answerSummary) {
+      console.log(`\n💬 ${result.answerSummary.answer}`);
+      for (const caveat of result.answerSummary.caveats) console.log(`   - ${caveat}`);
+    }
+    const truncated = result.result?.truncated ? ' (truncated, see SQL_MAX_ROWS)' : '';
+    const confidence = result.vote ? `, ${Math.round(result.vote.confidence * 100)}% candidate agreement` : '';
+    progress(`\n✅ ${result.result?.row_count ?? 0} rows${truncated} after ${result.attempts} attempt(s)${confidence}`);
+  } else {
+    progress(`❌ Failed after ${result.attempts} attempt(s): ${result.error}`);
+  }
+  for (const issue of result.verificationIssues || []) {
+    progress(`⚠️  Answer may be wrong (${issue.check}): ${issue.message}`);
+  }
+  printUsage(result.usage);
+  if (result.runId) progress(`🗂️  Run ${result.runId.slice(0, 8)} (npm start -- history ${result.runId.slice(0, 8)})`);
 }
 
 /**
- * Agent 6: Correction SQL Agent
+ * --out: export the full result with DuckDB, in the format of the file's extension
  */
-async function correctionSQLAgent(
-  question: string,
-  incorrectSQL: string,
-  correctionPlan: any,
-  linkedSchema: any
-): Promise<string> {
-  console.log('\n🔧 [Correction SQL Agent] Generating corrected SQL...');
-
-  const prompt = `You are an expert SQL query corrector. Fix the SQL query based on the correction plan.
-
-Question: "${question}"
-
-Incorrect SQL:
-\`\`\`sql
-${incorrectSQL}
-\`\`\`
-
-Correction Plan:
-${JSON.stringify(correctionPlan, null, 2)}
-
-Schema:
-${JSON.stringify(linkedSchema, null, 2)}
-
-Generate the corrected SQL query that addresses all issues identified in the correction plan. Return ONLY the corrected SQL query, no explanations.`;
-
-  const response = await openai.chat.completions.create({
-    model: MODEL,
-    messages: [{ role: 'user', content: prompt }],
-    temperature: TEMPERATURE,
+async function writeOut(sql: string, database: string | undefined, path: string): Promise<boolean> {
+  const exported = await exportSQL(sql, getDataSource(database), exportFormatForPath(path)!, path, {
+    allowedStatements: ALLOWED_STATEMENTS,
   });
+  if (exported.success) progress(`💾 Wrote ${exported.row_count} rows to ${path}`);
+  else progress(`❌ Could not write ${path}: ${exported.error}`);
+  return exported.success;
+}
 
-  const sql = response.choices[0].message.content?.trim() || '';
-  const cleanedSQL = sql
-    .replace(/```sql\n?/g, '')
-    .replace(/```\n?/g, '')
-    .trim();
-
-  console.log('  ✓ Generated corrected SQL');
-  return cleanedSQL;
+/**
+ * --chart: write the recommended chart, or say why there is none
+ */
+async function writeChartFile(result: PipelineResult, path: string): Promise<boolean> {
+  if (!result.chart?.spec) {
+    progress(`📊 No chart written: ${result.chart?.reason ?? 'chart recommendation is turned off'}`);
+    return true;
+  }
+  try {
+    await writeChart(result.chart.spec, path);
+    progress(`📊 Wrote ${result.chart.type} chart of ${result.chart.y} by ${result.chart.x} to ${path}`);
+    return true;
+  } catch (error: any) {
+    progress(`❌ Could not write ${path}: ${error.message}`);
+    return false;
+  }
 }
 
 /**
- * Main SQL-of-Thought Pipeline
+ * ask "<question>": answer one question
  */
-async function sqlOfThought(question: string): Promise<void> {
-  console.log('\n' + '='.repeat(80));
-  console.log('🚀 SQL-of-Thought: Multi-agent Text-to-SQL');
-  console.log('='.repeat(80));
-  console.log('\n📝 Question:', question);
+async function ask(question: string, args: CLIArgs): Promise<boolean> {
+  const provider = createProvider(providerConfigFromEnv({ model: args.model }));
+  if (args.verbose) progress(`📝 Question: ${question}`);
 
-  try {
-    // Step 1: Get database schema
-    console.log('\n📥 Loading database schema...');
-    const schema = await getCompleteSchema(DB_PATH);
-    console.log('  ✓ Schema loaded:', Object.keys(schema.tables).length, 'tables');
+  const result = await runSqlOfThought(question, pipelineOptions(args, provider));
+  await printResult(result, args);
+  if (!result.success) return false;
 
-    // Step 2: Schema Linking
-    const linkedSchema = await schemaLinkingAgent(question, schema);
+  const chartWritten = args.chart ? await writeChartFile(result, args.chart) : true;
+  const outWritten = args.out ? await writeOut(result.sql, result.database, args.out) : true;
+  return chartWritten && outWritten;
+}
 
-    // Step 3: Subproblem Identification
-    const subproblems = await subproblemAgent(question, linkedSchema);
+/**
+ * repl: ask questions one after another. Each question may follow up on the
+ * previous ones; /new starts over and /exit quits.
+ */
+async function repl(args: CLIArgs): Promise<boolean> {
+  const provider = createProvider(providerConfigFromEnv({ model: args.model }));
+  let conversation = createConversation(getDataSource(args.db).name);
+  const rl = createInterface({ input: process.stdin, output: process.stdout, prompt: '💬 ' });
+
+  console.log(`🚀 SQL-of-Thought REPL on ${conversation.database}. Ask a question, then follow up on it.`);
+  console.log('   /new starts a new conversation, /exit quits.\n');
+  rl.prompt();
+
+  for await (const line of rl) {
+    const question = line.trim();
+    if (question === '/exit' || question === '/quit') break;
+
+    if (question === '/new') {
+      conversation = createConversation(conversation.database);
+      console.log('🆕 New conversation');
+    } else if (question) {
+      try {
+        const result = await runSqlOfThought(question, {
+          ...pipelineOptions(args, provider),
+          database: conversation.database,
+          history: conversation.turns,
+        });
+        addTurn(conversation, result);
+        await printResult(result, args);
+      } catch (error: any) {
+        progress(`❌ Pipeline error: ${error.message}`);
+      }
+    }
+    console.log();
+    rl.prompt();
+  }
+  rl.close();
+  return true;
+}
 
-    // Step 4: Query Plan Generation
-    const queryPlan = await queryPlanAgent(question, linkedSchema, subproblems);
+/**
+ * schema: the schema prompt the linking agent would get, or the raw schema with --json
+ */
+async function showSchema(args: CLIArgs): Promise<boolean> {
+  const schema = await getCompleteSchema(getDataSource(args.db), { profile: SCHEMA_PROFILING });
+  console.log(args.format === 'json' ? formatJSON(schema) : formatSchemaForPrompt(schema));
+  return true;
+}
 
-    // Step 5: SQL Generation
-    let generatedSQL = await sqlGenerationAgent(question, queryPlan, linkedSchema);
-    console.log('\n📄 Generated SQL:\n', generatedSQL);
+/**
+ * exec "<sql>": run a query through the read-only guard, without any agents
+ */
+async function exec(sql: string, args: CLIArgs): Promise<boolean> {
+  const source = getDataSource(args.db);
+  const result = await executeSQL(sql, source, { allowedStatements: ALLOWED_STATEMENTS });
+  const rows = result.result || [];
+
+  if (args.format === 'json') {
+    console.log(formatJSON({ database: source.name, sql, ...result, result: toJSONSafeRows(rows, result.columns) }));
+  } else if (!result.success) {
+    progress(`❌ ${result.error}`);
+  } else if (args.format === 'csv') {
+    console.log(formatCSV(rows, result.columns));
+  } else {
+    console.log(formatTable(rows, result.columns));
+    const truncated = result.truncated ? ' (truncated, see SQL_MAX_ROWS)' : '';
+    progress(`\n✅ ${result.row_count} rows${truncated} in ${result.execution_time_ms}ms`);
+  }
+  if (result.success && args.out) return writeOut(sql, source.name, args.out);
+  return result.success;
+}
 
-    // Step 6: Execute and potentially correct
-    let attempt = 0;
-    let success = false;
+/**
+ * history [--limit N] [--db name]: list recent runs
+ * history <id> [--prompts]: show one run's trace
+ */
+async function showHistory(args: CLIArgs): Promise<boolean> {
+  const id = args.positional[0];
+
+  if (!id) {
+    const runs = await listRuns({ limit: args.limit, database: args.db });
+    if (args.format === 'json') {
+      console.log(formatJSON(runs));
+      return true;
+    }
+    if (runs.length === 0) {
+      console.log('No runs recorded yet.');
+      return true;
+    }
+    for (const run of runs) {
+      const status = run.success ? '✅' : '❌';
+      const when = run.created_at.slice(0, 19).replace('T', ' ');
+      console.log(`${status} ${run.id.slice(0, 8)}  ${when}  [${run.database}]  ${run.question}`);
+      const cost = run.cost_usd !== null ? `, ${formatCost(run.cost_usd)}` : '';
+      console.log(`   ${run.attempts} attempt(s), ${(run.duration_ms / 1000).toFixed(1)}s, ${run.provider}/${run.model}, prompts ${run.prompt_set}${cost}`);
+    }
+    return true;
+  }
 
-    while (attempt <= MAX_CORRECTION_ATTEMPTS && !success) {
-      if (attempt > 0) {
-        console.log(`\n🔄 Correction attempt ${attempt}/${MAX_CORRECTION_ATTEMPTS}`);
-      }
+  const run = await getRun(id);
+  if (!run) {
+    progress(`❌ No run with id ${id}`);
+    return false;
+  }
+  if (args.format === 'json') console.log(formatJSON(run));
+  else printTrace(run, args.prompts);
+  return true;
+}
 
-      console.log('\n⚙️  Executing SQL...');
-      const result = await executeSQL(generatedSQL, DB_PATH);
-
-      if (result.success) {
-        console.log('✅ Query executed successfully!');
-        console.log(`📊 Returned ${result.row_count} rows in ${result.execution_time_ms}ms`);
-        console.log('\n📋 Results (first 5 rows):');
-
-        // Convert BigInt to string for JSON serialization
-        const resultsToShow = result.result?.slice(0, 5).map(row => {
-          const converted: any = {};
-          for (const [key, value] of Object.entries(row)) {
-            converted[key] = typeof value === 'bigint' ? value.toString() : value;
-          }
-          return converted;
-        });
+function confirm(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  return new Promise((resolve) =>
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    })
+  );
+}
 
-        console.log(JSON.stringify(resultsToShow, null, 2));
-        success = true;
-      } else {
-        console.log('❌ Query failed:', result.error);
-
-        if (attempt < MAX_CORRECTION_ATTEMPTS) {
-          // Enter correction loop
-          const correctionPlan = await correctionPlanAgent(question, generatedSQL, result.error || '', linkedSchema);
-          generatedSQL = await correctionSQLAgent(question, generatedSQL, correctionPlan, linkedSchema);
-          console.log('\n📄 Corrected SQL:\n', generatedSQL);
-        } else {
-          console.log('\n⚠️  Max correction attempts reached');
-        }
-
-        attempt++;
+/**
+ * examples [--db name]: list the example library
+ * examples promote <id> [--yes]: show a run's question, SQL and result, and add
+ * it to the library once approved
+ */
+async function showExamples(args: CLIArgs): Promise<boolean> {
+  const [action = 'list', id] = args.positional;
+
+  if (action === 'list') {
+    const examples = getExampleLibrary().filter((example) => !args.db || example.database === args.db);
+    if (args.format === 'json') {
+      console.log(formatJSON(examples));
+    } else if (examples.length === 0) {
+      console.log('The example library is empty.');
+    } else {
+      for (const example of examples) {
+        console.log(`📚 ${example.id}  [${example.database}]  ${example.question}`);
       }
     }
+    return true;
+  }
+  if (action !== 'promote' || !id) throw new Error('Usage: examples [list] | examples promote <run-id>');
 
-    console.log('\n' + '='.repeat(80));
-    console.log(success ? '✅ SQL-of-Thought completed successfully!' : '❌ SQL-of-Thought failed');
-    console.log('='.repeat(80) + '\n');
-  } catch (error) {
-    console.error('\n❌ Pipeline error:', error);
+  const run = await getRun(id);
+  if (!run) {
+    progress(`❌ No run with id ${id}`);
+    return false;
+  }
+  const example = exampleFromRun(run);
+
+  console.log(`📝 Question: ${example.question}`);
+  console.log(`🗄️  Database: ${example.database}`);
+  console.log(`\n${example.sql}`);
+  if (run.result_preview.length > 0) {
+    console.log(`\n📋 Result preview (${run.result_preview.length} of ${run.row_count} rows):`);
+    console.log(formatTable(run.result_preview));
   }
+  // A run that never passed verification returns its best query with warnings
+  const warning = run.sql_attempts.find((attempt) => attempt.success && attempt.sql === run.final_sql)?.error;
+  if (warning) console.log(`\n⚠️  ${warning}`);
+
+  if (!args.yes) {
+    if (!process.stdin.isTTY) throw new Error('examples promote asks for approval on a terminal; pass --yes to approve');
+    if (!(await confirm('\nAdd this example to the library? [y/N] '))) {
+      progress('Not promoted.');
+      return true;
+    }
+  }
+  const path = addExample(example);
+  progress(`✅ Added ${example.id} to ${path}`);
+  return true;
 }
 
-// Demo queries
-const DEMO_QUERIES = [
-  'List all customers from USA',
-  'What are the top 5 best-selling tracks by total revenue?',
-  'Show me the total sales amount for each employee',
-];
-
-// Run demo
-const questionIndex = process.argv[2] ? parseInt(process.argv[2]) : 0;
-const question = DEMO_QUERIES[questionIndex] || DEMO_QUERIES[0];
+async function main(args: CLIArgs): Promise<boolean> {
+  switch (args.command) {
+    case 'ask':
+      return ask(args.positional.join(' '), args);
+    case 'repl':
+      return repl(args);
+    case 'schema':
+      return showSchema(args);
+    case 'exec':
+      return exec(args.positional.join(' '), args);
+    case 'history':
+      return showHistory(args);
+    case 'examples':
+      return showExamples(args);
+    default:
+      console.log(USAGE);
+      return true;
+  }
+}
 
-sqlOfThought(question).catch(console.error);
+let cliArgs: CLIArgs;
+try {
+  cliArgs = parseArgs(process.argv.slice(2));
+} catch (error: any) {
+  console.error(`❌ ${error.message}\n\n${USAGE}`);
+  process.exit(2);
+}
+cliArgs.db ??= process.env.DATABASE;
+
+// Exit status 1 when the question couldn't be answered or the query failed, for shell scripts
+main(cliArgs)
+  .then((success) => {
+    process.exitCode = success ? 0 : 1;
+  })
+  .catch((error) => {
+    console.error('❌ Error:', error.message);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,353 @@
+/**
+ * SQL-of-Thought Benchmark
+ * Runs {question, gold_sql} pairs through the pipeline and scores execution accuracy,
+ * once per prompt set so prompt versions can be compared on the same questions
+ *
+ * Usage: npm run bench -- [file.jsonl] [--db name] [--limit N] [--candidates N] [--examples N] [--prompt-set v1,v2] [--out report.json]
+ */
+
+import * as dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { readFileSync, writeFileSync } from 'fs';
+import { executeSQL } from './tools/sql-executor-tool.js';
+import { createProvider, providerConfigFromEnv, LLMProvider } from './llm/provider.js';
+import { runSqlOfThought } from './engine/sql-of-thought.js';
+import { getDataSource, DataSource } from './tools/database-registry.js';
+import { compareResultSets, isExactMatch, isOrderSensitive } from './engine/evaluation.js';
+import { getPromptSet } from './engine/prompt-templates.js';
+import { FEW_SHOT_EXAMPLES, PROMPT_SET, SQL_CANDIDATES } from './engine/config.js';
+
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DEFAULT_BENCHMARK_PATH = join(__dirname, '../data/benchmarks/chinook.jsonl');
+
+interface BenchmarkCase {
+  question: string;
+  gold_sql: string;
+}
+
+interface CaseResult {
+  question: string;
+  gold_sql: string;
+  predicted_sql: string;
+  execution_match: boolean;
+  exact_match: boolean;
+  correction_attempts: number;
+  error_categories: string[];
+  /** Share of candidate queries agreeing with the chosen result, when voting */
+  confidence?: number;
+  error?: string;
+}
+
+interface BenchmarkReport {
+  database: string;
+  provider: string;
+  model: string;
+  prompt_set: string;
+  /** Candidate queries voted on per question */
+  candidates: number;
+  /** Library examples shown per question (0 = zero-shot) */
+  few_shot_examples: number;
+  total: number;
+  execution_accuracy: number;
+  exact_match_rate: number;
+  avg_correction_attempts: number;
+  failures_by_category: Record<string, number>;
+  skipped: { question: string; reason: string }[];
+  cases: CaseResult[];
+}
+
+interface BenchArgs {
+  file: string;
+  db?: string;
+  limit?: number;
+  out?: string;
+  candidates?: number;
+  examples?: number;
+  /** Each set runs the whole benchmark */
+  promptSets: string[];
+}
+
+const USAGE = `Usage: npm run bench -- [file.jsonl] [options]
+
+Options:
+  --db <name>          Registered database the questions run against
+  --limit <n>          Run only the first n questions
+  --candidates <n>     Candidate queries to generate and vote on per question
+  --examples <n>       Library examples shown per question (0 = zero-shot)
+  --prompt-set <ids>   Prompt sets to compare, comma-separated, e.g. v1,v2
+  --out <file>         Write the report as JSON`;
+
+function parseArgs(argv: string[]): BenchArgs {
+  const args: BenchArgs = { file: DEFAULT_BENCHMARK_PATH, promptSets: [PROMPT_SET] };
+  const value = (i: number) => {
+    if (argv[i + 1] === undefined) throw new Error(`${argv[i]} needs a value`);
+    return argv[i + 1];
+  };
+  const count = (i: number, min: number) => {
+    const n = parseInt(value(i), 10);
+    if (isNaN(n) || n < min) throw new Error(`${argv[i]} expects a number from ${min}, got "${argv[i + 1]}"`);
+    return n;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--db') args.db = value(i++);
+    else if (arg === '--limit') args.limit = count(i++, 1);
+    else if (arg === '--out') args.out = value(i++);
+    else if (arg === '--candidates') args.candidates = count(i++, 1);
+    else if (arg === '--examples') args.examples = count(i++, 0);
+    else if (arg === '--prompt-set') args.promptSets = value(i++).split(',').map((id) => id.trim());
+    else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else args.file = arg;
+  }
+
+  return args;
+}
+
+function loadBenchmark(path: string): BenchmarkCase[] {
+  return readFileSync(path, 'utf-8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line, i) => {
+      const entry = JSON.parse(line);
+      if (typeof entry.question !== 'string' || typeof entry.gold_sql !== 'string') {
+        throw new Error(`${path}:${i + 1}: expected {question, gold_sql}`);
+      }
+      return entry as BenchmarkCase;
+    });
+}
+
+/** Pipeline settings shared by every case of a suite */
+interface SuiteSettings {
+  candidates: number;
+  fewShotExamples: number;
+  promptSet: string;
+}
+
+const percent = (n: number, total: number) => (total === 0 ? '0.0' : ((n / total) * 100).toFixed(1));
+
+/**
+ * Run one benchmark case through the pipeline and score it against the gold query
+ */
+async function runCase(
+  benchCase: BenchmarkCase,
+  provider: LLMProvider,
+  source: DataSource,
+  settings: SuiteSettings
+): Promise<CaseResult> {
+  // Both results are compared in full: with a row cap, results that differ
+  // only past the cap would count as a match
+  const gold = await executeSQL(benchCase.gold_sql, source, { maxRows: 0 });
+  if (!gold.success) {
+    throw new Error(`Gold SQL failed: ${gold.error}`);
+  }
+
+  const errorCategories: string[] = [];
+
+  try {
+    const run = await runSqlOfThought(benchCase.question, {
+      provider,
+      database: source.name,
+      maxRows: 0,
+      ...settings,
+      onEvent: (event) => {
+        if (event.type === 'correction_planned') {
+          errorCategories.push(...event.correctionPlan.error_categories);
+        }
+      },
+    });
+
+    const executionMatch =
+      run.success &&
+      compareResultSets(gold.result || [], run.result?.result || [], isOrderSensitive(benchCase.gold_sql));
+
+    return {
+      question: benchCase.question,
+      gold_sql: benchCase.gold_sql,
+      predicted_sql: run.sql,
+      execution_match: executionMatch,
+      exact_match: isExactMatch(benchCase.gold_sql, run.sql),
+      correction_attempts: run.attempts - 1,
+      error_categories: errorCategories,
+      confidence: run.vote?.confidence,
+      error: run.success ? (executionMatch ? undefined : 'Result set differs from gold') : run.error,
+    };
+  } catch (error: any) {
+    return {
+      question: benchCase.question,
+      gold_sql: benchCase.gold_sql,
+      predicted_sql: '',
+      execution_match: false,
+      exact_match: false,
+      correction_attempts: 0,
+      error_categories: errorCategories,
+      error: `Pipeline error: ${error.message}`,
+    };
+  }
+}
+
+/**
+ * Run every case with one prompt set
+ */
+async function runSuite(
+  cases: BenchmarkCase[],
+  provider: LLMProvider,
+  source: DataSource,
+  settings: SuiteSettings
+): Promise<BenchmarkReport> {
+  const results: CaseResult[] = [];
+  const skipped: { question: string; reason: string }[] = [];
+
+  for (const [i, benchCase] of cases.entries()) {
+    try {
+      const result = await runCase(benchCase, provider, source, settings);
+      results.push(result);
+
+      const icon = result.execution_match ? '✅' : '❌';
+      console.log(`\n[${i + 1}/${cases.length}] ${icon} ${benchCase.question}`);
+      console.log(`   Corrections: ${result.correction_attempts}${result.error ? ` | ${result.error}` : ''}`);
+    } catch (error: any) {
+      skipped.push({ question: benchCase.question, reason: error.message });
+      console.log(`\n[${i + 1}/${cases.length}] ⚠️  Skipped: ${benchCase.question}\n   ${error.message}`);
+    }
+  }
+
+  // Count taxonomy categories seen on failed questions
+  const failuresByCategory: Record<string, number> = {};
+  for (const result of results.filter((r) => !r.execution_match)) {
+    const categories = result.error_categories.length > 0 ? new Set(result.error_categories) : ['uncategorized'];
+    for (const category of categories) {
+      failuresByCategory[category] = (failuresByCategory[category] || 0) + 1;
+    }
+  }
+
+  const executionMatches = results.filter((r) => r.execution_match).length;
+  const exactMatches = results.filter((r) => r.exact_match).length;
+  const totalCorrections = results.reduce((sum, r) => sum + r.correction_attempts, 0);
+
+  return {
+    database: source.name,
+    provider: provider.name,
+    model: provider.model,
+    prompt_set: settings.promptSet,
+    candidates: settings.candidates,
+    few_shot_examples: settings.fewShotExamples,
+    total: results.length,
+    execution_accuracy: results.length ? executionMatches / results.length : 0,
+    exact_match_rate: results.length ? exactMatches / results.length : 0,
+    avg_correction_attempts: results.length ? totalCorrections / results.length : 0,
+    failures_by_category: failuresByCategory,
+    skipped,
+    cases: results,
+  };
+}
+
+function printReport(report: BenchmarkReport): void {
+  const executionMatches = report.cases.filter((r) => r.execution_match).length;
+  const exactMatches = report.cases.filter((r) => r.exact_match).length;
+
+  console.log('\n' + '='.repeat(80));
+  console.log(`📊 Results (prompt set ${report.prompt_set})`);
+  console.log('='.repeat(80));
+  console.log(`Execution accuracy:      ${executionMatches}/${report.total} (${percent(executionMatches, report.total)}%)`);
+  console.log(`Exact match:             ${exactMatches}/${report.total} (${percent(exactMatches, report.total)}%)`);
+  console.log(`Avg correction attempts: ${report.avg_correction_attempts.toFixed(2)}`);
+  if (report.skipped.length > 0) {
+    console.log(`Skipped (gold SQL failed): ${report.skipped.length}`);
+  }
+
+  const categories = Object.entries(report.failures_by_category).sort((a, b) => b[1] - a[1]);
+  if (categories.length > 0) {
+    console.log('\nFailures by taxonomy category:');
+    for (const [category, count] of categories) {
+      console.log(`  - ${category}: ${count}`);
+    }
+  }
+}
+
+/**
+ * Side-by-side scores of several prompt sets, with the questions only some of them got right
+ */
+function printComparison(reports: BenchmarkReport[]): void {
+  console.log('\n' + '='.repeat(80));
+  console.log('🆚 Prompt set comparison');
+  console.log('='.repeat(80));
+  console.log('Prompt set   Execution   Exact match   Avg corrections');
+  for (const report of reports) {
+    console.log(
+      `${report.prompt_set.padEnd(12)} ${(percent(report.execution_accuracy, 1) + '%').padStart(9)}   ${(percent(report.exact_match_rate, 1) + '%').padStart(11)}   ${report.avg_correction_attempts.toFixed(2).padStart(15)}`
+    );
+  }
+
+  const differing = reports[0].cases.filter((result, i) =>
+    reports.some((report) => report.cases[i]?.execution_match !== result.execution_match)
+  );
+  if (differing.length > 0) {
+    console.log('\nQuestions the prompt sets disagree on:');
+    for (const result of differing) {
+      const outcomes = reports.map((report) => {
+        const match = report.cases.find((r) => r.question === result.question)?.execution_match;
+        return `${report.prompt_set} ${match ? '✅' : '❌'}`;
+      });
+      console.log(`  - ${result.question} (${outcomes.join(', ')})`);
+    }
+  }
+}
+
+async function bench(args: BenchArgs): Promise<void> {
+  let cases = loadBenchmark(args.file);
+  if (args.limit) cases = cases.slice(0, args.limit);
+
+  const source = getDataSource(args.db);
+  const providerConfig = providerConfigFromEnv();
+  const provider = createProvider(providerConfig);
+  const candidates = args.candidates ?? SQL_CANDIDATES;
+  const fewShotExamples = args.examples ?? FEW_SHOT_EXAMPLES;
+  // Fail on an unknown or invalid set before running anything
+  const promptSets = args.promptSets.map((id) => getPromptSet(id));
+
+  console.log('\n' + '='.repeat(80));
+  console.log(`📏 SQL-of-Thought Benchmark: ${cases.length} questions`);
+  console.log(`   Database: ${source.name} (${source.type})`);
+  console.log(`   Provider: ${provider.name} (${provider.model})`);
+  console.log(`   Prompt sets: ${promptSets.map((set) => set.id).join(', ')}`);
+  if (candidates > 1) console.log(`   Candidates: ${candidates} per question`);
+  console.log(`   Few-shot examples: ${fewShotExamples > 0 ? `up to ${fewShotExamples} per question` : 'none'}`);
+  console.log('='.repeat(80));
+
+  const reports: BenchmarkReport[] = [];
+  for (const promptSet of promptSets) {
+    if (promptSets.length > 1) console.log(`\n📝 Prompt set ${promptSet.id}${promptSet.description ? `: ${promptSet.description}` : ''}`);
+    // A provider per set, so the scripted provider replays its fixtures for each one
+    const setProvider = reports.length === 0 ? provider : createProvider(providerConfig);
+    const report = await runSuite(cases, setProvider, source, { candidates, fewShotExamples, promptSet: promptSet.id });
+    reports.push(report);
+    printReport(report);
+  }
+  if (reports.length > 1) printComparison(reports);
+
+  if (args.out) {
+    // One set writes its report; several write one report per set
+    writeFileSync(args.out, JSON.stringify(reports.length === 1 ? reports[0] : reports, null, 2));
+    console.log(`\n💾 Report written to ${args.out}`);
+  }
+  console.log();
+}
+
+let benchArgs: BenchArgs;
+try {
+  benchArgs = parseArgs(process.argv.slice(2));
+} catch (error: any) {
+  console.error(`❌ ${error.message}\n\n${USAGE}`);
+  process.exit(2);
+}
+
+bench(benchArgs).catch((error) => {
+  console.error('\n❌ Benchmark error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,52 @@
+/**
+ * CLI Chart Output
+ * Writes a recommended chart as its Vega-Lite spec (.json) or renders it
+ * headlessly with Vega to SVG or PNG
+ */
+
+import { writeFile } from 'fs/promises';
+import * as vega from 'vega';
+import { compile, type TopLevelSpec } from 'vega-lite';
+import type { VegaLiteSpec } from '../engine/visualization.js';
+
+export type ChartFormat = 'json' | 'svg' | 'png';
+
+/** Under Node, Vega draws on a node-canvas Canvas, which can encode itself */
+type NodeCanvas = HTMLCanvasElement & { toBuffer(mimeType: 'image/png'): Buffer };
+
+export const CHART_EXTENSIONS: Record<string, ChartFormat> = { json: 'json', svg: 'svg', png: 'png' };
+
+/**
+ * Chart format for a file name, e.g. chart.svg -> svg
+ */
+export function chartFormatForPath(path: string): ChartFormat | undefined {
+  return CHART_EXTENSIONS[path.split('.').pop()?.toLowerCase() ?? ''];
+}
+
+/**
+ * Write a chart to a file in the format of its extension. PNG rendering needs
+ * the optional `canvas` package.
+ */
+export async function writeChart(spec: VegaLiteSpec, path: string): Promise<void> {
+  const format = chartFormatForPath(path);
+  if (!format) throw new Error(`Can't tell the chart format of ${path} (expected .json, .svg or .png)`);
+
+  if (format === 'json') {
+    await writeFile(path, JSON.stringify(spec, null, 2) + '\n');
+    return;
+  }
+
+  const view = new vega.View(vega.parse(compile(spec as TopLevelSpec).spec), { renderer: 'none' });
+  try {
+    if (format === 'svg') {
+      await writeFile(path, await view.toSVG());
+    } else {
+      const canvas = (await view.toCanvas(2).catch((err: Error) => {
+        throw new Error(`PNG output needs the canvas package (npm install canvas): ${err.message}`);
+      })) as NodeCanvas;
+      await writeFile(path, canvas.toBuffer('image/png'));
+    }
+  } finally {
+    view.finalize();
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { formatCSV, formatJSON, formatTable, isOutputFormat } from './output.js';
+
+describe('formatTable', () => {
+  it('aligns columns, right-aligns numbers and prints NULLs as empty cells', () => {
+    const rows = [
+      { name: 'AC/DC', albums: 2, country: null },
+      { name: 'Aerosmith', albums: 12, country: 'USA' },
+    ];
+
+    expect(formatTable(rows).split('\n')).toEqual([
+      'name      | albums | country',
+      '----------+--------+--------',
+      'AC/DC     |      2 |',
+      'Aerosmith |     12 | USA',
+    ]);
+  });
+
+  it('converts BIGINTs and dates by column type', () => {
+    const table = formatTable(
+      [{ n: BigInt(3503), day: new Date('2009-01-01T00:00:00.000Z') }],
+      [
+        { name: 'n', type: 'BIGINT' },
+        { name: 'day', type: 'DATE' },
+      ]
+    );
+    expect(table.split('\n')[2]).toBe('3503 | 2009-01-01');
+  });
+
+  it('clips wide cells and summarizes rows past the limit', () => {
+    const rows = Array.from({ length: 3 }, (_, i) => ({ text: `${i} ${'x'.repeat(60)}` }));
+    const lines = formatTable(rows, undefined, 2).split('\n');
+
+    expect(lines).toHaveLength(5);
+    expect(lines[2]).toBe(`0 ${'x'.repeat(37)}…`);
+    expect(lines[4]).toBe('... 1 more rows (use --format csv or --json for all of them)');
+  });
+
+  it('says when there are no rows', () => {
+    expect(formatTable([])).toBe('(no rows)');
+  });
+});
+
+describe('formatCSV', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    const rows = [
+      { title: 'Let There Be Rock', note: 'plain' },
+      { title: 'Big Ones, Vol. 1', note: 'say "hi"\nagain' },
+    ];
+
+    expect(formatCSV(rows)).toBe(
+      ['title,note', 'Let There Be Rock,plain', '"Big Ones, Vol. 1","say ""hi""\nagain"'].join('\n')
+    );
+  });
+
+  it('quotes header names and converts values by column type', () => {
+    const csv = formatCSV(
+      [{ 'artist, name': 'AC/DC', total: BigInt(2) ** BigInt(64), day: new Date('2009-01-01T00:00:00.000Z') }],
+      [{ name: 'day', type: 'DATE' }]
+    );
+    expect(csv).toBe('"artist, name",total,day\nAC/DC,18446744073709551616,2009-01-01');
+  });
+
+  it('prints NULLs as empty fields and BLOBs as escaped text', () => {
+    expect(formatCSV([{ a: null, b: Buffer.from([0x61, 0x00]) }])).toBe('a,b\n,a\\x00');
+  });
+
+  it('returns nothing for no rows', () => {
+    expect(formatCSV([])).toBe('');
+  });
+});
+
+describe('formatJSON', () => {
+  it('converts BIGINTs anywhere in the value', () => {
+    expect(JSON.parse(formatJSON({ count: BigInt(3503), nested: [{ big: BigInt(2) ** BigInt(64) }] }))).toEqual({
+      count: 3503,
+      nested: [{ big: '18446744073709551616' }],
+    });
+  });
+});
+
+describe('isOutputFormat', () => {
+  it('accepts the known formats only', () => {
+    expect(isOutputFormat('csv')).toBe(true);
+    expect(isOutputFormat('trace')).toBe(true);
+    expect(isOutputFormat('xml')).toBe(false);
+  });
+});
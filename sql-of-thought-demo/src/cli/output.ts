@@ -0,0 +1,84 @@
+/**
+ * CLI Output Formats
+ * Result rows as an aligned text table, CSV or JSON, so the CLI reads well in
+ * a terminal and can be piped into other tools
+ */
+
+import { ResultColumn, toJSONSafeRows, toJSONValue } from '../tools/sql-executor-tool.js';
+
+/** trace prints the run's full trace from the history store instead of only the rows */
+export type OutputFormat = 'table' | 'json' | 'csv' | 'trace';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'csv', 'trace'];
+
+/** Rows printed by the table format; the rest are summarized */
+export const TABLE_MAX_ROWS = 100;
+/** Wider cells are cut off with an ellipsis */
+const TABLE_MAX_CELL_WIDTH = 40;
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return OUTPUT_FORMATS.includes(value as OutputFormat);
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function columnsOf(rows: Record<string, unknown>[]): string[] {
+  return rows.length > 0 ? Object.keys(rows[0]) : [];
+}
+
+/**
+ * Rows as an aligned table with a header rule. Numbers are right-aligned,
+ * NULLs print as empty cells.
+ */
+export function formatTable(rows: Record<string, unknown>[], columnTypes?: ResultColumn[], maxRows = TABLE_MAX_ROWS): string {
+  const columns = columnsOf(rows);
+  if (columns.length === 0) return '(no rows)';
+
+  const shown = toJSONSafeRows(rows.slice(0, maxRows), columnTypes);
+  const clip = (text: string) => (text.length > TABLE_MAX_CELL_WIDTH ? `${text.slice(0, TABLE_MAX_CELL_WIDTH - 1)}…` : text);
+  const cells = shown.map((row) => columns.map((column) => clip(cellText(row[column]).replace(/\s+/g, ' '))));
+  const widths = columns.map((column, i) => Math.max(column.length, ...cells.map((row) => row[i].length)));
+  const numeric = columns.map((column) =>
+    shown.every((row) => row[column] === null || row[column] === undefined || !isNaN(Number(row[column])))
+  );
+
+  const line = (values: string[]) =>
+    values
+      .map((value, i) => (numeric[i] ? value.padStart(widths[i]) : value.padEnd(widths[i])))
+      .join(' | ')
+      .trimEnd();
+
+  const lines = [line(columns), widths.map((width) => '-'.repeat(width)).join('-+-'), ...cells.map(line)];
+  if (rows.length > maxRows) {
+    lines.push(`... ${rows.length - maxRows} more rows (use --format csv or --json for all of them)`);
+  }
+  return lines.join('\n');
+}
+
+function csvField(value: unknown): string {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Rows as RFC 4180 CSV with a header line
+ */
+export function formatCSV(rows: Record<string, unknown>[], columnTypes?: ResultColumn[]): string {
+  const columns = columnsOf(rows);
+  if (columns.length === 0) return '';
+
+  const lines = toJSONSafeRows(rows, columnTypes).map((row) => columns.map((column) => csvField(row[column])).join(','));
+  return [columns.map(csvField).join(','), ...lines].join('\n');
+}
+
+/**
+ * Pretty-printed JSON; values the rows didn't already convert go through toJSONValue
+ */
+export function formatJSON(value: unknown): string {
+  return JSON.stringify(value, (_, v) => toJSONValue(v), 2);
+}
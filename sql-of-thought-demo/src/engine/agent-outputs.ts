@@ -0,0 +1,111 @@
+/**
+ * Agent Output Schemas
+ * Zod schemas for the JSON each agent returns. Agents validate responses
+ * against these and ask the model to repair anything that doesn't match.
+ */
+
+import { z } from 'zod';
+import { AgentName } from '../llm/provider.js';
+import { SchemaLinkingOutputSchema, SchemaLinkingOutput } from '../tools/schema-tool.js';
+
+export const FollowUpSchema = z.object({
+  is_follow_up: z.boolean(),
+  /** The question rewritten to make sense without the conversation */
+  standalone_question: z.string().min(1),
+  reasoning: z.string().default(''),
+});
+
+export const LinkedSchemaSchema = SchemaLinkingOutputSchema;
+
+export const SubproblemsSchema = z.object({
+  /** SQL clause name (SELECT, JOIN, GROUP BY...) -> what it should do */
+  clauses: z.record(z.string()),
+});
+
+export const QueryPlanSchema = z.object({
+  steps: z
+    .array(
+      z.object({
+        step_number: z.coerce.number().int(),
+        action: z.string(),
+        reasoning: z.string().default(''),
+        sql_fragment: z.string().optional(),
+      })
+    )
+    .min(1),
+  final_strategy: z.string().default(''),
+});
+
+export const CorrectionPlanSchema = z.object({
+  /** Taxonomy codes such as "join.incorrect_col" */
+  error_categories: z.array(z.string()),
+  root_cause: z.string(),
+  correction_plan: z.object({
+    steps: z.array(
+      z.object({
+        issue: z.string(),
+        fix: z.string(),
+        reasoning: z.string().default(''),
+      })
+    ),
+  }),
+  specific_changes: z
+    .object({
+      incorrect_part: z.string(),
+      corrected_part: z.string(),
+      explanation: z.string(),
+    })
+    .partial()
+    .optional(),
+});
+
+export const AnswerSummarySchema = z.object({
+  /** Plain-English answer to the question, quoting values from the result */
+  answer: z.string().min(1),
+  /** What the reader should know before relying on the answer, e.g. a partial result */
+  caveats: z.array(z.string()).default([]),
+});
+
+export const SQLExplanationSchema = z.object({
+  clauses: z
+    .array(
+      z.object({
+        /** The clause as it appears in the SQL, e.g. "GROUP BY e.EmployeeId" */
+        clause: z.string(),
+        explanation: z.string(),
+        /** Query plan steps the clause implements */
+        plan_steps: z.array(z.coerce.number().int()).default([]),
+      })
+    )
+    .min(1),
+  summary: z.string().default(''),
+});
+
+export type FollowUp = z.infer<typeof FollowUpSchema>;
+export type LinkedSchema = SchemaLinkingOutput;
+export type Subproblems = z.infer<typeof SubproblemsSchema>;
+export type QueryPlan = z.infer<typeof QueryPlanSchema>;
+export type CorrectionPlan = z.infer<typeof CorrectionPlanSchema>;
+export type AnswerSummary = z.infer<typeof AnswerSummarySchema>;
+export type SQLExplanation = z.infer<typeof SQLExplanationSchema>;
+
+/**
+ * An agent kept returning output that doesn't parse or match its schema
+ */
+export class AgentOutputError extends Error {
+  constructor(
+    public agent: AgentName,
+    public problems: string[],
+    public response: string
+  ) {
+    super(`Agent "${agent}" returned invalid output: ${problems.join('; ')}`);
+    this.name = 'AgentOutputError';
+  }
+}
+
+/**
+ * One line per zod issue, e.g. "steps.0.action: Required"
+ */
+export function describeZodError(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
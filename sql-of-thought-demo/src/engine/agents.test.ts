@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { CompletionRequest, LLMProvider } from '../llm/provider.js';
+import { AgentOutputError, LinkedSchema } from './agent-outputs.js';
+import { AgentContext, sqlGenerationAgent, subproblemAgent } from './agents.js';
+import { getPromptSet } from './prompt-templates.js';
+
+const LINKED_SCHEMA: LinkedSchema = {
+  tables: ['albums'],
+  columns: { albums: ['AlbumId', 'Title'] },
+  foreign_keys: [],
+  reasoning: '',
+};
+
+const PLAN = { steps: [{ step_number: 1, action: 'Count albums', reasoning: '' }], final_strategy: '' };
+
+/** Answers with the given replies in order and records the requests */
+function fakeProvider(replies: string[]): LLMProvider & { requests: CompletionRequest[] } {
+  const requests: CompletionRequest[] = [];
+  return {
+    name: 'scripted',
+    model: 'fake',
+    requests,
+    complete: async (request) => {
+      requests.push(request);
+      return { content: replies[Math.min(requests.length, replies.length) - 1] };
+    },
+  };
+}
+
+const contextFor = (provider: LLMProvider, outputRetries = 2): AgentContext => ({
+  provider,
+  temperature: 0,
+  schemaTokenBudget: 4000,
+  outputRetries,
+  prompts: getPromptSet('v1'),
+});
+
+describe('agent output repair', () => {
+  it('returns valid output without a repair call', async () => {
+    const provider = fakeProvider(['{"clauses": {"SELECT": "COUNT(*)"}}']);
+    const subproblems = await subproblemAgent(contextFor(provider), 'How many albums?', LINKED_SCHEMA);
+
+    expect(subproblems).toEqual({ clauses: { SELECT: 'COUNT(*)' } });
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].json).toBe(true);
+  });
+
+  it('sends malformed JSON back with the problems found', async () => {
+    const provider = fakeProvider(['{"clauses": {"SELECT": ', '```json\n{"clauses": {"SELECT": "COUNT(*)"}}\n```']);
+    const subproblems = await subproblemAgent(contextFor(provider), 'How many albums?', LINKED_SCHEMA);
+
+    expect(subproblems).toEqual({ clauses: { SELECT: 'COUNT(*)' } });
+    const [first, repair] = provider.requests;
+    expect(repair.prompt.startsWith(first.prompt)).toBe(true);
+    expect(repair.prompt).toContain('## Your Previous Response\n{"clauses": {"SELECT": ');
+    expect(repair.prompt).toContain('- Response is not valid JSON:');
+    expect(repair.prompt).toContain('Your previous response was invalid.');
+  });
+
+  it('reports schema violations by path', async () => {
+    const provider = fakeProvider(['{"clauses": {"SELECT": 1}}', '{"clauses": {}}']);
+    await subproblemAgent(contextFor(provider), 'How many albums?', LINKED_SCHEMA);
+
+    expect(provider.requests[1].prompt).toContain('- clauses.SELECT: Expected string, received number');
+  });
+
+  it('gives up after outputRetries repair calls and reports the last response', async () => {
+    const provider = fakeProvider(['not json', 'still not json', '{"tables": []}']);
+    const failure = subproblemAgent(contextFor(provider, 2), 'How many albums?', LINKED_SCHEMA);
+
+    await expect(failure).rejects.toBeInstanceOf(AgentOutputError);
+    await expect(failure).rejects.toMatchObject({
+      agent: 'subproblem',
+      problems: ['clauses: Required'],
+      response: '{"tables": []}',
+      message: 'Agent "subproblem" returned invalid output: clauses: Required',
+    });
+    expect(provider.requests).toHaveLength(3);
+  });
+
+  it('makes no repair call when outputRetries is 0', async () => {
+    const provider = fakeProvider(['not json', '{"clauses": {}}']);
+    await expect(subproblemAgent(contextFor(provider, 0), 'How many albums?', LINKED_SCHEMA)).rejects.toThrow(
+      AgentOutputError
+    );
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('asks the SQL agent again when its response has no query', async () => {
+    const provider = fakeProvider(['', '```sql\nSELECT COUNT(*) FROM albums\n```']);
+    const sql = await sqlGenerationAgent(contextFor(provider), 'How many albums?', PLAN, LINKED_SCHEMA);
+
+    expect(sql).toBe('SELECT COUNT(*) FROM albums');
+    expect(provider.requests[1].prompt).toContain('- Response contains no SQL query');
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * SQL-of-Thought Agents
+ * The six LLM agents of the pipeline and the optional agents around them,
+ * shared by the CLI and the web server. Each agent gathers its variables and
+ * renders its template from the run's prompt set.
+ */
+
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { DatabaseSchema, formatColumnValueHints, formatSchemaForPrompt } from '../tools/schema-tool.js';
+import { LLMProvider, AgentName, stripCodeFences } from '../llm/provider.js';
+import { SQLDiagnostic } from '../sql/diagnostics.js';
+import { SQLExecutorOutput, toJSONSafeRows } from '../tools/sql-executor-tool.js';
+import { ERROR_TAXONOMY_PATH } from './config.js';
+import { PromptSet, renderPrompt } from './prompt-templates.js';
+import {
+  AgentOutputError,
+  AnswerSummary,
+  AnswerSummarySchema,
+  CorrectionPlan,
+  CorrectionPlanSchema,
+  FollowUp,
+  FollowUpSchema,
+  LinkedSchema,
+  LinkedSchemaSchema,
+  QueryPlan,
+  QueryPlanSchema,
+  SQLExplanation,
+  SQLExplanationSchema,
+  Subproblems,
+  SubproblemsSchema,
+  describeZodError,
+} from './agent-outputs.js';
+import type { ConversationTurn } from './conversation.js';
+import type { RetrievedExample } from './examples.js';
+
+export interface AgentContext {
+  provider: LLMProvider;
+  temperature: number;
+  /** Approximate token budget for schema sections, including value profiles */
+  schemaTokenBudget: number;
+  /** Repair calls allowed when an agent's output fails validation */
+  outputRetries: number;
+  /** Cancels in-flight LLM calls */
+  signal?: AbortSignal;
+  /** Turn a follow-up question builds on; its SQL is shown to the agents to edit */
+  previousTurn?: ConversationTurn;
+  /** Similar solved questions from the example library, best first */
+  examples?: RetrievedExample[];
+  /** Templates the agents' prompts are rendered from */
+  prompts: PromptSet;
+}
+
+/** Parsed agent output, or the problems to send back to the model */
+type ParseOutcome<T> = { ok: true; value: T } | { ok: false; problems: string[] };
+
+const errorTaxonomy = JSON.parse(readFileSync(ERROR_TAXONOMY_PATH, 'utf-8'));
+
+/**
+ * Call the model and parse its answer. Output that doesn't parse is sent back
+ * with the problems found, up to ctx.outputRetries times.
+ */
+async function completeWithRepair<T>(
+  ctx: AgentContext,
+  agent: AgentName,
+  prompt: string,
+  json: boolean,
+  parse: (content: string) => ParseOutcome<T>
+): Promise<T> {
+  let request = prompt;
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await ctx.provider.complete({
+      agent,
+      prompt: request,
+      json,
+      temperature: ctx.temperature,
+      signal: ctx.signal,
+    });
+
+    const outcome = parse(response.content || '');
+    if (outcome.ok) return outcome.value;
+
+    if (attempt >= ctx.outputRetries) {
+      throw new AgentOutputError(agent, outcome.problems, response.content);
+    }
+
+    request = `${prompt}
+
+## Your Previous Response
+${response.content}
+
+## Problems
+${outcome.problems.map((problem) => `- ${problem}`).join('\n')}
+
+Your previous response was invalid. Fix these problems and return the complete answer again in the required format.`;
+  }
+}
+
+async function completeJSON<T>(
+  ctx: AgentContext,
+  agent: AgentName,
+  prompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): Promise<T> {
+  return completeWithRepair(ctx, agent, prompt, true, (content) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(stripCodeFences(content));
+    } catch (error: any) {
+      return { ok: false, problems: [`Response is not valid JSON: ${error.message}`] };
+    }
+
+    const parsed = schema.safeParse(data);
+    return parsed.success ? { ok: true, value: parsed.data } : { ok: false, problems: describeZodError(parsed.error) };
+  });
+}
+
+async function completeSQL(ctx: AgentContext, agent: AgentName, prompt: string): Promise<string> {
+  return completeWithRepair(ctx, agent, prompt, false, (content) => {
+    // Clean up SQL (remove markdown code blocks if present)
+    const sql = stripCodeFences(content);
+    return sql ? { ok: true, value: sql } : { ok: false, problems: ['Response contains no SQL query'] };
+  });
+}
+
+/**
+ * The previous turn's question and SQL, for follow-up questions
+ */
+function describePreviousTurn(ctx: AgentContext): string {
+  const previous = ctx.previousTurn;
+  if (!previous) return '';
+
+  return `This question follows up on: "${previous.standaloneQuestion}"
+Tables used: ${previous.linkedSchema.tables.join(', ')}
+
+\`\`\`sql
+${previous.sql}
+\`\`\``;
+}
+
+function describeExamples(ctx: AgentContext): string {
+  return (ctx.examples || [])
+    .map(({ example }, i) => {
+      const notes = example.notes ? `\nNote: ${example.notes}` : '';
+      return `${i + 1}. Q: "${example.question}"${notes}\n\n\`\`\`sql\n${example.sql}\n\`\`\``;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Follow-up Rewriting: runs before schema linking on later turns of a conversation
+ */
+export async function followUpAgent(ctx: AgentContext, question: string, turns: ConversationTurn[]): Promise<FollowUp> {
+  const history = turns
+    .map((turn, i) => `${i + 1}. Q: "${turn.standaloneQuestion}"\n   SQL: ${turn.sql.replace(/\s+/g, ' ')}`)
+    .join('\n');
+
+  const prompt = renderPrompt(ctx.prompts, 'follow_up', { history, question });
+
+  return completeJSON(ctx, 'follow_up', prompt, FollowUpSchema);
+}
+
+/**
+ * Agent 1: Schema Linking
+ */
+export async function schemaLinkingAgent(ctx: AgentContext, question: string, schema: DatabaseSchema): Promise<LinkedSchema> {
+  const prompt = renderPrompt(ctx.prompts, 'schema_linking', {
+    schema: formatSchemaForPrompt(schema, { tokenBudget: ctx.schemaTokenBudget }),
+    question,
+    previous_turn: describePreviousTurn(ctx),
+  });
+
+  return completeJSON(ctx, 'schema_linking', prompt, LinkedSchemaSchema);
+}
+
+/**
+ * Agent 2: Subproblem Identification
+ */
+export async function subproblemAgent(ctx: AgentContext, question: string, linkedSchema: LinkedSchema): Promise<Subproblems> {
+  const prompt = renderPrompt(ctx.prompts, 'subproblem', {
+    question,
+    tables: linkedSchema.tables.join(', '),
+    columns: JSON.stringify(linkedSchema.columns),
+  });
+
+  return completeJSON(ctx, 'subproblem', prompt, SubproblemsSchema);
+}
+
+/**
+ * Agent 3: Query Plan Generation (Chain-of-Thought)
+ */
+export async function queryPlanAgent(
+  ctx: AgentContext,
+  question: string,
+  linkedSchema: LinkedSchema,
+  subproblems: Subproblems
+): Promise<QueryPlan> {
+  const prompt = renderPrompt(ctx.prompts, 'query_plan', {
+    question,
+    tables: linkedSchema.tables.join(', '),
+    columns: JSON.stringify(linkedSchema.columns, null, 2),
+    foreign_keys: JSON.stringify(linkedSchema.foreign_keys, null, 2),
+    clauses: JSON.stringify(subproblems.clauses, null, 2),
+    previous_turn: describePreviousTurn(ctx),
+    examples: describeExamples(ctx),
+  });
+
+  return completeJSON(ctx, 'query_plan', prompt, QueryPlanSchema);
+}
+
+/**
+ * Agent 4: SQL Generation
+ */
+export async function sqlGenerationAgent(
+  ctx: AgentContext,
+  question: string,
+  queryPlan: QueryPlan,
+  linkedSchema: LinkedSchema
+): Promise<string> {
+  const prompt = renderPrompt(ctx.prompts, 'sql_generation', {
+    question,
+    plan: JSON.stringify(queryPlan, null, 2),
+    linked_schema: JSON.stringify(linkedSchema, null, 2),
+    previous_turn: describePreviousTurn(ctx),
+    examples: describeExamples(ctx),
+  });
+
+  return completeSQL(ctx, 'sql_generation', prompt);
+}
+
+/**
+ * The real columns of any table the error message points at, so the
+ * correction agent doesn't have to trust a possibly incomplete linked schema
+ */
+function inspectErrorTable(error: string, schema: DatabaseSchema): { error_table: string; error_table_columns: string } {
+  const tableMatch = error.match(/Table "(\w+)" does not have/);
+  const tableInfo = tableMatch && schema.tables[tableMatch[1]];
+  if (!tableInfo) return { error_table: '', error_table_columns: '' };
+
+  return {
+    error_table: tableMatch[1],
+    error_table_columns: tableInfo.columns.map((col) => `- ${col.name} (${col.type})`).join('\n'),
+  };
+}
+
+/**
+ * Agent 5: Correction Plan Agent
+ */
+export async function correctionPlanAgent(
+  ctx: AgentContext,
+  question: string,
+  incorrectSQL: string,
+  error: string,
+  linkedSchema: LinkedSchema,
+  schema: DatabaseSchema,
+  diagnostics: SQLDiagnostic[] = []
+): Promise<CorrectionPlan> {
+  const prompt = renderPrompt(ctx.prompts, 'correction_plan', {
+    taxonomy: JSON.stringify(errorTaxonomy, null, 2),
+    question,
+    sql: incorrectSQL,
+    error,
+    diagnostics: diagnostics.length > 0 ? JSON.stringify(diagnostics, null, 2) : '',
+    linked_schema: JSON.stringify(linkedSchema, null, 2),
+    ...inspectErrorTable(error, schema),
+    column_values: formatColumnValueHints(schema, linkedSchema.tables, ctx.schemaTokenBudget),
+  });
+
+  return completeJSON(ctx, 'correction_plan', prompt, CorrectionPlanSchema);
+}
+
+/**
+ * Agent 6: Correction SQL Agent
+ */
+export async function correctionSQLAgent(
+  ctx: AgentContext,
+  question: string,
+  incorrectSQL: string,
+  correctionPlan: CorrectionPlan,
+  linkedSchema: LinkedSchema
+): Promise<string> {
+  const prompt = renderPrompt(ctx.prompts, 'correction_sql', {
+    question,
+    sql: incorrectSQL,
+    correction_plan: JSON.stringify(correctionPlan, null, 2),
+    linked_schema: JSON.stringify(linkedSchema, null, 2),
+  });
+
+  return completeSQL(ctx, 'correction_sql', prompt);
+}
+
+/**
+ * Answer Summary: a plain-English answer grounded in the first rows of the result
+ */
+export async function answerSummaryAgent(
+  ctx: AgentContext,
+  question: string,
+  result: SQLExecutorOutput,
+  warnings: string[],
+  maxRows: number
+): Promise<AnswerSummary> {
+  const rows = toJSONSafeRows((result.result || []).slice(0, maxRows), result.columns);
+  const rowCount = result.row_count ?? rows.length;
+  const size = result.truncated ? `More than ${rowCount} rows (the result was cut off)` : `${rowCount} rows`;
+  const shown = rows.length < rowCount || result.truncated ? `, the first ${rows.length} shown` : '';
+
+  const prompt = renderPrompt(ctx.prompts, 'answer_summary', {
+    question,
+    result_size: `${size}${shown}`,
+    rows: JSON.stringify(rows, null, 2),
+    warnings: warnings.map((warning) => `- ${warning}`).join('\n'),
+  });
+
+  return completeJSON(ctx, 'answer_summary', prompt, AnswerSummarySchema);
+}
+
+/**
+ * SQL Explanation: the final query clause by clause, mapped to the query plan steps
+ */
+export async function sqlExplanationAgent(
+  ctx: AgentContext,
+  question: string,
+  sql: string,
+  queryPlan: QueryPlan
+): Promise<SQLExplanation> {
+  const steps = queryPlan.steps
+    .map((step) => `${step.step_number}. ${step.action}${step.sql_fragment ? ` (${step.sql_fragment})` : ''}`)
+    .join('\n');
+
+  const prompt = renderPrompt(ctx.prompts, 'sql_explanation', { question, sql, plan_steps: steps });
+
+  return completeJSON(ctx, 'sql_explanation', prompt, SQLExplanationSchema);
+}
@@ -0,0 +1,77 @@
+/**
+ * Engine Configuration
+ * Defaults shared by the CLI and the web server
+ */
+
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const ERROR_TAXONOMY_PATH = join(__dirname, '../../data/error-taxonomy.json');
+export const PROMPTS_DIR = join(__dirname, '../prompts');
+/** Prompt set the agents' templates come from (a directory in PROMPTS_DIR) */
+export const PROMPT_SET = process.env.PROMPT_SET || 'v1';
+
+/** Extra calls an agent gets to repair output that doesn't match its schema */
+export const AGENT_OUTPUT_RETRIES = parseInt(process.env.AGENT_OUTPUT_RETRIES || '2', 10);
+
+/** Correction rounds after the first execution fails */
+export const MAX_CORRECTION_ATTEMPTS = parseInt(process.env.MAX_CORRECTION_ATTEMPTS || '3', 10);
+export const TEMPERATURE = parseFloat(process.env.TEMPERATURE || '1');
+
+/** No correction round starts once a run has spent this many USD (0 = no limit) */
+export const RUN_BUDGET_USD = parseFloat(process.env.RUN_BUDGET_USD || '0');
+/** No correction round starts once a run has used this many tokens (0 = no limit) */
+export const RUN_TOKEN_BUDGET = parseInt(process.env.RUN_TOKEN_BUDGET || '0', 10);
+
+/** Profile column values and sample rows for the schema prompt (SCHEMA_PROFILING=false to skip) */
+export const SCHEMA_PROFILING = process.env.SCHEMA_PROFILING !== 'false';
+/** Approximate token budget for the schema section of agent prompts */
+export const SCHEMA_TOKEN_BUDGET = parseInt(process.env.SCHEMA_TOKEN_BUDGET || '6000', 10);
+
+/** Tables kept by schema retrieval before linking (FK join tables may add a few) */
+export const SCHEMA_TOP_K = parseInt(process.env.SCHEMA_TOP_K || '10', 10);
+/** Wider tables are cut down to their keys and best-matching columns */
+export const SCHEMA_MAX_COLUMNS = parseInt(process.env.SCHEMA_MAX_COLUMNS || '30', 10);
+
+/** Candidate queries generated and voted on per question (1 = a single query, no voting) */
+export const SQL_CANDIDATES = parseInt(process.env.SQL_CANDIDATES || '1', 10);
+/** Candidates generated and executed concurrently */
+export const SQL_CANDIDATE_PARALLELISM = parseInt(process.env.SQL_CANDIDATE_PARALLELISM || '4', 10);
+/** How candidates differ: 'sample' re-samples the SQL agent, 'plans' re-plans each candidate */
+export const SQL_CANDIDATE_STRATEGY = process.env.SQL_CANDIDATE_STRATEGY || 'sample';
+
+/** Similar library examples shown to the planning and SQL agents (0 = zero-shot) */
+export const FEW_SHOT_EXAMPLES = parseInt(process.env.FEW_SHOT_EXAMPLES || '3', 10);
+
+/** Bind each query with EXPLAIN before running it (SQL_VALIDATION=false to skip) */
+export const SQL_VALIDATION = process.env.SQL_VALIDATION !== 'false';
+
+/** Check executed results for signs of a wrong answer and correct them (RESULT_VERIFICATION=false to skip) */
+export const RESULT_VERIFICATION = process.env.RESULT_VERIFICATION !== 'false';
+
+/** Recommend a chart for each successful result (CHART_RECOMMENDATION=false to skip) */
+export const CHART_RECOMMENDATION = process.env.CHART_RECOMMENDATION !== 'false';
+
+/** Ask an agent for a plain-English answer to each answered question (ANSWER_SUMMARY=true to enable) */
+export const ANSWER_SUMMARY = process.env.ANSWER_SUMMARY === 'true';
+
+/** Result rows the answer summary agent sees */
+export const ANSWER_SUMMARY_ROWS = parseInt(process.env.ANSWER_SUMMARY_ROWS || '20', 10);
+
+/** Ask an agent to explain the final SQL clause by clause (SQL_EXPLANATION=true to enable) */
+export const SQL_EXPLANATION = process.env.SQL_EXPLANATION === 'true';
+
+/** Earlier conversation turns shown to the follow-up rewriter */
+export const CONVERSATION_TURNS = parseInt(process.env.CONVERSATION_TURNS || '5', 10);
+
+/** Save every run's trace to the history store (RUN_HISTORY=false to disable) */
+export const RUN_HISTORY = process.env.RUN_HISTORY !== 'false';
+
+/** Statement types the read-only guard accepts, e.g. SQL_ALLOWED_STATEMENTS=SELECT,WITH,EXPLAIN */
+export const ALLOWED_STATEMENTS = (process.env.SQL_ALLOWED_STATEMENTS || 'SELECT,WITH')
+  .split(',')
+  .map((statement) => statement.trim().toUpperCase())
+  .filter(Boolean);
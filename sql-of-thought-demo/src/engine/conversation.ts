@@ -0,0 +1,58 @@
+/**
+ * Conversations
+ * Multi-turn sessions: each answered question is kept as a turn so the next
+ * one can be asked as a follow-up ("now only for 2012", "break that down by genre")
+ */
+
+import { randomUUID } from 'crypto';
+import type { PipelineResult } from './sql-of-thought.js';
+import { LinkedSchema, QueryPlan } from './agent-outputs.js';
+
+export interface ConversationTurn {
+  /** Question as the user asked it */
+  question: string;
+  /** Question the pipeline answered, after follow-up rewriting */
+  standaloneQuestion: string;
+  sql: string;
+  success: boolean;
+  row_count?: number;
+  linkedSchema: LinkedSchema;
+  queryPlan: QueryPlan;
+  runId?: string;
+}
+
+export interface Conversation {
+  id: string;
+  database: string;
+  created_at: string;
+  updated_at: string;
+  turns: ConversationTurn[];
+}
+
+export function createConversation(database: string): Conversation {
+  const now = new Date().toISOString();
+  return { id: randomUUID(), database, created_at: now, updated_at: now, turns: [] };
+}
+
+export function toConversationTurn(result: PipelineResult): ConversationTurn {
+  return {
+    question: result.question,
+    standaloneQuestion: result.standaloneQuestion ?? result.question,
+    sql: result.sql,
+    success: result.success,
+    row_count: result.result?.row_count,
+    linkedSchema: result.linkedSchema,
+    queryPlan: result.queryPlan,
+    runId: result.runId,
+  };
+}
+
+/**
+ * Append a finished run to the conversation
+ */
+export function addTurn(conversation: Conversation, result: PipelineResult): ConversationTurn {
+  const turn = toConversationTurn(result);
+  conversation.turns.push(turn);
+  conversation.updated_at = new Date().toISOString();
+  return turn;
+}
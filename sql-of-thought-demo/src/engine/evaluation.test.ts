@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { compareResultSets, isExactMatch, isOrderSensitive, normalizeSQL, resultSetSignature } from './evaluation.js';
+
+describe('isOrderSensitive', () => {
+  it('is set by an ORDER BY in the gold query', () => {
+    expect(isOrderSensitive('SELECT name FROM artists ORDER BY name')).toBe(true);
+    expect(isOrderSensitive('select name from artists order\n  by name')).toBe(true);
+    expect(isOrderSensitive('SELECT name FROM artists')).toBe(false);
+  });
+});
+
+describe('compareResultSets', () => {
+  const gold = [
+    { name: 'AC/DC', albums: 2 },
+    { name: 'Accept', albums: 2 },
+    { name: 'Aerosmith', albums: 1 },
+  ];
+
+  it('ignores row order unless the gold query orders its rows', () => {
+    const shuffled = [gold[2], gold[0], gold[1]];
+    expect(compareResultSets(gold, shuffled, false)).toBe(true);
+    expect(compareResultSets(gold, shuffled, true)).toBe(false);
+    expect(compareResultSets(gold, [...gold], true)).toBe(true);
+  });
+
+  it('compares values, not column names', () => {
+    const aliased = gold.map((row) => ({ artist: row.name, album_count: row.albums }));
+    expect(compareResultSets(gold, aliased, true)).toBe(true);
+  });
+
+  it('treats equal numbers of different types and float noise as equal', () => {
+    expect(compareResultSets([{ total: 2328.6 }], [{ total: 2328.6000000000004 }], false)).toBe(true);
+    expect(compareResultSets([{ count: 3503 }], [{ count: BigInt(3503) }], false)).toBe(true);
+    expect(compareResultSets([{ total: 2328.6 }], [{ total: 2328.61 }], false)).toBe(false);
+  });
+
+  it('compares dates and NULLs by value', () => {
+    expect(compareResultSets([{ day: new Date('2009-01-01') }], [{ day: new Date('2009-01-01') }], false)).toBe(true);
+    expect(compareResultSets([{ state: null }], [{ state: undefined }], false)).toBe(true);
+  });
+
+  it('counts duplicate rows', () => {
+    const rows = [{ genre: 'Rock' }, { genre: 'Rock' }, { genre: 'Jazz' }];
+    expect(compareResultSets(rows, [{ genre: 'Rock' }, { genre: 'Jazz' }, { genre: 'Jazz' }], false)).toBe(false);
+    expect(compareResultSets(rows, [{ genre: 'Rock' }, { genre: 'Jazz' }], false)).toBe(false);
+    expect(compareResultSets(rows, [{ genre: 'Jazz' }, { genre: 'Rock' }, { genre: 'Rock' }], false)).toBe(true);
+  });
+
+  it('matches columns by position', () => {
+    expect(compareResultSets([{ a: 1, b: 2 }], [{ b: 2, a: 1 }], false)).toBe(false);
+  });
+});
+
+describe('resultSetSignature', () => {
+  it('is equal exactly when the unordered comparison is', () => {
+    const rows = [{ genre: 'Rock', n: 2 }, { genre: 'Jazz', n: 1 }];
+    expect(resultSetSignature(rows)).toBe(resultSetSignature([{ g: 'Jazz', n: BigInt(1) }, { g: 'Rock', n: 2 }]));
+    expect(resultSetSignature(rows)).not.toBe(resultSetSignature([rows[0], rows[0]]));
+  });
+});
+
+describe('isExactMatch', () => {
+  it('ignores case, whitespace, comments and a trailing semicolon', () => {
+    expect(
+      isExactMatch(
+        'SELECT COUNT(*) FROM tracks WHERE genre_id = 1;',
+        'select count( * )\n  from tracks -- rock\n where genre_id=1 /* id */'
+      )
+    ).toBe(true);
+    expect(normalizeSQL('SELECT  a ,b FROM t ;')).toBe('select a,b from t');
+  });
+
+  it('tells different queries apart', () => {
+    expect(isExactMatch('SELECT name FROM artists', 'SELECT title FROM albums')).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Evaluation Helpers
+ * Execution-accuracy and exact-match scoring used by the benchmark harness,
+ * and result-set equivalence for candidate voting
+ */
+
+const FLOAT_PRECISION = 1e6;
+
+/**
+ * Normalize a single cell so equivalent values from different queries compare equal
+ * (BigInt vs number, float noise, dates)
+ */
+function normalizeValue(value: unknown): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? String(value) : String(Math.round(value * FLOAT_PRECISION) / FLOAT_PRECISION);
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v));
+  return String(value);
+}
+
+/**
+ * Serialize a row by its values only. Column names are ignored because
+ * predicted queries are free to alias columns differently from the gold query.
+ */
+function rowKey(row: Record<string, unknown>): string {
+  return JSON.stringify(Object.values(row).map(normalizeValue));
+}
+
+/**
+ * Whether the gold query pins down row order
+ */
+export function isOrderSensitive(goldSQL: string): boolean {
+  return /\border\s+by\b/i.test(goldSQL);
+}
+
+/**
+ * Compare two result sets. Row order only matters when orderSensitive is set;
+ * otherwise the sets are compared as multisets.
+ */
+export function compareResultSets(
+  gold: Record<string, unknown>[],
+  predicted: Record<string, unknown>[],
+  orderSensitive: boolean
+): boolean {
+  if (gold.length !== predicted.length) return false;
+
+  const goldKeys = gold.map(rowKey);
+  const predictedKeys = predicted.map(rowKey);
+
+  if (!orderSensitive) {
+    goldKeys.sort();
+    predictedKeys.sort();
+  }
+
+  return goldKeys.every((key, i) => key === predictedKeys[i]);
+}
+
+/**
+ * Fingerprint of a result set: equal for any two results that
+ * compareResultSets considers equal when row order does not matter
+ */
+export function resultSetSignature(rows: Record<string, unknown>[]): string {
+  return JSON.stringify(rows.map(rowKey).sort());
+}
+
+/**
+ * Normalize SQL text for exact-match comparison
+ */
+export function normalizeSQL(sql: string): string {
+  return sql
+    .replace(/--.*$/gm, '')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/;\s*$/, '')
+    .replace(/\s+/g, ' ')
+    .replace(/\s*([(),=<>])\s*/g, '$1')
+    .trim()
+    .toLowerCase();
+}
+
+export function isExactMatch(goldSQL: string, predictedSQL: string): boolean {
+  return normalizeSQL(goldSQL) === normalizeSQL(predictedSQL);
+}
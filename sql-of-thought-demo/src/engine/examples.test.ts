@@ -0,0 +1,157 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Embedder } from '../llm/embeddings.js';
+import type { RunTrace } from '../history/trace.js';
+import {
+  ExampleLibraryError,
+  FewShotExample,
+  addExample,
+  exampleFromRun,
+  loadExampleLibrary,
+  retrieveExamples,
+} from './examples.js';
+
+const example = (id: string, question: string, database = 'chinook'): FewShotExample => ({
+  id,
+  database,
+  question,
+  sql: `SELECT '${id}'`,
+});
+
+const LIBRARY = [
+  example('revenue-by-country', 'What is the total invoice revenue per billing country?'),
+  example('top-artists', 'Which artists have the most tracks?'),
+  example('longest-tracks', 'What are the ten longest tracks?'),
+  example('sales-by-genre', 'Total sales by genre', 'northwind'),
+];
+
+/** Embeds texts by looking up fixed vectors, [0, 0] for anything else */
+const fakeEmbedder = (model: string, vectors: Record<string, number[]>): Embedder => ({
+  model,
+  embed: async (texts) => texts.map((text) => vectors[text] ?? [0, 0]),
+});
+
+const run = (overrides: Partial<RunTrace> = {}): RunTrace => ({
+  id: '0123456789abcdef',
+  created_at: '2026-01-01T00:00:00.000Z',
+  question: 'How many albums does AC/DC have?',
+  database: 'chinook',
+  provider: 'scripted',
+  model: 'scripted',
+  prompt_set: 'v1',
+  success: true,
+  final_sql: 'SELECT COUNT(*) FROM albums',
+  attempts: 1,
+  duration_ms: 10,
+  usage: { input_tokens: 0, output_tokens: 0 },
+  result_preview: [],
+  agent_calls: [],
+  sql_attempts: [],
+  artifacts: {},
+  ...overrides,
+});
+
+describe('loadExampleLibrary', () => {
+  it('loads the shipped library with unique ids', () => {
+    const library = loadExampleLibrary();
+    expect(library.length).toBeGreaterThan(0);
+    expect(new Set(library.map((entry) => entry.id)).size).toBe(library.length);
+  });
+});
+
+describe('retrieveExamples', () => {
+  it("ranks the database's examples by shared question terms", async () => {
+    const retrieved = await retrieveExamples('Revenue per country from invoices', 'chinook', { k: 3, examples: LIBRARY });
+    expect(retrieved.map((entry) => entry.example.id)).toEqual(['revenue-by-country']);
+    expect(retrieved[0].score).toBeGreaterThan(0.15);
+  });
+
+  it('returns at most k examples, best first', async () => {
+    const retrieved = await retrieveExamples('tracks of the most played artists', 'chinook', { k: 1, examples: LIBRARY });
+    expect(retrieved.map((entry) => entry.example.id)).toEqual(['top-artists']);
+  });
+
+  it('returns nothing for unrelated questions, other databases or k = 0', async () => {
+    expect(await retrieveExamples('Which employees report to the manager?', 'chinook', { k: 3, examples: LIBRARY })).toEqual([]);
+    expect(await retrieveExamples('Total sales by genre', 'unknown', { k: 3, examples: LIBRARY })).toEqual([]);
+    expect(await retrieveExamples('Total sales by genre', 'northwind', { k: 0, examples: LIBRARY })).toEqual([]);
+  });
+
+  it('blends in embedding similarity when an embedder is set', async () => {
+    const question = 'Who are the most prolific musicians?';
+    const embedder = fakeEmbedder('blend-test', {
+      [question]: [1, 0],
+      'Which artists have the most tracks?': [1, 0],
+      'What are the ten longest tracks?': [0, 1],
+    });
+
+    const retrieved = await retrieveExamples(question, 'chinook', { k: 3, examples: LIBRARY, embedder });
+    expect(retrieved[0].example.id).toBe('top-artists');
+    expect(retrieved.map((entry) => entry.example.id)).not.toContain('longest-tracks');
+  });
+
+  it('falls back to lexical ranking when embedding fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const embedder: Embedder = { model: 'failing', embed: async () => Promise.reject(new Error('offline')) };
+
+    const retrieved = await retrieveExamples('Revenue per country from invoices', 'chinook', {
+      k: 3,
+      examples: LIBRARY,
+      embedder,
+    });
+    expect(retrieved.map((entry) => entry.example.id)).toEqual(['revenue-by-country']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('offline'));
+    warn.mockRestore();
+  });
+});
+
+describe('exampleFromRun', () => {
+  it('turns a successful run into an example', () => {
+    expect(exampleFromRun(run(), LIBRARY)).toMatchObject({
+      id: 'chinook-01234567',
+      database: 'chinook',
+      question: 'How many albums does AC/DC have?',
+      sql: 'SELECT COUNT(*) FROM albums',
+      source: { run_id: '0123456789abcdef' },
+    });
+  });
+
+  it('stores a follow-up with its standalone question', () => {
+    const followUp = run({
+      question: 'And for Queen?',
+      artifacts: { follow_up: { standalone_question: 'How many albums does Queen have?' } },
+    });
+    expect(exampleFromRun(followUp, LIBRARY).question).toBe('How many albums does Queen have?');
+  });
+
+  it('refuses failed runs and questions already in the library', () => {
+    expect(() => exampleFromRun(run({ success: false }), LIBRARY)).toThrow(ExampleLibraryError);
+    expect(() => exampleFromRun(run({ question: 'which ARTISTS have the most tracks' }), LIBRARY)).toThrow(
+      'The library already has this question as top-artists'
+    );
+  });
+});
+
+describe('addExample', () => {
+  let examplesDir: string | undefined;
+
+  afterEach(() => {
+    if (examplesDir) rmSync(examplesDir, { recursive: true, force: true });
+  });
+
+  it("appends to the database's file and rejects a duplicate id", () => {
+    examplesDir = mkdtempSync(join(tmpdir(), 'examples-'));
+    const path = addExample(example('first', 'First question?'), examplesDir);
+    addExample(example('second', 'Second question?'), examplesDir);
+
+    expect(path).toBe(join(examplesDir, 'chinook.json'));
+    const saved: FewShotExample[] = JSON.parse(readFileSync(path, 'utf-8')).examples;
+    expect(saved.map((entry) => entry.id)).toEqual(['first', 'second']);
+    expect(loadExampleLibrary(examplesDir)).toHaveLength(2);
+    expect(() => addExample(example('first', 'Another question?'), examplesDir)).toThrow(
+      'Example id first is already in the library'
+    );
+  });
+});
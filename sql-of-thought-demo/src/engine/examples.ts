@@ -0,0 +1,213 @@
+/**
+ * Few-shot Example Library
+ * Verified question/SQL pairs stored as JSON files in data/examples/. For each
+ * new question the most similar examples of its database are retrieved, by
+ * TF-IDF over the questions' terms blended with embedding similarity when an
+ * embedder is set, and shown to the planning and SQL agents. Successful runs
+ * are promoted into the library from the history after a human approves them.
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { z } from 'zod';
+import { Embedder, cosineSimilarity } from '../llm/embeddings.js';
+import { extractTerms } from './schema-retrieval.js';
+import type { RunTrace } from '../history/trace.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const EXAMPLES_DIR = process.env.EXAMPLES_DIR || join(__dirname, '../../data/examples');
+
+const FewShotExampleSchema = z.object({
+  /** Unique across the library */
+  id: z.string().regex(/^[\w.-]+$/, 'use letters, digits, dots, dashes and underscores'),
+  /** Registered data source the SQL runs against */
+  database: z.string(),
+  question: z.string().min(1),
+  sql: z.string().min(1),
+  /** Why the query is written this way, shown to the agents with it */
+  notes: z.string().optional(),
+  /** Run the example was promoted from */
+  source: z.object({ run_id: z.string(), promoted_at: z.string() }).optional(),
+});
+
+const ExampleFileSchema = z.object({
+  description: z.string().optional(),
+  examples: z.array(FewShotExampleSchema),
+});
+
+export type FewShotExample = z.infer<typeof FewShotExampleSchema>;
+
+export interface RetrievedExample {
+  example: FewShotExample;
+  /** Similarity to the question, between 0 and 1 */
+  score: number;
+}
+
+/**
+ * The example library is invalid, or a run can't be promoted into it
+ */
+export class ExampleLibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExampleLibraryError';
+  }
+}
+
+/** Examples scoring below this share too little with the question to help */
+const MIN_SCORE = 0.15;
+
+/** Share of the score that comes from embedding similarity when an embedder is set */
+const SEMANTIC_WEIGHT = 0.5;
+
+const normalizeQuestion = (question: string) => question.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Load and validate every example file in the library directory. A missing
+ * directory is an empty library.
+ */
+export function loadExampleLibrary(examplesDir = EXAMPLES_DIR): FewShotExample[] {
+  if (!existsSync(examplesDir)) return [];
+
+  const examples: FewShotExample[] = [];
+  const files = new Map<string, string>();
+  for (const file of readdirSync(examplesDir).filter((name) => name.endsWith('.json')).sort()) {
+    const parsed = ExampleFileSchema.safeParse(JSON.parse(readFileSync(join(examplesDir, file), 'utf-8')));
+    if (!parsed.success) {
+      const problems = parsed.error.issues.map((issue) => `  - ${issue.path.join('.')}: ${issue.message}`);
+      throw new ExampleLibraryError(`${file}:\n${problems.join('\n')}`);
+    }
+    for (const example of parsed.data.examples) {
+      if (files.has(example.id)) {
+        throw new ExampleLibraryError(`${file}: example id ${example.id} is already used in ${files.get(example.id)}`);
+      }
+      files.set(example.id, file);
+      examples.push(example);
+    }
+  }
+  return examples;
+}
+
+let cachedLibrary: FewShotExample[] | null = null;
+
+export function getExampleLibrary(): FewShotExample[] {
+  if (!cachedLibrary) {
+    cachedLibrary = loadExampleLibrary();
+  }
+  return cachedLibrary;
+}
+
+/** Example embeddings by model and question, so the library is embedded once per process */
+const embeddingCache = new Map<string, number[]>();
+
+async function semanticScores(embedder: Embedder, question: string, examples: FewShotExample[]): Promise<number[]> {
+  const key = (text: string) => `${embedder.model}:${text}`;
+  const missing = [...new Set(examples.map((example) => example.question))].filter((text) => !embeddingCache.has(key(text)));
+  const [questionEmbedding, ...exampleEmbeddings] = await embedder.embed([question, ...missing]);
+  missing.forEach((text, i) => embeddingCache.set(key(text), exampleEmbeddings[i]));
+
+  return examples.map((example) => Math.max(0, cosineSimilarity(questionEmbedding, embeddingCache.get(key(example.question))!)));
+}
+
+/**
+ * Cosine similarity of TF-IDF term vectors between the question and each example's question
+ */
+function lexicalScores(question: string, examples: FewShotExample[]): number[] {
+  const docs = examples.map((example) => new Set(extractTerms(example.question)));
+  const documentFrequency = new Map<string, number>();
+  for (const terms of docs) {
+    for (const term of terms) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+  const idf = (term: string) => Math.log(1 + examples.length / (documentFrequency.get(term) || 1));
+  const norm = (terms: Set<string>) => Math.sqrt([...terms].reduce((sum, term) => sum + idf(term) ** 2, 0));
+
+  const questionTerms = new Set(extractTerms(question));
+  const questionNorm = norm(questionTerms);
+  return docs.map((terms) => {
+    let dot = 0;
+    for (const term of questionTerms) {
+      if (terms.has(term)) dot += idf(term) ** 2;
+    }
+    const denominator = questionNorm * norm(terms);
+    return denominator === 0 ? 0 : dot / denominator;
+  });
+}
+
+/**
+ * The k examples of a database most similar to the question, best first
+ */
+export async function retrieveExamples(
+  question: string,
+  database: string,
+  options: { k: number; embedder?: Embedder; examples?: FewShotExample[] }
+): Promise<RetrievedExample[]> {
+  const examples = (options.examples ?? getExampleLibrary()).filter((example) => example.database === database);
+  if (options.k <= 0 || examples.length === 0) return [];
+
+  let scores = lexicalScores(question, examples);
+  if (options.embedder) {
+    try {
+      const semantic = await semanticScores(options.embedder, question, examples);
+      scores = scores.map((score, i) => (1 - SEMANTIC_WEIGHT) * score + SEMANTIC_WEIGHT * semantic[i]);
+    } catch (error: any) {
+      console.warn(`  ⚠️  Embedding request failed, ranking examples lexically: ${error.message}`);
+    }
+  }
+
+  return examples
+    .map((example, i) => ({ example, score: scores[i] }))
+    .filter((retrieved) => retrieved.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.k);
+}
+
+/**
+ * Turn a recorded run into a library example. Follow-ups are stored with their
+ * standalone question, since the conversation they followed isn't kept.
+ */
+export function exampleFromRun(run: RunTrace, library = getExampleLibrary()): FewShotExample {
+  if (!run.success) {
+    throw new ExampleLibraryError(`Run ${run.id.slice(0, 8)} didn't answer its question, so it can't be promoted`);
+  }
+
+  const followUp = run.artifacts.follow_up as { standalone_question?: string } | undefined;
+  const question = followUp?.standalone_question || run.question;
+  const duplicate = library.find(
+    (example) => example.database === run.database && normalizeQuestion(example.question) === normalizeQuestion(question)
+  );
+  if (duplicate) {
+    throw new ExampleLibraryError(`The library already has this question as ${duplicate.id}`);
+  }
+
+  return {
+    id: `${run.database}-${run.id.slice(0, 8)}`,
+    database: run.database,
+    question,
+    sql: run.final_sql,
+    source: { run_id: run.id, promoted_at: new Date().toISOString() },
+  };
+}
+
+/**
+ * Append an example to its database's file in the library
+ */
+export function addExample(example: FewShotExample, examplesDir = EXAMPLES_DIR): string {
+  if (loadExampleLibrary(examplesDir).some((existing) => existing.id === example.id)) {
+    throw new ExampleLibraryError(`Example id ${example.id} is already in the library`);
+  }
+
+  const path = join(examplesDir, `${example.database}.json`);
+  const file = existsSync(path)
+    ? ExampleFileSchema.parse(JSON.parse(readFileSync(path, 'utf-8')))
+    : { examples: [] as FewShotExample[] };
+  file.examples.push(FewShotExampleSchema.parse(example));
+
+  mkdirSync(examplesDir, { recursive: true });
+  writeFileSync(path, JSON.stringify(file, null, 2) + '\n');
+  cachedLibrary = null;
+  return path;
+}
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { cpSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PROMPTS_DIR } from './config.js';
+import { PromptSet, PromptTemplateError, listPromptSets, loadPromptSet, renderPrompt } from './prompt-templates.js';
+
+let promptsDir: string;
+
+/** A set in the temporary prompts directory that extends another with these templates */
+function writeSet(id: string, templates: Record<string, string>, extendsSet = 'v1'): void {
+  mkdirSync(join(promptsDir, id));
+  writeFileSync(join(promptsDir, id, 'prompt-set.json'), JSON.stringify({ extends: extendsSet }));
+  for (const [file, text] of Object.entries(templates)) writeFileSync(join(promptsDir, id, file), text);
+}
+
+const explanation = (body: string, variables = 'question, sql, plan_steps') => `---\nvariables: ${variables}\n---\n${body}`;
+
+const loadError = (id: string) => {
+  try {
+    loadPromptSet(id, promptsDir);
+  } catch (error) {
+    expect(error).toBeInstanceOf(PromptTemplateError);
+    return (error as Error).message;
+  }
+  throw new Error(`Prompt set ${id} loaded`);
+};
+
+beforeEach(() => {
+  promptsDir = mkdtempSync(join(tmpdir(), 'prompts-'));
+  cpSync(join(PROMPTS_DIR, 'v1'), join(promptsDir, 'v1'), { recursive: true });
+});
+
+afterEach(() => {
+  rmSync(promptsDir, { recursive: true, force: true });
+});
+
+describe('loadPromptSet', () => {
+  it('loads every shipped prompt set', () => {
+    for (const id of listPromptSets()) {
+      expect(loadPromptSet(id).id).toBe(id);
+    }
+  });
+
+  it('inherits the templates a set does not override', () => {
+    writeSet('short', { 'sql-explanation.md': explanation('{{question}} {{sql}} {{plan_steps}}') });
+    const prompts = loadPromptSet('short', promptsDir);
+    expect(prompts.templates.sql_explanation.set).toBe('short');
+    expect(prompts.templates.sql_generation.set).toBe('v1');
+  });
+
+  it('rejects undeclared, unknown, unused and missing required variables', () => {
+    writeSet('bad', {
+      'sql-explanation.md': explanation('{{question}} {{rows}} {{plan_steps}}', 'question, plan_steps, rows, answer'),
+    });
+    const message = loadError('bad');
+    expect(message).toContain('rows is not a variable of the sql_explanation agent');
+    expect(message).toContain('required variable sql is not declared');
+    expect(message).toContain('declared variable answer is never used');
+  });
+
+  it('rejects malformed tags and unbalanced sections', () => {
+    writeSet('tags', {
+      'sql-explanation.md': explanation('{{question}} {{ sql }} {{#plan_steps}}{{plan_steps}}'),
+    });
+    const message = loadError('tags');
+    expect(message).toContain('malformed tag {{ sql }}');
+    expect(message).toContain('unclosed section plan_steps');
+  });
+
+  it('rejects unknown sets, files that name no agent and extends cycles', () => {
+    expect(loadError('missing')).toMatch(/^Unknown prompt set "missing" \(available: v1\)/);
+
+    writeSet('stray', { 'notes.md': explanation('') });
+    expect(loadError('stray')).toMatch(/^stray\/notes\.md doesn't name an agent/);
+
+    writeSet('a', {}, 'b');
+    writeSet('b', {}, 'a');
+    expect(loadError('a')).toBe('Prompt set a extends itself (a → b → a)');
+  });
+});
+
+describe('renderPrompt', () => {
+  const prompts = (body: string): PromptSet => {
+    writeSet('render', { 'sql-explanation.md': explanation(body) });
+    return loadPromptSet('render', promptsDir);
+  };
+
+  it('fills in variables and leaves tag-like text in values alone', () => {
+    const template = prompts('Q: {{question}}\nSQL: {{sql}}\n{{#plan_steps}}Steps: {{plan_steps}}{{/plan_steps}}');
+    const rendered = renderPrompt(template, 'sql_explanation', {
+      question: 'What is {{sql}}?',
+      sql: 'SELECT 1',
+      plan_steps: '1. count',
+    });
+    expect(rendered).toBe('Q: What is {{sql}}?\nSQL: SELECT 1\nSteps: 1. count');
+  });
+
+  it('drops an empty section without leaving blank lines', () => {
+    const template = prompts('{{question}}\n\n{{#plan_steps}}\nSteps: {{plan_steps}}\n{{/plan_steps}}\n\n{{sql}}');
+    const rendered = renderPrompt(template, 'sql_explanation', {
+      question: 'Q',
+      sql: 'SELECT 1',
+      plan_steps: '',
+    });
+    expect(rendered).toBe('Q\n\nSELECT 1');
+  });
+
+  it('requires a value for every declared variable', () => {
+    const template = prompts('{{question}} {{sql}} {{plan_steps}}');
+    expect(() => renderPrompt(template, 'sql_explanation', { question: 'Q', sql: 'S' })).toThrow(
+      'No value for plan_steps in the sql_explanation prompt'
+    );
+  });
+});
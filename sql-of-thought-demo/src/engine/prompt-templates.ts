@@ -0,0 +1,215 @@
+/**
+ * Prompt Templates
+ * Every agent's prompt is a Markdown template in a versioned prompt set
+ * (src/prompts/<set>/<agent>.md). A template declares the variables it uses in
+ * its front matter and fills them in with {{name}}; {{#name}}...{{/name}} keeps
+ * a section only when the variable is non-empty. Templates are checked against
+ * the variables each agent provides when the set is loaded, so a typo fails
+ * the run before any model is called.
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import type { AgentName } from '../llm/provider.js';
+import { PROMPTS_DIR, PROMPT_SET } from './config.js';
+
+/**
+ * Variables each agent fills in. A template must use the required ones and
+ * may use the optional ones, which are empty when they don't apply.
+ */
+const AGENT_VARIABLES: Record<AgentName, { required: string[]; optional: string[] }> = {
+  follow_up: { required: ['question', 'history'], optional: [] },
+  schema_linking: { required: ['question', 'schema'], optional: ['previous_turn'] },
+  subproblem: { required: ['question'], optional: ['tables', 'columns'] },
+  query_plan: {
+    required: ['question'],
+    optional: ['tables', 'columns', 'foreign_keys', 'clauses', 'previous_turn', 'examples'],
+  },
+  sql_generation: { required: ['question', 'plan'], optional: ['linked_schema', 'previous_turn', 'examples'] },
+  correction_plan: {
+    required: ['question', 'sql', 'error'],
+    optional: ['taxonomy', 'diagnostics', 'linked_schema', 'error_table', 'error_table_columns', 'column_values'],
+  },
+  correction_sql: { required: ['question', 'sql', 'correction_plan'], optional: ['linked_schema'] },
+  answer_summary: { required: ['question', 'rows'], optional: ['result_size', 'warnings'] },
+  sql_explanation: { required: ['question', 'sql'], optional: ['plan_steps'] },
+};
+
+export const PROMPT_AGENTS = Object.keys(AGENT_VARIABLES) as AgentName[];
+
+const PromptSetManifestSchema = z.object({
+  description: z.string().optional(),
+  /** Set whose templates are used for agents this set doesn't override */
+  extends: z.string().optional(),
+});
+
+export interface PromptTemplate {
+  agent: AgentName;
+  /** Set the template file belongs to, which differs from the run's set for inherited templates */
+  set: string;
+  variables: string[];
+  body: string;
+}
+
+export interface PromptSet {
+  id: string;
+  description?: string;
+  templates: Record<AgentName, PromptTemplate>;
+}
+
+/**
+ * A prompt set is missing, incomplete or has an invalid template
+ */
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+const TAG = /\{\{(.*?)\}\}/g;
+const TAG_NAME = /^([#/]?)([a-z][a-z0-9_]*)$/;
+// A section swallows the line breaks after its tags so an empty one leaves no blank lines
+const RENDER_TAG = /\{\{#([a-z0-9_]+)\}\}\n?([\s\S]*?)\{\{\/\1\}\}\n?|\{\{([a-z0-9_]+)\}\}/g;
+
+const templateFile = (agent: AgentName) => `${agent.replace(/_/g, '-')}.md`;
+
+/**
+ * Split a template into its front matter variables and its body
+ */
+function parseTemplate(text: string, file: string): { variables: string[]; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n([\s\S]*)$/);
+  if (!match) throw new PromptTemplateError(`${file}: expected front matter between --- lines`);
+
+  const fields = new Map<string, string>();
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^(\w+):\s*(.*)$/);
+    if (field) fields.set(field[1], field[2].trim());
+  }
+  if (!fields.has('variables')) throw new PromptTemplateError(`${file}: front matter must declare variables`);
+
+  const variables = fields
+    .get('variables')!
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return { variables, body: match[2] };
+}
+
+/**
+ * Check a template's tags and declared variables against what its agent provides
+ */
+function validateTemplate(agent: AgentName, variables: string[], body: string, file: string): void {
+  const { required, optional } = AGENT_VARIABLES[agent];
+  const problems: string[] = [];
+
+  for (const name of variables) {
+    if (!required.includes(name) && !optional.includes(name)) {
+      problems.push(`${name} is not a variable of the ${agent} agent (expected ${[...required, ...optional].join(', ')})`);
+    }
+  }
+  for (const name of required) {
+    if (!variables.includes(name)) problems.push(`required variable ${name} is not declared`);
+  }
+
+  const used = new Set<string>();
+  const open: string[] = [];
+  for (const [tag, inner] of body.matchAll(TAG)) {
+    const parts = inner.match(TAG_NAME);
+    if (!parts) {
+      problems.push(`malformed tag ${tag}`);
+      continue;
+    }
+    const [, kind, name] = parts;
+    used.add(name);
+    if (!variables.includes(name)) problems.push(`${tag} uses undeclared variable ${name}`);
+    if (kind === '#') {
+      if (open.includes(name)) problems.push(`section ${name} is nested in itself`);
+      open.push(name);
+    } else if (kind === '/') {
+      if (open.pop() !== name) problems.push(`${tag} closes a section that isn't open`);
+    }
+  }
+  if (open.length > 0) problems.push(`unclosed section ${open.join(', ')}`);
+  for (const name of variables) {
+    if (!used.has(name)) problems.push(`declared variable ${name} is never used`);
+  }
+
+  if (problems.length > 0) {
+    throw new PromptTemplateError(`${file}:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+  }
+}
+
+/**
+ * Prompt sets found in the prompts directory
+ */
+export function listPromptSets(promptsDir = PROMPTS_DIR): string[] {
+  return readdirSync(promptsDir)
+    .filter((name) => statSync(join(promptsDir, name)).isDirectory())
+    .sort();
+}
+
+/**
+ * Load and validate a prompt set, with the templates it inherits
+ */
+export function loadPromptSet(id: string, promptsDir = PROMPTS_DIR, seen: string[] = []): PromptSet {
+  const dir = join(promptsDir, id);
+  if (!/^[\w.-]+$/.test(id) || !existsSync(dir)) {
+    throw new PromptTemplateError(`Unknown prompt set "${id}" (available: ${listPromptSets(promptsDir).join(', ')})`);
+  }
+  if (seen.includes(id)) throw new PromptTemplateError(`Prompt set ${id} extends itself (${[...seen, id].join(' → ')})`);
+
+  const manifestPath = join(dir, 'prompt-set.json');
+  const manifest = existsSync(manifestPath)
+    ? PromptSetManifestSchema.parse(JSON.parse(readFileSync(manifestPath, 'utf-8')))
+    : {};
+  const inherited = manifest.extends ? loadPromptSet(manifest.extends, promptsDir, [...seen, id]).templates : {};
+
+  const templates: Partial<Record<AgentName, PromptTemplate>> = { ...inherited };
+  for (const file of readdirSync(dir).filter((name) => name.endsWith('.md'))) {
+    const agent = PROMPT_AGENTS.find((name) => templateFile(name) === file);
+    if (!agent) {
+      throw new PromptTemplateError(`${id}/${file} doesn't name an agent (expected ${PROMPT_AGENTS.map(templateFile).join(', ')})`);
+    }
+    const { variables, body } = parseTemplate(readFileSync(join(dir, file), 'utf-8'), `${id}/${file}`);
+    validateTemplate(agent, variables, body, `${id}/${file}`);
+    templates[agent] = { agent, set: id, variables, body };
+  }
+
+  const missing = PROMPT_AGENTS.filter((agent) => !templates[agent]);
+  if (missing.length > 0) {
+    throw new PromptTemplateError(`Prompt set ${id} has no template for ${missing.join(', ')}`);
+  }
+  return { id, description: manifest.description, templates: templates as Record<AgentName, PromptTemplate> };
+}
+
+const loadedSets = new Map<string, PromptSet>();
+
+/**
+ * A prompt set by id, loaded once; defaults to PROMPT_SET
+ */
+export function getPromptSet(id = PROMPT_SET): PromptSet {
+  if (!loadedSets.has(id)) loadedSets.set(id, loadPromptSet(id));
+  return loadedSets.get(id)!;
+}
+
+function renderBody(body: string, values: Record<string, string>): string {
+  return body.replace(RENDER_TAG, (_, section: string, inner: string, variable: string) =>
+    section ? (values[section] ? renderBody(inner, values) : '') : values[variable]
+  );
+}
+
+/**
+ * Fill in an agent's template. Values are inserted as they are, so text in
+ * them that looks like a tag is left alone.
+ */
+export function renderPrompt(prompts: PromptSet, agent: AgentName, values: Record<string, string>): string {
+  const template = prompts.templates[agent];
+  for (const name of template.variables) {
+    if (values[name] === undefined) throw new PromptTemplateError(`No value for ${name} in the ${agent} prompt`);
+  }
+  return renderBody(template.body, values)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { DatabaseSchema, TableInfo } from '../tools/schema-tool.js';
+import type { Embedder } from '../llm/embeddings.js';
+import { extractTerms, retrieveSchema } from './schema-retrieval.js';
+
+const table = (primaryKey: string, ...columns: string[]): TableInfo => ({
+  columns: [primaryKey, ...columns].map((name) => ({
+    name,
+    type: name.endsWith('Id') ? 'INTEGER' : 'VARCHAR',
+    nullable: name !== primaryKey,
+    primary_key: name === primaryKey,
+    unique: name === primaryKey,
+  })),
+  primary_key: [primaryKey],
+  unique_keys: [],
+  indexes: [],
+});
+
+const fk = (fromTable: string, fromColumn: string, toTable: string, toColumn = fromColumn) => ({
+  from_table: fromTable,
+  from_columns: [fromColumn],
+  to_table: toTable,
+  to_columns: [toColumn],
+});
+
+/** A small store: customers buy tracks on invoices, tracks belong to albums and genres */
+const SCHEMA: DatabaseSchema = {
+  tables: {
+    artists: table('ArtistId', 'Name'),
+    albums: table('AlbumId', 'Title', 'ArtistId'),
+    genres: table('GenreId', 'Name'),
+    tracks: table('TrackId', 'Name', 'AlbumId', 'GenreId', 'Composer'),
+    customers: table('CustomerId', 'FirstName', 'LastName', 'Country'),
+    invoices: table('InvoiceId', 'CustomerId', 'BillingCity'),
+    line_items: table('LineId', 'InvoiceId', 'TrackId', 'Quantity'),
+  },
+  foreign_keys: [
+    fk('albums', 'ArtistId', 'artists'),
+    fk('tracks', 'AlbumId', 'albums'),
+    fk('tracks', 'GenreId', 'genres'),
+    fk('invoices', 'CustomerId', 'customers'),
+    fk('line_items', 'InvoiceId', 'invoices'),
+    fk('line_items', 'TrackId', 'tracks'),
+  ],
+};
+
+const kept = (result: { tables: { table: string; reason: string }[] }) =>
+  Object.fromEntries(result.tables.map((entry) => [entry.table, entry.reason]));
+
+describe('extractTerms', () => {
+  it('splits identifiers, drops stopwords and stems plurals', () => {
+    expect(extractTerms('Which customers have InvoiceLines in billing_cities?')).toEqual([
+      'customer',
+      'invoice',
+      'line',
+      'billing',
+      'city',
+    ]);
+  });
+});
+
+describe('retrieveSchema', () => {
+  it('keeps the top-K tables that match the question', async () => {
+    const result = await retrieveSchema('Which artists have the most albums?', SCHEMA, { topK: 2, maxColumnsPerTable: 20 });
+
+    expect(kept(result)).toEqual({ artists: 'match', albums: 'match' });
+    expect(Object.keys(result.schema.tables)).toEqual(['artists', 'albums']);
+    expect(result.schema.foreign_keys).toEqual([fk('albums', 'ArtistId', 'artists')]);
+    expect(result.totalTables).toBe(7);
+  });
+
+  it('ranks a table named by the question above tables that only share a column', async () => {
+    const result = await retrieveSchema('How many customers are there?', SCHEMA, { topK: 2, maxColumnsPerTable: 20 });
+    expect(kept(result)).toEqual({ customers: 'match', invoices: 'match' });
+    expect(result.tables[0].score).toBeGreaterThan(result.tables[1].score);
+  });
+
+  it('adds the join tables on the FK path between two matches', async () => {
+    const result = await retrieveSchema('Which genres appear on invoices?', SCHEMA, { topK: 2, maxColumnsPerTable: 20 });
+    expect(kept(result)).toEqual({ genres: 'match', invoices: 'match', line_items: 'fk_path', tracks: 'fk_path' });
+  });
+
+  it('fills the remaining slots with FK neighbours of the selection', async () => {
+    const result = await retrieveSchema('List the billing cities', SCHEMA, { topK: 3, maxColumnsPerTable: 20 });
+    expect(kept(result)).toEqual({ invoices: 'match', customers: 'fk_neighbor', line_items: 'fk_neighbor' });
+  });
+
+  it('starts from the best-connected table when nothing matches', async () => {
+    const result = await retrieveSchema('Summarize the data', SCHEMA, { topK: 1, maxColumnsPerTable: 20 });
+    expect(kept(result)).toEqual({ tracks: 'fk_neighbor' });
+  });
+
+  it('fills up by rank when the source has no foreign keys', async () => {
+    const schema = { ...SCHEMA, foreign_keys: [] };
+    const result = await retrieveSchema('Composers per genre', schema, { topK: 3, maxColumnsPerTable: 20 });
+    expect(result.tables.map((entry) => entry.reason)).toEqual(['match', 'match', 'fill']);
+    expect(result.tables.slice(0, 2).map((entry) => entry.table).sort()).toEqual(['genres', 'tracks']);
+  });
+
+  it('prunes wide tables to their keys and the best-matching columns', async () => {
+    const result = await retrieveSchema('Tracks by composer', SCHEMA, { topK: 1, maxColumnsPerTable: 4 });
+    expect(result.schema.tables.tracks.columns.map((col) => col.name)).toEqual(['TrackId', 'AlbumId', 'GenreId', 'Composer']);
+
+    const narrow = await retrieveSchema('Customers by country', SCHEMA, { topK: 1, maxColumnsPerTable: 2 });
+    expect(narrow.schema.tables.customers.columns.map((col) => col.name)).toEqual(['CustomerId', 'Country']);
+  });
+
+  it('blends in embedding similarity when an embedder is set', async () => {
+    const question = 'Who wrote the songs?';
+    const embedder: Embedder = {
+      model: 'retrieval-blend-test',
+      embed: async (texts) => texts.map((text) => (text === question || text.startsWith('table track:') ? [1, 0] : [0, 1])),
+    };
+
+    const lexical = await retrieveSchema(question, SCHEMA, { topK: 1, maxColumnsPerTable: 20 });
+    expect(lexical.tables[0].reason).not.toBe('match');
+
+    const blended = await retrieveSchema(question, SCHEMA, { topK: 1, maxColumnsPerTable: 20, embedder });
+    expect(kept(blended)).toEqual({ tracks: 'match' });
+  });
+
+  it('falls back to lexical ranking when embedding fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const embedder: Embedder = { model: 'retrieval-failing', embed: async () => Promise.reject(new Error('offline')) };
+
+    const result = await retrieveSchema('Which artists have the most albums?', SCHEMA, {
+      topK: 2,
+      maxColumnsPerTable: 20,
+      embedder,
+    });
+    expect(kept(result)).toEqual({ artists: 'match', albums: 'match' });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('offline'));
+    warn.mockRestore();
+  });
+});
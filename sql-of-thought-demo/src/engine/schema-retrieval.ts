@@ -0,0 +1,321 @@
+/**
+ * Schema Retrieval
+ * Ranks tables and columns against the question before schema linking, so only
+ * a relevant subgraph of a large schema reaches the LLM. Tables are scored
+ * lexically (TF-IDF over table names, column names and profiled values),
+ * optionally blended with embedding similarity, and the selection is expanded
+ * along foreign keys so join tables are kept.
+ */
+
+import { DatabaseSchema, TableInfo } from '../tools/schema-tool.js';
+import { Embedder, cosineSimilarity } from '../llm/embeddings.js';
+
+export interface TableScore {
+  table: string;
+  score: number;
+  /**
+   * Why the table was kept: it matched the question, bridges two matches,
+   * neighbours the selection, fills the remaining top-K slots, or was used
+   * by the conversation turn a follow-up builds on
+   */
+  reason: 'match' | 'fk_path' | 'fk_neighbor' | 'fill' | 'context';
+}
+
+export interface SchemaRetrievalOptions {
+  /** Number of tables to keep (join tables on FK paths may add a few more) */
+  topK: number;
+  /** Columns beyond this are pruned in wide tables, keeping keys and the best matches */
+  maxColumnsPerTable: number;
+  embedder?: Embedder;
+  /** Tables kept regardless of score, e.g. the previous turn's tables for a follow-up */
+  includeTables?: string[];
+}
+
+export interface SchemaRetrievalResult {
+  schema: DatabaseSchema;
+  /** Kept tables in selection order */
+  tables: TableScore[];
+  totalTables: number;
+}
+
+/** Longest FK path (in joins) searched when bridging two matched tables */
+const MAX_BRIDGE_LENGTH = 3;
+
+/** Share of the final score that comes from embedding similarity when an embedder is set */
+const SEMANTIC_WEIGHT = 0.5;
+
+const TABLE_NAME_WEIGHT = 3;
+const COLUMN_NAME_WEIGHT = 1;
+const VALUE_WEIGHT = 0.5;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'give', 'has', 'have',
+  'how', 'i', 'in', 'is', 'it', 'list', 'me', 'many', 'much', 'of', 'on', 'or', 'show', 'the', 'their',
+  'them', 'there', 'to', 'was', 'were', 'what', 'when', 'where', 'which', 'who', 'with', 'all', 'each',
+  'per', 'find', 'get', 'that', 'this', 'these', 'those', 'than', 'id',
+]);
+
+/**
+ * Crude plural stemming so "customers" matches "customer" and "categories" matches "category"
+ */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && /(ses|xes|ches|shes)$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Split text and identifiers (camelCase, snake_case) into stemmed terms
+ */
+export function extractTerms(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Weighted terms describing a table: its name, its columns and its common values
+ */
+function tableTerms(tableName: string, tableInfo: TableInfo): Map<string, number> {
+  const terms = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    for (const term of extractTerms(text)) {
+      terms.set(term, Math.max(terms.get(term) || 0, weight));
+    }
+  };
+
+  add(tableName, TABLE_NAME_WEIGHT);
+  for (const col of tableInfo.columns) {
+    add(col.name, COLUMN_NAME_WEIGHT);
+    for (const top of tableInfo.profile?.columns[col.name]?.top_values || []) {
+      add(top.value, VALUE_WEIGHT);
+    }
+  }
+  return terms;
+}
+
+function tableDescription(tableName: string, tableInfo: TableInfo): string {
+  const words = (name: string) => extractTerms(name).join(' ');
+  return `table ${words(tableName)}: ${tableInfo.columns.map((col) => words(col.name)).join(', ')}`;
+}
+
+/** Table embeddings by model and description, so a large schema is embedded once per process */
+const embeddingCache = new Map<string, number[]>();
+
+async function semanticScores(
+  embedder: Embedder,
+  question: string,
+  descriptions: Map<string, string>
+): Promise<Map<string, number>> {
+  const missing = [...descriptions.values()].filter((text) => !embeddingCache.has(`${embedder.model}:${text}`));
+  const [questionEmbedding, ...tableEmbeddings] = await embedder.embed([question, ...missing]);
+  missing.forEach((text, i) => embeddingCache.set(`${embedder.model}:${text}`, tableEmbeddings[i]));
+
+  const scores = new Map<string, number>();
+  for (const [table, text] of descriptions) {
+    scores.set(table, Math.max(0, cosineSimilarity(questionEmbedding, embeddingCache.get(`${embedder.model}:${text}`)!)));
+  }
+  return scores;
+}
+
+/**
+ * Score every table against the question. Lexical scores are TF-IDF sums;
+ * with an embedder, normalized lexical and cosine scores are blended.
+ */
+async function scoreTables(
+  question: string,
+  schema: DatabaseSchema,
+  embedder?: Embedder
+): Promise<Map<string, number>> {
+  const questionTerms = new Set(extractTerms(question));
+  const tables = Object.entries(schema.tables);
+  const docs = new Map(tables.map(([name, info]) => [name, tableTerms(name, info)]));
+
+  const documentFrequency = new Map<string, number>();
+  for (const terms of docs.values()) {
+    for (const term of terms.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const lexical = new Map<string, number>();
+  for (const [table, terms] of docs) {
+    let score = 0;
+    for (const term of questionTerms) {
+      const weight = terms.get(term);
+      if (weight) score += weight * Math.log(1 + tables.length / documentFrequency.get(term)!);
+    }
+    lexical.set(table, score);
+  }
+
+  if (!embedder) return lexical;
+
+  let semantic: Map<string, number>;
+  try {
+    semantic = await semanticScores(
+      embedder,
+      question,
+      new Map(tables.map(([name, info]) => [name, tableDescription(name, info)]))
+    );
+  } catch (error: any) {
+    console.warn(`  ⚠️  Embedding request failed, ranking tables lexically: ${error.message}`);
+    return lexical;
+  }
+
+  const maxLexical = Math.max(...lexical.values(), 0);
+  const combined = new Map<string, number>();
+  for (const [table, score] of lexical) {
+    const normalized = maxLexical > 0 ? score / maxLexical : 0;
+    combined.set(table, (1 - SEMANTIC_WEIGHT) * normalized + SEMANTIC_WEIGHT * (semantic.get(table) || 0));
+  }
+  return combined;
+}
+
+/**
+ * Undirected table adjacency along foreign keys
+ */
+function foreignKeyGraph(schema: DatabaseSchema): Map<string, Set<string>> {
+  const graph = new Map<string, Set<string>>(Object.keys(schema.tables).map((table) => [table, new Set<string>()]));
+  for (const fk of schema.foreign_keys) {
+    if (fk.from_table === fk.to_table) continue;
+    graph.get(fk.from_table)?.add(fk.to_table);
+    graph.get(fk.to_table)?.add(fk.from_table);
+  }
+  return graph;
+}
+
+/**
+ * Shortest FK path between two tables, as the list of tables strictly between them
+ */
+function bridgeTables(graph: Map<string, Set<string>>, from: string, to: string): string[] | null {
+  const previous = new Map<string, string>([[from, '']]);
+  let frontier = [from];
+
+  for (let depth = 0; depth < MAX_BRIDGE_LENGTH && frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const table of frontier) {
+      for (const neighbor of graph.get(table) || []) {
+        if (previous.has(neighbor)) continue;
+        previous.set(neighbor, table);
+        if (neighbor === to) {
+          const path: string[] = [];
+          for (let step = previous.get(to)!; step !== from; step = previous.get(step)!) path.unshift(step);
+          return path;
+        }
+        next.push(neighbor);
+      }
+    }
+    frontier = next;
+  }
+
+  return null;
+}
+
+/**
+ * Keep keys and the best-matching columns of a wide table
+ */
+function pruneColumns(
+  tableName: string,
+  tableInfo: TableInfo,
+  schema: DatabaseSchema,
+  questionTerms: Set<string>,
+  maxColumns: number
+): TableInfo {
+  if (tableInfo.columns.length <= maxColumns) return tableInfo;
+
+  const keyColumns = new Set([
+    ...tableInfo.primary_key,
+    ...schema.foreign_keys.filter((fk) => fk.from_table === tableName).flatMap((fk) => fk.from_columns),
+    ...schema.foreign_keys.filter((fk) => fk.to_table === tableName).flatMap((fk) => fk.to_columns),
+  ]);
+  const columnScore = (name: string) => extractTerms(name).filter((term) => questionTerms.has(term)).length;
+
+  const ranked = tableInfo.columns
+    .map((col, position) => ({ col, position, key: keyColumns.has(col.name), score: columnScore(col.name) }))
+    .sort((a, b) => Number(b.key) - Number(a.key) || b.score - a.score || a.position - b.position)
+    .slice(0, Math.max(maxColumns, keyColumns.size))
+    .sort((a, b) => a.position - b.position);
+
+  return { ...tableInfo, columns: ranked.map((entry) => entry.col) };
+}
+
+/**
+ * Select the top-K tables for a question, plus the join tables that connect
+ * them, and return the pruned schema with the scores behind the choice
+ */
+export async function retrieveSchema(
+  question: string,
+  schema: DatabaseSchema,
+  options: SchemaRetrievalOptions
+): Promise<SchemaRetrievalResult> {
+  const allTables = Object.keys(schema.tables);
+  const scores = await scoreTables(question, schema, options.embedder);
+  const graph = foreignKeyGraph(schema);
+
+  const ranked = [...allTables].sort((a, b) => scores.get(b)! - scores.get(a)!);
+  const selected = new Map<string, TableScore>();
+  const keep = (table: string, reason: TableScore['reason']) => {
+    if (!selected.has(table)) selected.set(table, { table, score: scores.get(table)!, reason });
+  };
+
+  for (const table of options.includeTables || []) {
+    if (schema.tables[table]) keep(table, 'context');
+  }
+
+  // 1. Tables that match the question
+  const matches = ranked.filter((table) => scores.get(table)! > 0).slice(0, options.topK);
+  matches.forEach((table) => keep(table, 'match'));
+
+  // Nothing matched: start from the best-connected table so the neighbour fill has an anchor
+  if (matches.length === 0 && ranked.length > 0) {
+    const hub = [...allTables].sort((a, b) => graph.get(b)!.size - graph.get(a)!.size)[0];
+    keep(hub, 'fk_neighbor');
+  }
+
+  // 2. Join tables on the shortest FK path between any two matches
+  for (const [i, from] of matches.entries()) {
+    for (const to of matches.slice(i + 1)) {
+      for (const table of bridgeTables(graph, from, to) || []) keep(table, 'fk_path');
+    }
+  }
+
+  // 3. Fill remaining slots with FK neighbours of the selection, best scores first
+  while (selected.size < options.topK) {
+    const neighbors = new Set<string>();
+    for (const table of selected.keys()) {
+      for (const neighbor of graph.get(table) || []) {
+        if (!selected.has(neighbor)) neighbors.add(neighbor);
+      }
+    }
+    if (neighbors.size === 0) break;
+
+    const next = [...neighbors].sort((a, b) => scores.get(b)! - scores.get(a)!);
+    for (const table of next.slice(0, options.topK - selected.size)) keep(table, 'fk_neighbor');
+  }
+
+  // 4. Sources without foreign keys: fill up by rank
+  for (const table of ranked) {
+    if (selected.size >= options.topK) break;
+    keep(table, 'fill');
+  }
+
+  const questionTerms = new Set(extractTerms(question));
+  const tables: DatabaseSchema['tables'] = {};
+  for (const table of allTables.filter((name) => selected.has(name))) {
+    tables[table] = pruneColumns(table, schema.tables[table], schema, questionTerms, options.maxColumnsPerTable);
+  }
+
+  return {
+    schema: {
+      tables,
+      foreign_keys: schema.foreign_keys.filter((fk) => tables[fk.from_table] && tables[fk.to_table]),
+    },
+    tables: [...selected.values()],
+    totalTables: allTables.length,
+  };
+}
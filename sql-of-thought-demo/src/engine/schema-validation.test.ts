@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import type { DatabaseSchema, TableInfo } from '../tools/schema-tool.js';
+import type { ForeignKey } from '../tools/schema-constraints.js';
+import { validateLinkedSchema } from './schema-validation.js';
+
+const table = (...columns: string[]): TableInfo => ({
+  columns: columns.map((name) => ({ name, type: 'INTEGER', nullable: true, primary_key: false, unique: false })),
+  primary_key: [],
+  unique_keys: [],
+  indexes: [],
+});
+
+const catalog = (foreignKeys: ForeignKey[] = []): DatabaseSchema => ({
+  tables: {
+    customers: table('CustomerId', 'FirstName', 'Country'),
+    invoices: table('InvoiceId', 'CustomerId', 'Total'),
+    invoice_items: table('InvoiceLineId', 'InvoiceId', 'TrackId'),
+  },
+  foreign_keys: foreignKeys,
+});
+
+const INVOICE_CUSTOMER: ForeignKey = {
+  from_table: 'invoices',
+  from_columns: ['CustomerId'],
+  to_table: 'customers',
+  to_columns: ['CustomerId'],
+};
+
+describe('validateLinkedSchema', () => {
+  it('renames misspelled tables and columns and removes invented ones', () => {
+    const { linkedSchema, adjustments } = validateLinkedSchema(
+      {
+        tables: ['Customer', 'payments'],
+        columns: { Customer: ['FirstName', 'Contry', 'Email'] },
+        foreign_keys: [],
+        reasoning: '',
+      },
+      catalog()
+    );
+
+    expect(linkedSchema.tables).toEqual(['customers']);
+    expect(linkedSchema.columns).toEqual({ customers: ['FirstName', 'Country'] });
+    expect(adjustments.map((adjustment) => adjustment.action)).toEqual([
+      'table_renamed',
+      'table_removed',
+      'column_renamed',
+      'column_removed',
+    ]);
+  });
+
+  it('keeps joins between existing columns when the catalog declares no foreign keys', () => {
+    const { linkedSchema, adjustments } = validateLinkedSchema(
+      {
+        tables: ['customers', 'invoices'],
+        columns: { customers: ['Country'], invoices: ['Total'] },
+        foreign_keys: [{ from: 'invoices.CustomerId', to: 'customers.CustomerId' }],
+        reasoning: '',
+      },
+      catalog()
+    );
+
+    expect(linkedSchema.foreign_keys).toEqual([{ from: 'invoices.CustomerId', to: 'customers.CustomerId' }]);
+    expect(linkedSchema.columns).toEqual({ customers: ['Country', 'CustomerId'], invoices: ['Total', 'CustomerId'] });
+    expect(adjustments.every((adjustment) => adjustment.action === 'column_added')).toBe(true);
+  });
+
+  it('removes joins on tables or columns that do not exist', () => {
+    const { linkedSchema, adjustments } = validateLinkedSchema(
+      {
+        tables: ['customers', 'invoices'],
+        columns: { customers: ['Country'], invoices: ['Total'] },
+        foreign_keys: [
+          { from: 'invoices.ClientRef', to: 'customers.CustomerId' },
+          { from: 'payments.CustomerId', to: 'customers.CustomerId' },
+        ],
+        reasoning: '',
+      },
+      catalog()
+    );
+
+    expect(linkedSchema.foreign_keys).toEqual([]);
+    expect(adjustments.map((adjustment) => adjustment.message)).toEqual([
+      'Removed join invoices.ClientRef -> customers.CustomerId: invoices.ClientRef is not a column in the database',
+      'Removed join payments.CustomerId -> customers.CustomerId: payments.CustomerId is not a column in the database',
+    ]);
+  });
+
+  it('adds a declared foreign key the agent missed, once, in its declared direction', () => {
+    const { linkedSchema, adjustments } = validateLinkedSchema(
+      {
+        tables: ['customers', 'invoices'],
+        columns: { customers: ['Country'], invoices: ['Total'] },
+        foreign_keys: [{ from: 'customers.CustomerId', to: 'invoices.CustomerId' }],
+        reasoning: '',
+      },
+      catalog([INVOICE_CUSTOMER])
+    );
+
+    expect(linkedSchema.foreign_keys).toEqual([{ from: 'invoices.CustomerId', to: 'customers.CustomerId' }]);
+    expect(adjustments.some((adjustment) => adjustment.action === 'foreign_key_added')).toBe(false);
+
+    const missed = validateLinkedSchema(
+      { tables: ['customers', 'invoices'], columns: {}, foreign_keys: [], reasoning: '' },
+      catalog([INVOICE_CUSTOMER])
+    );
+    expect(missed.linkedSchema.foreign_keys).toEqual([{ from: 'invoices.CustomerId', to: 'customers.CustomerId' }]);
+    expect(missed.adjustments[0]).toMatchObject({ action: 'foreign_key_added', table: 'invoices' });
+  });
+
+  it('adds a table that only a kept join refers to', () => {
+    const { linkedSchema } = validateLinkedSchema(
+      {
+        tables: ['invoices'],
+        columns: { invoices: ['Total'] },
+        foreign_keys: [{ from: 'invoice_items.InvoiceId', to: 'invoices.InvoiceId' }],
+        reasoning: '',
+      },
+      catalog()
+    );
+
+    expect(linkedSchema.tables).toEqual(['invoices', 'invoice_items']);
+    expect(linkedSchema.columns.invoice_items).toEqual(['InvoiceId']);
+  });
+});
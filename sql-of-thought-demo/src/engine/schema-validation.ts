@@ -0,0 +1,259 @@
+/**
+ * Linked Schema Validation
+ * Checks the schema linking agent's output against the real catalog before
+ * planning: misspelled tables and columns are matched to real ones, invented
+ * ones and joins on them are dropped, and foreign-key columns needed for joins
+ * are added.
+ * Every change is recorded so the CLI and web UI can show it.
+ */
+
+import type { DatabaseSchema, TableInfo } from '../tools/schema-tool.js';
+import type { LinkedSchema } from './agent-outputs.js';
+import { extractTerms } from './schema-retrieval.js';
+
+export interface LinkAdjustment {
+  action:
+    | 'table_renamed'
+    | 'table_removed'
+    | 'column_renamed'
+    | 'column_removed'
+    | 'column_added'
+    | 'foreign_key_added'
+    | 'foreign_key_removed';
+  table: string;
+  column?: string;
+  /** Identifier as the agent wrote it, for renames */
+  from?: string;
+  message: string;
+}
+
+export interface LinkValidationResult {
+  linkedSchema: LinkedSchema;
+  adjustments: LinkAdjustment[];
+}
+
+/** Minimum similarity for a misspelled identifier to be matched to a real one */
+const TABLE_MATCH_THRESHOLD = 0.5;
+const COLUMN_MATCH_THRESHOLD = 0.6;
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 0..1 similarity of two identifiers, by shared terms ("InvoiceLine" ~ "invoice_lines")
+ * or by spelling ("Invoce" ~ "invoices")
+ */
+function nameSimilarity(a: string, b: string): number {
+  const termsA = new Set(extractTerms(a));
+  const termsB = new Set(extractTerms(b));
+  const shared = [...termsA].filter((term) => termsB.has(term)).length;
+  const union = new Set([...termsA, ...termsB]).size;
+  const termScore = union > 0 ? shared / union : 0;
+
+  const compactA = a.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const compactB = b.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const longest = Math.max(compactA.length, compactB.length);
+  const spellingScore = longest > 0 ? 1 - levenshtein(compactA, compactB) / longest : 0;
+
+  return Math.max(termScore, spellingScore);
+}
+
+function findColumn(tableInfo: TableInfo, name: string): string | undefined {
+  return (
+    tableInfo.columns.find((col) => col.name === name)?.name ??
+    tableInfo.columns.find((col) => col.name.toLowerCase() === name.toLowerCase())?.name
+  );
+}
+
+/**
+ * Real table for a linked table name. A misspelled name is matched by name
+ * similarity and, when the agent listed columns for it, by how many of those
+ * columns the candidate actually has.
+ */
+function resolveTable(
+  name: string,
+  linkedColumns: string[],
+  schema: DatabaseSchema
+): { table: string; score: number } | null {
+  if (schema.tables[name]) return { table: name, score: 1 };
+
+  const tables = Object.keys(schema.tables);
+  const caseInsensitive = tables.find((table) => table.toLowerCase() === name.toLowerCase());
+  if (caseInsensitive) return { table: caseInsensitive, score: 1 };
+
+  let best: { table: string; score: number } | null = null;
+  for (const table of tables) {
+    const nameScore = nameSimilarity(name, table);
+    const columnScore =
+      linkedColumns.length > 0
+        ? linkedColumns.filter((col) => findColumn(schema.tables[table], col)).length / linkedColumns.length
+        : nameScore;
+    const score = (nameScore + columnScore) / 2;
+    if (score >= TABLE_MATCH_THRESHOLD && (!best || score > best.score)) best = { table, score };
+  }
+  return best;
+}
+
+function resolveColumn(tableInfo: TableInfo, name: string): string | null {
+  const exact = findColumn(tableInfo, name);
+  if (exact) return exact;
+
+  let best: { column: string; score: number } | null = null;
+  for (const col of tableInfo.columns) {
+    const score = nameSimilarity(name, col.name);
+    if (score >= COLUMN_MATCH_THRESHOLD && (!best || score > best.score)) best = { column: col.name, score };
+  }
+  return best?.column ?? null;
+}
+
+/**
+ * Check a linked schema against the catalog and return a corrected copy
+ */
+export function validateLinkedSchema(linked: LinkedSchema, schema: DatabaseSchema): LinkValidationResult {
+  const adjustments: LinkAdjustment[] = [];
+  const tableNames = new Map<string, string>();
+  const columns: Record<string, string[]> = {};
+
+  // Tables: the agent may list a table only under "columns"
+  for (const name of new Set([...linked.tables, ...Object.keys(linked.columns)])) {
+    const resolved = resolveTable(name, linked.columns[name] || [], schema);
+    if (!resolved) {
+      adjustments.push({ action: 'table_removed', table: name, message: `Removed table ${name}: no such table` });
+      continue;
+    }
+
+    tableNames.set(name, resolved.table);
+    columns[resolved.table] ??= [];
+    if (resolved.table !== name) {
+      adjustments.push({
+        action: 'table_renamed',
+        table: resolved.table,
+        from: name,
+        message: `Renamed table ${name} -> ${resolved.table}`,
+      });
+    }
+  }
+
+  // Columns of the tables that survived
+  for (const [name, linkedColumns] of Object.entries(linked.columns)) {
+    const table = tableNames.get(name);
+    if (!table) continue;
+
+    for (const column of linkedColumns) {
+      const resolved = resolveColumn(schema.tables[table], column);
+      if (!resolved) {
+        adjustments.push({
+          action: 'column_removed',
+          table,
+          column,
+          message: `Removed column ${table}.${column}: no such column`,
+        });
+        continue;
+      }
+      if (resolved !== column) {
+        adjustments.push({
+          action: 'column_renamed',
+          table,
+          column: resolved,
+          from: column,
+          message: `Renamed column ${table}.${column} -> ${table}.${resolved}`,
+        });
+      }
+      if (!columns[table].includes(resolved)) columns[table].push(resolved);
+    }
+  }
+
+  const linkedTables = new Set(Object.keys(columns));
+  const realForeignKeys = schema.foreign_keys.filter(
+    (fk) => fk.from_table !== fk.to_table && linkedTables.has(fk.from_table) && linkedTables.has(fk.to_table)
+  );
+
+  const addColumn = (table: string, column: string) => {
+    columns[table] ??= [];
+    if (columns[table].includes(column)) return;
+    columns[table].push(column);
+    adjustments.push({
+      action: 'column_added',
+      table,
+      column,
+      message: `Added join column ${table}.${column}`,
+    });
+  };
+
+  // Joins: keep the ones on real columns, then add the foreign keys the agent missed.
+  // Sources without declared constraints (files, many DuckDB databases) rely on
+  // the agent's joins entirely.
+  const foreignKeys: LinkedSchema['foreign_keys'] = [];
+  const pairKey = (from: string, to: string) => [from, to].sort().join(' = ');
+  const keptPairs = new Set<string>();
+
+  const realPairs = new Map<string, { from: string; to: string }>();
+  for (const fk of realForeignKeys) {
+    fk.from_columns.forEach((fromColumn, i) => {
+      const from = `${fk.from_table}.${fromColumn}`;
+      const to = `${fk.to_table}.${fk.to_columns[i]}`;
+      realPairs.set(pairKey(from, to), { from, to });
+    });
+  }
+
+  const resolveReference = (reference: string): string | null => {
+    const dot = reference.lastIndexOf('.');
+    if (dot < 0) return null;
+    const table = tableNames.get(reference.slice(0, dot)) ?? resolveTable(reference.slice(0, dot), [], schema)?.table;
+    const column = table && resolveColumn(schema.tables[table], reference.slice(dot + 1));
+    return table && column ? `${table}.${column}` : null;
+  };
+
+  for (const fk of linked.foreign_keys) {
+    const from = resolveReference(fk.from);
+    const to = resolveReference(fk.to);
+    if (!from || !to) {
+      adjustments.push({
+        action: 'foreign_key_removed',
+        table: fk.from.split('.')[0],
+        message: `Removed join ${fk.from} -> ${fk.to}: ${from ? fk.to : fk.from} is not a column in the database`,
+      });
+      continue;
+    }
+    const key = pairKey(from, to);
+    if (from === to || keptPairs.has(key)) continue;
+    keptPairs.add(key);
+    foreignKeys.push(realPairs.get(key) ?? { from, to });
+  }
+
+  for (const [key, real] of realPairs) {
+    if (keptPairs.has(key)) continue;
+    foreignKeys.push(real);
+    adjustments.push({
+      action: 'foreign_key_added',
+      table: real.from.split('.')[0],
+      message: `Added join ${real.from} -> ${real.to}`,
+    });
+  }
+
+  for (const { from, to } of foreignKeys) {
+    for (const reference of [from, to]) {
+      const dot = reference.lastIndexOf('.');
+      addColumn(reference.slice(0, dot), reference.slice(dot + 1));
+    }
+  }
+
+  return {
+    linkedSchema: {
+      tables: Object.keys(columns),
+      columns,
+      foreign_keys: foreignKeys,
+      reasoning: linked.reasoning,
+    },
+    adjustments,
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { SQLExecutorOutput } from '../tools/sql-executor-tool.js';
+import { SQLCandidate, voteOnCandidates } from './self-consistency.js';
+
+const ok = (rows: Record<string, unknown>[]): SQLExecutorOutput => ({ success: true, result: rows, row_count: rows.length });
+const failed = (error: string): SQLExecutorOutput => ({ success: false, error });
+
+/** Candidates for a list of executions, in generation order */
+const candidatesFor = (results: SQLExecutorOutput[], sql = (i: number) => `SELECT ${i}`): SQLCandidate[] =>
+  results.map((result, index) => ({
+    index,
+    sql: sql(index),
+    success: result.success,
+    error: result.error,
+    row_count: result.row_count,
+  }));
+
+describe('voteOnCandidates', () => {
+  it('groups candidates whose results are equal regardless of row order and column names', () => {
+    const results = [
+      ok([{ genre: 'Rock', n: 2 }, { genre: 'Jazz', n: 1 }]),
+      ok([{ name: 'Jazz', count: BigInt(1) }, { name: 'Rock', count: BigInt(2) }]),
+      ok([{ genre: 'Rock', n: 3 }]),
+    ];
+
+    const vote = voteOnCandidates(candidatesFor(results), results);
+    expect(vote.clusters).toEqual([
+      { id: 1, candidates: [0, 1], votes: 2, row_count: 2 },
+      { id: 2, candidates: [2], votes: 1, row_count: 1 },
+    ]);
+    expect(vote.candidates.map((candidate) => candidate.cluster)).toEqual([1, 1, 2]);
+    expect(vote.winner).toBe(0);
+    expect(vote.confidence).toBeCloseTo(2 / 3);
+  });
+
+  it('picks the largest cluster even when it starts later', () => {
+    const results = [ok([{ n: 1 }]), ok([{ n: 2 }]), ok([{ n: 2 }])];
+    const vote = voteOnCandidates(candidatesFor(results), results);
+    expect(vote.winner).toBe(1);
+    expect(vote.clusters.map((cluster) => cluster.votes)).toEqual([2, 1]);
+  });
+
+  it('breaks ties by the cluster generated first', () => {
+    const results = [ok([{ n: 1 }]), ok([{ n: 2 }]), ok([{ n: 2 }]), ok([{ n: 1 }])];
+    const vote = voteOnCandidates(candidatesFor(results), results);
+    expect(vote.winner).toBe(0);
+    expect(vote.clusters.map((cluster) => cluster.candidates)).toEqual([
+      [0, 3],
+      [1, 2],
+    ]);
+    expect(vote.confidence).toBe(0.5);
+  });
+
+  it('leaves failed candidates out of the clusters but counts them for confidence', () => {
+    const results = [failed('Binder Error'), ok([{ n: 1 }]), failed('Parser Error')];
+    const vote = voteOnCandidates(candidatesFor(results), results);
+    expect(vote.winner).toBe(1);
+    expect(vote.clusters).toHaveLength(1);
+    expect(vote.candidates[0].cluster).toBeUndefined();
+    expect(vote.confidence).toBeCloseTo(1 / 3);
+  });
+
+  it('hands the first generated query to the correction loop when every candidate failed', () => {
+    const results = [failed('Generation failed: timeout'), failed('Binder Error'), failed('Parser Error')];
+    const vote = voteOnCandidates(candidatesFor(results, (i) => (i === 0 ? '' : `SELECT ${i}`)), results);
+    expect(vote).toMatchObject({ clusters: [], winner: 1, confidence: 0 });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Self-Consistency Voting
+ * Generates several candidate SQL queries, executes each one, groups them by
+ * result-set equivalence and picks the largest group. The share of candidates
+ * that agree with the winner is a cheap confidence signal.
+ */
+
+import { executeSQL, ExecuteOptions, SQLExecutorOutput } from '../tools/sql-executor-tool.js';
+import { DataSource } from '../tools/database-registry.js';
+import { AgentContext, queryPlanAgent, sqlGenerationAgent } from './agents.js';
+import { resultSetSignature } from './evaluation.js';
+import { LinkedSchema, QueryPlan, Subproblems } from './agent-outputs.js';
+
+/**
+ * sample: draw N queries from the SQL agent for the same plan.
+ * plans: draw N query plans and one query per plan, for more diverse candidates.
+ */
+export type CandidateStrategy = 'sample' | 'plans';
+
+export interface CandidateOptions {
+  /** Candidates to generate; 1 disables voting */
+  count: number;
+  /** Candidates generated and executed at the same time */
+  parallelism: number;
+  strategy: CandidateStrategy;
+  /** Guard, timeout, row cap and cancellation for running each candidate */
+  executeOptions: ExecuteOptions;
+}
+
+export interface SQLCandidate {
+  index: number;
+  sql: string;
+  success: boolean;
+  error?: string;
+  row_count?: number;
+  /** Id of the cluster the candidate voted for; unset when it failed */
+  cluster?: number;
+}
+
+export interface VoteCluster {
+  id: number;
+  /** Indexes of the candidates returning this result set */
+  candidates: number[];
+  votes: number;
+  row_count: number;
+}
+
+export interface CandidateVote {
+  candidates: SQLCandidate[];
+  /** Largest cluster first */
+  clusters: VoteCluster[];
+  /** Index of the chosen candidate */
+  winner: number;
+  /** Winning votes over all candidates, failed ones included */
+  confidence: number;
+}
+
+export interface CandidateSelection {
+  vote: CandidateVote;
+  sql: string;
+  queryPlan: QueryPlan;
+  /** Execution of the chosen candidate, so the pipeline doesn't run it twice */
+  result: SQLExecutorOutput;
+}
+
+interface GeneratedCandidate {
+  plan: QueryPlan;
+  sql: string;
+  result: SQLExecutorOutput;
+  /** Set when the LLM call itself failed, so there is no SQL to run */
+  generationError?: Error;
+}
+
+export function isCandidateStrategy(value: unknown): value is CandidateStrategy {
+  return value === 'sample' || value === 'plans';
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, keeping input order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Group successful candidates by result set. Ties go to the cluster whose first
+ * candidate was generated first.
+ */
+export function voteOnCandidates(candidates: SQLCandidate[], results: SQLExecutorOutput[]): CandidateVote {
+  const bySignature = new Map<string, VoteCluster>();
+
+  for (const candidate of candidates) {
+    if (!candidate.success) continue;
+
+    const signature = resultSetSignature(results[candidate.index].result || []);
+    let cluster = bySignature.get(signature);
+    if (!cluster) {
+      cluster = { id: bySignature.size + 1, candidates: [], votes: 0, row_count: candidate.row_count || 0 };
+      bySignature.set(signature, cluster);
+    }
+    cluster.candidates.push(candidate.index);
+    cluster.votes++;
+    candidate.cluster = cluster.id;
+  }
+
+  const clusters = [...bySignature.values()].sort((a, b) => b.votes - a.votes || a.candidates[0] - b.candidates[0]);
+  const top = clusters[0];
+
+  return {
+    candidates,
+    clusters,
+    // Nothing ran: hand the first generated query to the correction loop
+    winner: top ? top.candidates[0] : candidates.find((candidate) => candidate.sql)?.index ?? 0,
+    confidence: top ? top.votes / candidates.length : 0,
+  };
+}
+
+/**
+ * Generate, execute and vote on candidate queries for a planned question
+ */
+export async function selectCandidateSQL(
+  ctx: AgentContext,
+  question: string,
+  linkedSchema: LinkedSchema,
+  subproblems: Subproblems,
+  queryPlan: QueryPlan,
+  source: DataSource,
+  options: CandidateOptions
+): Promise<CandidateSelection> {
+  const slots = Array.from({ length: options.count }, (_, i) => i);
+
+  const generated = await mapWithConcurrency(slots, options.parallelism, async (index): Promise<GeneratedCandidate> => {
+    try {
+      // The first candidate always follows the plan the pipeline already made
+      const plan =
+        options.strategy === 'plans' && index > 0 ? await queryPlanAgent(ctx, question, linkedSchema, subproblems) : queryPlan;
+      const sql = await sqlGenerationAgent(ctx, question, plan, linkedSchema);
+      const result = await executeSQL(sql, source, options.executeOptions);
+      return { plan, sql, result };
+    } catch (error: any) {
+      return {
+        plan: queryPlan,
+        sql: '',
+        result: { success: false, error: `Generation failed: ${error.message}` },
+        generationError: error,
+      };
+    }
+  });
+
+  if (generated.every((candidate) => candidate.generationError)) {
+    throw generated[0].generationError;
+  }
+
+  const candidates: SQLCandidate[] = generated.map(({ sql, result }, index) => ({
+    index,
+    sql,
+    success: result.success,
+    error: result.error,
+    row_count: result.row_count,
+  }));
+
+  const outcome = voteOnCandidates(candidates, generated.map((candidate) => candidate.result));
+  const winner = generated[outcome.winner];
+
+  return { vote: outcome, sql: winner.sql, queryPlan: winner.plan, result: winner.result };
+}
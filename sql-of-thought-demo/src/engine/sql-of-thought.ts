@@ -0,0 +1,518 @@
+/**
+ * SQL-of-Thought Engine
+ * The multi-agent pipeline as a single event-emitting function.
+ * The CLI and the web server are thin adapters around runSqlOfThought.
+ */
+
+import { getCompleteSchema } from '../tools/schema-tool.js';
+import { executeSQL, validateSQL, ExecuteOptions, SQLExecutorOutput } from '../tools/sql-executor-tool.js';
+import { SQLDiagnostic, formatDiagnostics } from '../sql/diagnostics.js';
+import { LLMProvider } from '../llm/provider.js';
+import { Embedder, createEmbedder, embedderConfigFromEnv } from '../llm/embeddings.js';
+import { getDataSource } from '../tools/database-registry.js';
+import {
+  AGENT_OUTPUT_RETRIES,
+  ALLOWED_STATEMENTS,
+  ANSWER_SUMMARY,
+  ANSWER_SUMMARY_ROWS,
+  CHART_RECOMMENDATION,
+  CONVERSATION_TURNS,
+  FEW_SHOT_EXAMPLES,
+  MAX_CORRECTION_ATTEMPTS,
+  PROMPT_SET,
+  RESULT_VERIFICATION,
+  RUN_BUDGET_USD,
+  RUN_HISTORY,
+  RUN_TOKEN_BUDGET,
+  SCHEMA_MAX_COLUMNS,
+  SCHEMA_PROFILING,
+  SCHEMA_TOKEN_BUDGET,
+  SCHEMA_TOP_K,
+  SQL_CANDIDATES,
+  SQL_CANDIDATE_PARALLELISM,
+  SQL_CANDIDATE_STRATEGY,
+  SQL_EXPLANATION,
+  SQL_VALIDATION,
+  TEMPERATURE,
+} from './config.js';
+import {
+  AgentContext,
+  followUpAgent,
+  schemaLinkingAgent,
+  subproblemAgent,
+  queryPlanAgent,
+  sqlGenerationAgent,
+  correctionPlanAgent,
+  correctionSQLAgent,
+  answerSummaryAgent,
+  sqlExplanationAgent,
+} from './agents.js';
+import {
+  AgentOutputError,
+  LinkedSchema,
+  Subproblems,
+  QueryPlan,
+  CorrectionPlan,
+  AnswerSummary,
+  SQLExplanation,
+} from './agent-outputs.js';
+import { validateLinkedSchema, LinkAdjustment } from './schema-validation.js';
+import { retrieveSchema, TableScore } from './schema-retrieval.js';
+import { retrieveExamples, RetrievedExample } from './examples.js';
+import { selectCandidateSQL, isCandidateStrategy, CandidateStrategy, CandidateVote } from './self-consistency.js';
+import { verifyResult, formatVerificationError, VerificationIssue } from './verification.js';
+import { recommendChart, ChartRecommendation } from './visualization.js';
+import { getPromptSet } from './prompt-templates.js';
+import { createUsageMeter, exceededBudget, tightenBudget, AgentCallUsage, RunBudget, RunUsage } from './usage.js';
+import { ConversationTurn } from './conversation.js';
+import { createTraceRecorder, RunTrace } from '../history/trace.js';
+import { saveRun } from '../history/store.js';
+
+/**
+ * Pipeline stages, named after the agent cards in the web UI
+ */
+export type PipelineStage = 'schema' | 'subproblem' | 'queryplan' | 'sql' | 'execute' | 'correction' | 'answer';
+
+export type PipelineEvent =
+  | { type: 'stage_start'; stage: PipelineStage }
+  | { type: 'question_rewritten'; question: string; standaloneQuestion: string; followUp: boolean; reasoning: string }
+  | { type: 'schema_loaded'; tableCount: number }
+  | { type: 'schema_retrieved'; tables: TableScore[]; totalTables: number }
+  | { type: 'schema_linked'; linkedSchema: LinkedSchema }
+  | { type: 'schema_validated'; linkedSchema: LinkedSchema; adjustments: LinkAdjustment[] }
+  | { type: 'subproblems_identified'; subproblems: Subproblems }
+  | { type: 'examples_retrieved'; examples: RetrievedExample[] }
+  | { type: 'query_planned'; queryPlan: QueryPlan }
+  | { type: 'candidates_voted'; vote: CandidateVote }
+  | { type: 'sql_generated'; sql: string }
+  | { type: 'execution_succeeded'; attempt: number; result: SQLExecutorOutput }
+  | { type: 'validation_failed'; attempt: number; diagnostics: SQLDiagnostic[]; error: string }
+  | { type: 'execution_failed'; attempt: number; error: string }
+  | { type: 'verification_failed'; attempt: number; issues: VerificationIssue[]; error: string }
+  | { type: 'chart_recommended'; chart: ChartRecommendation }
+  | { type: 'answer_summarized'; summary: AnswerSummary }
+  | { type: 'sql_explained'; explanation: SQLExplanation }
+  | { type: 'answer_agent_failed'; agent: 'answer_summary' | 'sql_explanation'; error: string }
+  | { type: 'correction_planned'; attempt: number; error: string; correctionPlan: CorrectionPlan }
+  | { type: 'sql_corrected'; attempt: number; sql: string }
+  | { type: 'agent_usage'; call: AgentCallUsage; usage: RunUsage }
+  | { type: 'budget_exceeded'; attempt: number; usage: RunUsage; error: string }
+  | { type: 'max_attempts_reached'; attempts: number; error: string };
+
+export interface PipelineOptions {
+  provider: LLMProvider;
+  /** Registered data source name; defaults to the registry default */
+  database?: string;
+  temperature?: number;
+  /** Prompt set the agents' templates come from; defaults to PROMPT_SET */
+  promptSet?: string;
+  /** Correction rounds allowed after the first failed execution */
+  maxCorrectionAttempts?: number;
+  /** Spend after which no further correction round starts; it can tighten RUN_BUDGET_USD and RUN_TOKEN_BUDGET but not lift them */
+  budget?: RunBudget;
+  /** Statement types the read-only guard lets through */
+  allowedStatements?: string[];
+  /** Include column value profiles and sample rows in the schema prompt */
+  profileSchema?: boolean;
+  /** Approximate token budget for the schema section of prompts */
+  schemaTokenBudget?: number;
+  /** Tables kept by schema retrieval before linking */
+  schemaTopK?: number;
+  /** Embedding backend for schema and example retrieval; defaults to SCHEMA_EMBEDDINGS_MODEL if set */
+  embedder?: Embedder;
+  /** Similar library examples shown to the planning and SQL agents (0 = zero-shot) */
+  fewShotExamples?: number;
+  /** Repair calls an agent gets when its output fails schema validation */
+  outputRetries?: number;
+  /** Candidate queries to generate and vote on by result set (1 disables voting) */
+  candidates?: number;
+  /** Candidates generated and executed concurrently */
+  candidateParallelism?: number;
+  candidateStrategy?: CandidateStrategy;
+  /** Bind each query with EXPLAIN and correct binder errors before running it */
+  validateSQL?: boolean;
+  /** Check executed results against the question and correct suspicious ones */
+  verifyResults?: boolean;
+  /** Recommend a chart for a successful result */
+  recommendChart?: boolean;
+  /** Ask an agent for a plain-English answer grounded in the result rows */
+  summarizeAnswer?: boolean;
+  /** Ask an agent to explain the final SQL clause by clause */
+  explainSQL?: boolean;
+  /** Per-query timeout in ms (0 disables it); defaults to SQL_TIMEOUT_MS */
+  queryTimeoutMs?: number;
+  /** Rows kept per result set before it is truncated; defaults to SQL_MAX_ROWS */
+  maxRows?: number;
+  /** Aborting it stops the run at the next stage and interrupts running queries */
+  signal?: AbortSignal;
+  /** Earlier turns of the conversation, oldest first; the question may follow up on them */
+  history?: ConversationTurn[];
+  /** Save the run's trace to the history store */
+  recordHistory?: boolean;
+  onEvent?: (event: PipelineEvent) => void;
+}
+
+export interface PipelineResult {
+  success: boolean;
+  question: string;
+  /** Follow-up question rewritten to stand on its own, when it differs from the question */
+  standaloneQuestion?: string;
+  database: string;
+  /** Prompt set the run's prompts were rendered from */
+  promptSet: string;
+  /** Final SQL: the corrected query if the correction loop ran */
+  sql: string;
+  /** Number of attempts (rejected by validation or executed), including the first one */
+  attempts: number;
+  result?: SQLExecutorOutput;
+  error?: string;
+  linkedSchema: LinkedSchema;
+  subproblems: Subproblems;
+  queryPlan: QueryPlan;
+  /** Vote distribution over candidate queries, when more than one was generated */
+  vote?: CandidateVote;
+  /** Verification checks the returned result still fails after all correction rounds */
+  verificationIssues?: VerificationIssue[];
+  /** Chart recommended for the returned result */
+  chart?: ChartRecommendation;
+  answerSummary?: AnswerSummary;
+  sqlExplanation?: SQLExplanation;
+  /** Tokens, latency and cost of the run's agent calls, per agent and in total */
+  usage: RunUsage;
+  /** History id of the saved trace, when the run was recorded */
+  runId?: string;
+}
+
+/**
+ * The run was aborted through PipelineOptions.signal
+ */
+export class PipelineCancelledError extends Error {
+  constructor() {
+    super('Pipeline cancelled');
+    this.name = 'PipelineCancelledError';
+  }
+}
+
+let defaultEmbedder: Embedder | null | undefined;
+
+function getDefaultEmbedder(): Embedder | undefined {
+  if (defaultEmbedder === undefined) {
+    const config = embedderConfigFromEnv();
+    defaultEmbedder = config ? createEmbedder(config) : null;
+  }
+  return defaultEmbedder || undefined;
+}
+
+/**
+ * Save a trace without letting a history failure fail the run
+ */
+async function persistTrace(trace: RunTrace): Promise<string | undefined> {
+  try {
+    await saveRun(trace);
+    return trace.id;
+  } catch (error: any) {
+    console.warn(`⚠️  Could not save run history: ${error.message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Run the full SQL-of-Thought pipeline for one question, recording its trace
+ * in the history store
+ */
+export async function runSqlOfThought(question: string, options: PipelineOptions): Promise<PipelineResult> {
+  if (!(options.recordHistory ?? RUN_HISTORY)) {
+    return executePipeline(question, options);
+  }
+
+  const source = getDataSource(options.database);
+  const recorder = createTraceRecorder(question, source.name, options.provider, options.promptSet ?? PROMPT_SET);
+  const onEvent = (event: PipelineEvent) => {
+    recorder.onEvent(event);
+    options.onEvent?.(event);
+  };
+
+  try {
+    const result = await executePipeline(question, { ...options, provider: recorder.provider, onEvent });
+    result.runId = await persistTrace(recorder.finish({ result }));
+    return result;
+  } catch (error: any) {
+    await persistTrace(recorder.finish({ error: error.message }));
+    throw error;
+  }
+}
+
+async function executePipeline(asked: string, options: PipelineOptions): Promise<PipelineResult> {
+  const source = getDataSource(options.database);
+  const maxCorrectionAttempts = options.maxCorrectionAttempts ?? MAX_CORRECTION_ATTEMPTS;
+  const allowedStatements = options.allowedStatements || ALLOWED_STATEMENTS;
+  const verifyResults = options.verifyResults ?? RESULT_VERIFICATION;
+  const staticValidation = options.validateSQL ?? SQL_VALIDATION;
+  const recommendCharts = options.recommendChart ?? CHART_RECOMMENDATION;
+  const summarizeAnswer = options.summarizeAnswer ?? ANSWER_SUMMARY;
+  const explainSQL = options.explainSQL ?? SQL_EXPLANATION;
+  const embedder = options.embedder ?? getDefaultEmbedder();
+  const executeOptions: ExecuteOptions = {
+    allowedStatements,
+    timeoutMs: options.queryTimeoutMs,
+    maxRows: options.maxRows,
+    signal: options.signal,
+  };
+  const emit = options.onEvent || (() => {});
+  // RUN_BUDGET_USD and RUN_TOKEN_BUDGET use 0 for no limit
+  const budget = tightenBudget(
+    { maxCostUSD: RUN_BUDGET_USD || undefined, maxTokens: RUN_TOKEN_BUDGET || undefined },
+    options.budget
+  );
+  const meter = createUsageMeter(options.provider, (call) => emit({ type: 'agent_usage', call, usage: meter.totals() }));
+  const ctx: AgentContext = {
+    provider: meter.provider,
+    temperature: options.temperature ?? TEMPERATURE,
+    schemaTokenBudget: options.schemaTokenBudget ?? SCHEMA_TOKEN_BUDGET,
+    outputRetries: options.outputRetries ?? AGENT_OUTPUT_RETRIES,
+    signal: options.signal,
+    prompts: getPromptSet(options.promptSet),
+  };
+
+  // A cancelled run stops at the next stage boundary
+  const startStage = (stage: PipelineStage) => {
+    if (options.signal?.aborted) throw new PipelineCancelledError();
+    emit({ type: 'stage_start', stage });
+  };
+
+  // Step 1: Get database schema and link it to the question
+  startStage('schema');
+
+  // Follow-ups ("now only for 2012") are rewritten to stand on their own and
+  // build on the previous turn's tables and SQL
+  let question = asked;
+  const history = options.history || [];
+  if (history.length > 0) {
+    const followUp = await followUpAgent(ctx, asked, history.slice(-CONVERSATION_TURNS));
+    if (followUp.is_follow_up) {
+      question = followUp.standalone_question;
+      ctx.previousTurn = history[history.length - 1];
+    }
+    emit({
+      type: 'question_rewritten',
+      question: asked,
+      standaloneQuestion: question,
+      followUp: followUp.is_follow_up,
+      reasoning: followUp.reasoning,
+    });
+  }
+  const standaloneQuestion = question !== asked ? question : undefined;
+
+  // Optional agents explaining the answer. They run side by side; a failure is
+  // reported but doesn't fail a run that already has its answer.
+  const optionalAgent = async <T>(
+    agent: 'answer_summary' | 'sql_explanation',
+    run: () => Promise<T>,
+    onDone: (value: T) => void
+  ): Promise<T | undefined> => {
+    try {
+      const value = await run();
+      onDone(value);
+      return value;
+    } catch (error: any) {
+      if (options.signal?.aborted) throw error;
+      emit({ type: 'answer_agent_failed', agent, error: error.message });
+      return undefined;
+    }
+  };
+
+  // Stages on the result the run returns: chart, answer summary, SQL explanation,
+  // then the usage totals including them
+  const answered = async (result: Omit<PipelineResult, 'usage'>): Promise<PipelineResult> => {
+    const output = result.result;
+    if (!output) return { ...result, usage: meter.totals() };
+
+    const chart = recommendCharts ? recommendChart(question, output, result.queryPlan) : undefined;
+    if (chart) emit({ type: 'chart_recommended', chart });
+    if (!summarizeAnswer && !explainSQL) return { ...result, chart, usage: meter.totals() };
+
+    startStage('answer');
+    const warnings = (result.verificationIssues || []).map((issue) => issue.message);
+    const [answerSummary, sqlExplanation] = await Promise.all([
+      summarizeAnswer
+        ? optionalAgent(
+            'answer_summary',
+            () => answerSummaryAgent(ctx, question, output, warnings, ANSWER_SUMMARY_ROWS),
+            (summary) => emit({ type: 'answer_summarized', summary })
+          )
+        : undefined,
+      explainSQL
+        ? optionalAgent(
+            'sql_explanation',
+            () => sqlExplanationAgent(ctx, question, result.sql, result.queryPlan),
+            (explanation) => emit({ type: 'sql_explained', explanation })
+          )
+        : undefined,
+    ]);
+    return { ...result, chart, answerSummary, sqlExplanation, usage: meter.totals() };
+  };
+
+  const schema = await getCompleteSchema(source, { profile: options.profileSchema ?? SCHEMA_PROFILING });
+  emit({ type: 'schema_loaded', tableCount: Object.keys(schema.tables).length });
+
+  // Only the question's top-K tables (and the tables joining them) go to the linking agent
+  const retrieval = await retrieveSchema(question, schema, {
+    topK: options.schemaTopK ?? SCHEMA_TOP_K,
+    maxColumnsPerTable: SCHEMA_MAX_COLUMNS,
+    embedder,
+    includeTables: ctx.previousTurn?.linkedSchema.tables,
+  });
+  emit({ type: 'schema_retrieved', tables: retrieval.tables, totalTables: retrieval.totalTables });
+
+  const rawLinkedSchema = await schemaLinkingAgent(ctx, question, retrieval.schema);
+  emit({ type: 'schema_linked', linkedSchema: rawLinkedSchema });
+
+  // Planning only sees tables and columns that exist, plus the columns their joins need
+  const { linkedSchema, adjustments } = validateLinkedSchema(rawLinkedSchema, schema);
+  if (linkedSchema.tables.length === 0) {
+    throw new AgentOutputError(
+      'schema_linking',
+      adjustments.map((adjustment) => adjustment.message),
+      JSON.stringify(rawLinkedSchema)
+    );
+  }
+  emit({ type: 'schema_validated', linkedSchema, adjustments });
+
+  // Step 2: Subproblem Identification
+  startStage('subproblem');
+  const subproblems = await subproblemAgent(ctx, question, linkedSchema);
+  emit({ type: 'subproblems_identified', subproblems });
+
+  // Step 3: Query Plan Generation, with verified queries for similar questions
+  // shown to the planning and SQL agents
+  startStage('queryplan');
+  ctx.examples = await retrieveExamples(question, source.name, {
+    k: options.fewShotExamples ?? FEW_SHOT_EXAMPLES,
+    embedder,
+  });
+  if (ctx.examples.length > 0) emit({ type: 'examples_retrieved', examples: ctx.examples });
+  let queryPlan = await queryPlanAgent(ctx, question, linkedSchema, subproblems);
+  emit({ type: 'query_planned', queryPlan });
+
+  // Step 4: SQL Generation, optionally voting over several executed candidates
+  startStage('sql');
+  const candidateCount = options.candidates ?? SQL_CANDIDATES;
+  let sql: string;
+  let vote: CandidateVote | undefined;
+  let candidateResult: SQLExecutorOutput | undefined;
+
+  if (candidateCount > 1) {
+    const strategy = options.candidateStrategy ?? (isCandidateStrategy(SQL_CANDIDATE_STRATEGY) ? SQL_CANDIDATE_STRATEGY : 'sample');
+    const selection = await selectCandidateSQL(ctx, question, linkedSchema, subproblems, queryPlan, source, {
+      count: candidateCount,
+      parallelism: options.candidateParallelism ?? SQL_CANDIDATE_PARALLELISM,
+      strategy,
+      executeOptions,
+    });
+    vote = selection.vote;
+    emit({ type: 'candidates_voted', vote });
+
+    if (selection.queryPlan !== queryPlan) {
+      queryPlan = selection.queryPlan;
+      emit({ type: 'query_planned', queryPlan });
+    }
+    sql = selection.sql;
+    candidateResult = selection.result;
+  } else {
+    sql = await sqlGenerationAgent(ctx, question, queryPlan, linkedSchema);
+  }
+  emit({ type: 'sql_generated', sql });
+
+  // Step 5: Validate, execute, verify and potentially correct
+  let attempt = 0;
+  let lastError = '';
+  let overBudget: string | undefined;
+  // Best query that ran but failed verification, returned if no correction does better
+  let suspicious: { sql: string; result: SQLExecutorOutput; issues: VerificationIssue[] } | null = null;
+
+  while (attempt <= maxCorrectionAttempts) {
+    startStage('execute');
+    // The winning candidate has already run; anything else is bound with EXPLAIN first
+    const validation = candidateResult || !staticValidation ? null : await validateSQL(sql, source, executeOptions);
+    const result = validation && !validation.valid ? null : candidateResult ?? (await executeSQL(sql, source, executeOptions));
+    const diagnostics = validation?.diagnostics ?? [];
+    candidateResult = undefined;
+    attempt++;
+
+    // A timed-out query is an ordinary failure to correct; a cancelled one ends the run
+    if (result?.interrupted === 'cancelled') throw new PipelineCancelledError();
+
+    if (!result) {
+      lastError = formatDiagnostics(diagnostics);
+      emit({ type: 'validation_failed', attempt, diagnostics, error: lastError });
+    } else if (result.success) {
+      emit({ type: 'execution_succeeded', attempt, result });
+
+      const verification = verifyResults ? verifyResult(question, sql, result, queryPlan) : { passed: true, issues: [] };
+      if (verification.passed) {
+        return answered({ success: true, question: asked, standaloneQuestion, database: source.name, promptSet: ctx.prompts.id, sql, attempts: attempt, result, linkedSchema, subproblems, queryPlan, vote });
+      }
+
+      if (!suspicious || verification.issues.length < suspicious.issues.length) {
+        suspicious = { sql, result, issues: verification.issues };
+      }
+      lastError = formatVerificationError(verification.issues);
+      emit({ type: 'verification_failed', attempt, issues: verification.issues, error: lastError });
+    } else {
+      lastError = result.error || 'Unknown execution error';
+      emit({ type: 'execution_failed', attempt, error: lastError });
+    }
+
+    if (attempt > maxCorrectionAttempts) break;
+
+    // Each correction round costs two more agent calls, so stop once the run is over budget
+    overBudget = exceededBudget(meter.totals(), budget);
+    if (overBudget) {
+      emit({ type: 'budget_exceeded', attempt, usage: meter.totals(), error: overBudget });
+      break;
+    }
+
+    // Enter correction loop
+    startStage('correction');
+    const correctionPlan = await correctionPlanAgent(ctx, question, sql, lastError, linkedSchema, schema, diagnostics);
+    emit({ type: 'correction_planned', attempt, error: lastError, correctionPlan });
+
+    sql = await correctionSQLAgent(ctx, question, sql, correctionPlan, linkedSchema);
+    emit({ type: 'sql_corrected', attempt, sql });
+  }
+
+  if (suspicious) {
+    return answered({
+      success: true,
+      question: asked,
+      standaloneQuestion,
+      database: source.name,
+      promptSet: ctx.prompts.id,
+      sql: suspicious.sql,
+      attempts: attempt,
+      result: suspicious.result,
+      linkedSchema,
+      subproblems,
+      queryPlan,
+      vote,
+      verificationIssues: suspicious.issues,
+    });
+  }
+
+  if (!overBudget) emit({ type: 'max_attempts_reached', attempts: attempt, error: lastError });
+  return {
+    success: false,
+    question: asked,
+    standaloneQuestion,
+    database: source.name,
+    promptSet: ctx.prompts.id,
+    sql,
+    attempts: attempt,
+    error: overBudget ? `${overBudget}. Last error: ${lastError}` : lastError,
+    linkedSchema,
+    subproblems,
+    queryPlan,
+    vote,
+    usage: meter.totals(),
+  };
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { CompletionRequest, LLMProvider, TokenUsage } from '../llm/provider.js';
+import { RunUsage, createUsageMeter, exceededBudget, formatCost, tightenBudget } from './usage.js';
+
+/** Answers every call with the next usage, or fails when it is an Error */
+function fakeProvider(model: string, responses: (TokenUsage | Error)[]): LLMProvider {
+  return {
+    name: 'openai',
+    model,
+    async complete(_request: CompletionRequest) {
+      const next = responses.shift()!;
+      if (next instanceof Error) throw next;
+      return { content: '{}', usage: next };
+    },
+  };
+}
+
+const usage = (totals: Partial<RunUsage>): RunUsage => ({
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  calls: 1,
+  input_tokens: 0,
+  cached_input_tokens: 0,
+  output_tokens: 0,
+  latency_ms: 0,
+  agents: [],
+  ...totals,
+});
+
+describe('createUsageMeter', () => {
+  it('sums usage and cost per run and per agent, in first-call order', async () => {
+    const meter = createUsageMeter(
+      fakeProvider('gpt-4o-mini', [
+        { input_tokens: 1000, output_tokens: 100 },
+        { input_tokens: 2000, cached_input_tokens: 1000, output_tokens: 200 },
+        { input_tokens: 500, output_tokens: 50 },
+      ])
+    );
+    await meter.provider.complete({ agent: 'schema_linking', prompt: '' });
+    await meter.provider.complete({ agent: 'sql_generation', prompt: '' });
+    await meter.provider.complete({ agent: 'schema_linking', prompt: '' });
+
+    const totals = meter.totals();
+    expect(totals).toMatchObject({ calls: 3, input_tokens: 3500, cached_input_tokens: 1000, output_tokens: 350 });
+    expect(totals.cost_usd).toBeCloseTo((2500 * 0.15 + 1000 * 0.075 + 350 * 0.6) / 1_000_000);
+    expect(totals.agents.map((agent) => [agent.agent, agent.calls, agent.input_tokens])).toEqual([
+      ['schema_linking', 2, 1500],
+      ['sql_generation', 1, 2000],
+    ]);
+  });
+
+  it('counts failed calls and leaves the cost undefined for unpriced models', async () => {
+    const calls: string[] = [];
+    const meter = createUsageMeter(fakeProvider('unlisted-model', [new Error('rate limited')]), (call) =>
+      calls.push(call.error!)
+    );
+
+    await expect(meter.provider.complete({ agent: 'query_plan', prompt: '' })).rejects.toThrow('rate limited');
+    expect(calls).toEqual(['rate limited']);
+    expect(meter.totals()).toMatchObject({ calls: 1, input_tokens: 0 });
+    expect(meter.totals().cost_usd).toBeUndefined();
+  });
+});
+
+describe('exceededBudget', () => {
+  it('is undefined within the budget or without limits', () => {
+    expect(exceededBudget(usage({ cost_usd: 0.01, input_tokens: 900 }), { maxCostUSD: 0.05, maxTokens: 1000 })).toBeUndefined();
+    expect(exceededBudget(usage({ cost_usd: 5, input_tokens: 1e6 }), {})).toBeUndefined();
+  });
+
+  it('reports a cost or token limit that was passed', () => {
+    expect(exceededBudget(usage({ cost_usd: 0.06 }), { maxCostUSD: 0.05 })).toBe(
+      'Run budget exceeded: $0.06 spent, the limit is $0.05'
+    );
+    expect(exceededBudget(usage({ input_tokens: 900, output_tokens: 200 }), { maxTokens: 1000 })).toBe(
+      'Run budget exceeded: 1100 tokens used, the limit is 1000'
+    );
+  });
+
+  it('cannot check a cost limit for an unpriced model', () => {
+    expect(exceededBudget(usage({ cost_usd: undefined }), { maxCostUSD: 0.01 })).toBeUndefined();
+  });
+
+  it('enforces a zero limit', () => {
+    expect(exceededBudget(usage({ cost_usd: 0.001 }), { maxCostUSD: 0 })).toBe(
+      'Run budget exceeded: $0.0010 spent, the limit is $0.00'
+    );
+    expect(exceededBudget(usage({ output_tokens: 1 }), { maxTokens: 0 })).toBe(
+      'Run budget exceeded: 1 tokens used, the limit is 0'
+    );
+  });
+});
+
+describe('tightenBudget', () => {
+  const configured = { maxCostUSD: 0.05, maxTokens: 10_000 };
+
+  it('lets a request lower the configured limits but not raise them', () => {
+    expect(tightenBudget(configured, { maxCostUSD: 0.01, maxTokens: 50_000 })).toEqual({ maxCostUSD: 0.01, maxTokens: 10_000 });
+  });
+
+  it('keeps the configured limits for missing or NaN requests', () => {
+    expect(tightenBudget(configured)).toEqual(configured);
+    expect(tightenBudget(configured, { maxCostUSD: NaN, maxTokens: Infinity })).toEqual(configured);
+  });
+
+  it('takes a requested limit where none is configured', () => {
+    expect(tightenBudget({}, { maxTokens: 2000 })).toEqual({ maxCostUSD: undefined, maxTokens: 2000 });
+  });
+});
+
+describe('formatCost', () => {
+  it('shows small amounts with four decimals', () => {
+    expect(formatCost(0.0042)).toBe('$0.0042');
+    expect(formatCost(1.5)).toBe('$1.50');
+    expect(formatCost(0)).toBe('$0.00');
+  });
+});
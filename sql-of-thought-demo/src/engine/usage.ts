@@ -0,0 +1,152 @@
+/**
+ * Usage Accounting
+ * Meters every agent call of a run (tokens, cached tokens, latency and cost)
+ * and checks the running totals against the run's budget, so a correction
+ * loop can't quietly multiply what a question costs
+ */
+
+import { AgentName, LLMProvider, TokenUsage } from '../llm/provider.js';
+import { costOf, getModelPrice } from '../llm/pricing.js';
+
+export interface AgentCallUsage extends TokenUsage {
+  agent: AgentName;
+  latency_ms: number;
+  /** Undefined when the model has no price */
+  cost_usd?: number;
+  error?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  input_tokens: number;
+  cached_input_tokens: number;
+  output_tokens: number;
+  /** Summed over calls, so parallel calls count in full */
+  latency_ms: number;
+  /** Undefined when the model has no price */
+  cost_usd?: number;
+}
+
+export interface AgentUsageTotals extends UsageTotals {
+  agent: AgentName;
+}
+
+export interface RunUsage extends UsageTotals {
+  provider: string;
+  model: string;
+  /** Per-agent totals, in the order the agents were first called */
+  agents: AgentUsageTotals[];
+}
+
+/**
+ * Limits checked before each correction round; undefined means no limit
+ */
+export interface RunBudget {
+  maxCostUSD?: number;
+  /** Input plus output tokens */
+  maxTokens?: number;
+}
+
+export interface UsageMeter {
+  /** Provider wrapper that meters every call */
+  provider: LLMProvider;
+  totals(): RunUsage;
+}
+
+const emptyTotals = (priced: boolean): UsageTotals => ({
+  calls: 0,
+  input_tokens: 0,
+  cached_input_tokens: 0,
+  output_tokens: 0,
+  latency_ms: 0,
+  ...(priced && { cost_usd: 0 }),
+});
+
+function addCall(totals: UsageTotals, call: AgentCallUsage): void {
+  totals.calls++;
+  totals.input_tokens += call.input_tokens;
+  totals.cached_input_tokens += call.cached_input_tokens || 0;
+  totals.output_tokens += call.output_tokens;
+  totals.latency_ms += call.latency_ms;
+  if (totals.cost_usd !== undefined) totals.cost_usd += call.cost_usd || 0;
+}
+
+export function formatCost(usd: number): string {
+  return `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
+
+/**
+ * Wrap a provider so every call's usage is added to the run's totals.
+ * Calls that fail still count with their latency.
+ */
+export function createUsageMeter(provider: LLMProvider, onCall?: (call: AgentCallUsage) => void): UsageMeter {
+  const price = getModelPrice(provider.name, provider.model);
+  const run = emptyTotals(price !== undefined);
+  const agents = new Map<AgentName, AgentUsageTotals>();
+
+  const record = (call: AgentCallUsage) => {
+    addCall(run, call);
+    if (!agents.has(call.agent)) agents.set(call.agent, { agent: call.agent, ...emptyTotals(price !== undefined) });
+    addCall(agents.get(call.agent)!, call);
+    onCall?.(call);
+  };
+
+  const meteringProvider: LLMProvider = {
+    name: provider.name,
+    model: provider.model,
+    async complete(request) {
+      const start = Date.now();
+      const call: AgentCallUsage = { agent: request.agent, input_tokens: 0, output_tokens: 0, latency_ms: 0 };
+      try {
+        const response = await provider.complete(request);
+        Object.assign(call, response.usage);
+        return response;
+      } catch (error: any) {
+        call.error = error.message;
+        throw error;
+      } finally {
+        call.latency_ms = Date.now() - start;
+        if (price) call.cost_usd = costOf(call, price);
+        record(call);
+      }
+    },
+  };
+
+  return {
+    provider: meteringProvider,
+    totals: () => ({
+      provider: provider.name,
+      model: provider.model,
+      ...run,
+      agents: [...agents.values()].map((totals) => ({ ...totals })),
+    }),
+  };
+}
+
+/**
+ * The budget a run gets: a requested limit can tighten a configured one but
+ * not lift it. Requested limits that aren't numbers are ignored.
+ */
+export function tightenBudget(configured: RunBudget, requested: RunBudget = {}): RunBudget {
+  const tighter = (limit?: number, asked?: number) =>
+    asked === undefined || !Number.isFinite(asked) ? limit : limit === undefined ? asked : Math.min(limit, asked);
+  return {
+    maxCostUSD: tighter(configured.maxCostUSD, requested.maxCostUSD),
+    maxTokens: tighter(configured.maxTokens, requested.maxTokens),
+  };
+}
+
+/**
+ * Why the run is over its budget, or undefined while it is within it. A cost
+ * limit can't be checked for a model without a price.
+ */
+export function exceededBudget(usage: RunUsage, budget: RunBudget): string | undefined {
+  if (budget.maxCostUSD !== undefined && usage.cost_usd !== undefined && usage.cost_usd > budget.maxCostUSD) {
+    return `Run budget exceeded: ${formatCost(usage.cost_usd)} spent, the limit is ${formatCost(budget.maxCostUSD)}`;
+  }
+  const tokens = usage.input_tokens + usage.output_tokens;
+  if (budget.maxTokens !== undefined && tokens > budget.maxTokens) {
+    return `Run budget exceeded: ${tokens} tokens used, the limit is ${budget.maxTokens}`;
+  }
+  return undefined;
+}
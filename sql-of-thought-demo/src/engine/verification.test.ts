@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { requestedRowLimit, verifyResult } from './verification.js';
+
+const rowsOf = (count: number, row: (i: number) => Record<string, unknown> = (i) => ({ id: i })) => ({
+  success: true,
+  result: Array.from({ length: count }, (_, i) => row(i)),
+  row_count: count,
+});
+
+const checks = (question: string, sql: string, count: number) =>
+  verifyResult(question, sql, rowsOf(count)).issues.map((issue) => issue.check);
+
+describe('requestedRowLimit', () => {
+  it('reads digits and number words next to ranking words', () => {
+    expect(requestedRowLimit('What are the top 5 tracks by sales?')).toBe(5);
+    expect(requestedRowLimit('List the first ten customers')).toBe(10);
+    expect(requestedRowLimit('Which are the 3 best-selling albums?')).toBe(3);
+  });
+
+  it('returns null when the question asks for no particular count', () => {
+    expect(requestedRowLimit('Which genres have more than 100 tracks?')).toBeNull();
+  });
+});
+
+describe('verifyResult', () => {
+  it('passes a top-N query that returns N rows', () => {
+    expect(verifyResult('Top 5 tracks by sales', 'SELECT * FROM tracks ORDER BY sales DESC LIMIT 5', rowsOf(5))).toEqual({
+      passed: true,
+      issues: [],
+    });
+  });
+
+  it('flags an empty result', () => {
+    expect(checks('List the rock tracks', "SELECT * FROM tracks WHERE genre = 'rock'", 0)).toEqual(['empty_result']);
+  });
+
+  it('flags a top-N query without a LIMIT', () => {
+    const issues = verifyResult('Top 5 tracks by sales', 'SELECT * FROM tracks', rowsOf(20)).issues;
+    expect(issues.map((issue) => issue.check)).toEqual(['missing_limit']);
+    expect(issues[0].suggested_categories).toContain('other.order_by_missing');
+  });
+
+  it('flags a LIMIT that does not match the question', () => {
+    expect(checks('Top 3 albums', 'SELECT * FROM albums ORDER BY sales DESC LIMIT 10', 10)).toEqual(['row_count_mismatch']);
+  });
+
+  it('takes the limit from the query plan when the question has none', () => {
+    const plan = {
+      steps: [{ step_number: 1, action: 'Order customers by revenue', reasoning: '', sql_fragment: 'ORDER BY revenue DESC LIMIT 5' }],
+      final_strategy: '',
+    };
+    expect(verifyResult('Best customers by revenue', 'SELECT * FROM customers', rowsOf(59), plan).issues[0].check).toBe(
+      'missing_limit'
+    );
+  });
+
+  it('does not apply a per-group limit to the whole result', () => {
+    const sql = `SELECT * FROM (
+      SELECT Country, CustomerId, ROW_NUMBER() OVER (PARTITION BY Country ORDER BY Total DESC) AS CountryRank FROM totals
+    ) WHERE CountryRank <= 3`;
+    expect(checks('Top 3 customers by spending in each country', sql, 45)).toEqual([]);
+    expect(checks('Who are the top 3 customers by country?', sql, 45)).toEqual([]);
+  });
+
+  it('does not apply a limit to a QUALIFY query', () => {
+    const sql = 'SELECT * FROM tracks QUALIFY RANK() OVER (PARTITION BY GenreId ORDER BY Sales DESC) <= 2';
+    expect(checks('Two best tracks of the genres', sql, 50)).toEqual([]);
+  });
+
+  it('flags several rows for a single-value question', () => {
+    expect(checks('How many customers are there?', 'SELECT Country, COUNT(*) FROM customers GROUP BY Country', 24)).toEqual([
+      'expected_single_row',
+    ]);
+  });
+
+  it('flags a per-group question answered with one aggregate row', () => {
+    expect(checks('Average track length for each genre', 'SELECT AVG(Milliseconds) FROM tracks', 1)).toEqual([
+      'missing_group_by',
+    ]);
+  });
+
+  it('flags duplicate rows from a fanning-out join', () => {
+    const result = rowsOf(4, (i) => ({ name: i < 2 ? 'Rock' : 'Jazz' }));
+    const issues = verifyResult('List genres with tracks', 'SELECT g.Name AS name FROM genres g JOIN tracks t USING (GenreId)', result);
+    expect(issues.issues.map((issue) => issue.check)).toEqual(['duplicate_rows']);
+    expect(issues.issues[0].message).toMatch(/^2 of 4 rows/);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Result Verification
+ * Checks a query that ran successfully against the question and query plan, to
+ * catch logical errors that never make DuckDB throw: empty results, missing
+ * LIMIT on "top N" questions, aggregates without GROUP BY, fan-out duplicates.
+ * A failed check becomes a synthetic error for the correction loop.
+ */
+
+import { tokenize, Token } from '../sql/tokenizer.js';
+import type { SQLExecutorOutput } from '../tools/sql-executor-tool.js';
+import type { QueryPlan } from './agent-outputs.js';
+
+export type VerificationCheck =
+  | 'empty_result'
+  | 'missing_limit'
+  | 'row_count_mismatch'
+  | 'expected_single_row'
+  | 'missing_group_by'
+  | 'duplicate_rows';
+
+export interface VerificationIssue {
+  check: VerificationCheck;
+  message: string;
+  /** Taxonomy categories that usually explain this symptom */
+  suggested_categories: string[];
+}
+
+export interface VerificationResult {
+  passed: boolean;
+  issues: VerificationIssue[];
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  twenty: 20, fifty: 50, hundred: 100,
+};
+
+const RANKING_WORDS = 'top|first|last|highest|lowest|best|worst|largest|smallest|biggest|most|least|latest|earliest|oldest|newest';
+
+const AGGREGATE_FUNCTIONS = new Set(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'MEDIAN', 'STRING_AGG', 'LIST']);
+
+const RANK_FUNCTIONS = ['ROW_NUMBER', 'RANK', 'DENSE_RANK', 'NTILE', 'PERCENT_RANK', 'CUME_DIST'];
+
+/**
+ * "top 5 tracks", "the 3 best-selling albums", "first ten customers" -> N
+ */
+export function requestedRowLimit(question: string): number | null {
+  const number = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+  const patterns = [
+    new RegExp(`\\b(?:${RANKING_WORDS})\\s+${number}\\b`, 'i'),
+    new RegExp(`\\b${number}\\s+(?:${RANKING_WORDS})\\b`, 'i'),
+    new RegExp(`\\b${number}\\s+(?:\\w+-)?(?:selling|rated|paid|grossing)\\b`, 'i'),
+  ];
+
+  for (const pattern of patterns) {
+    const match = question.match(pattern);
+    if (match) {
+      const value = match[1].toLowerCase();
+      return NUMBER_WORDS[value] ?? parseInt(value, 10);
+    }
+  }
+  return null;
+}
+
+/**
+ * "How many customers...", "What is the total revenue..." without "each"/"per"/"by"
+ */
+function expectsSingleRow(question: string): boolean {
+  const asksForOneValue = /\b(how many|how much|what is the (total|average|number|count|sum)|total number of|count of)\b/i.test(question);
+  const asksForGroups = /\b(each|per|every|by (each|country|genre|year|month|artist|album|customer|employee))\b/i.test(question);
+  return asksForOneValue && !asksForGroups;
+}
+
+function asksForGroups(question: string): boolean {
+  return /\b(each|per|every|for all)\b/i.test(question);
+}
+
+/**
+ * Top-level keywords of the query (outside parentheses), plus all words anywhere
+ */
+function sqlShape(sql: string): { topLevel: Set<string>; all: Set<string>; hasAggregate: boolean; limit: number | null } {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(sql);
+  } catch {
+    tokens = [];
+  }
+
+  const topLevel = new Set<string>();
+  const all = new Set<string>();
+  let depth = 0;
+  let hasAggregate = false;
+  let limit: number | null = null;
+
+  for (const [i, token] of tokens.entries()) {
+    if (token.type === 'punctuation' && token.text === '(') depth++;
+    if (token.type === 'punctuation' && token.text === ')') depth--;
+    if (token.type !== 'word') continue;
+
+    all.add(token.upper);
+    if (depth === 0) topLevel.add(token.upper);
+
+    const next = tokens[i + 1];
+    if (depth === 0 && AGGREGATE_FUNCTIONS.has(token.upper) && next?.type === 'punctuation' && next.text === '(') {
+      hasAggregate = true;
+    }
+    if (depth === 0 && token.upper === 'LIMIT' && next?.type === 'number') {
+      limit = parseInt(next.text, 10);
+    }
+  }
+
+  return { topLevel, all, hasAggregate, limit };
+}
+
+function countDuplicateRows(rows: Record<string, unknown>[]): number {
+  const seen = new Set<string>();
+  let duplicates = 0;
+  for (const row of rows) {
+    const key = JSON.stringify(row, (_, value) => (typeof value === 'bigint' ? value.toString() : value));
+    if (seen.has(key)) duplicates++;
+    seen.add(key);
+  }
+  return duplicates;
+}
+
+/**
+ * Check an executed query's result for signs that it answers the wrong question
+ */
+export function verifyResult(
+  question: string,
+  sql: string,
+  result: SQLExecutorOutput,
+  queryPlan?: QueryPlan
+): VerificationResult {
+  const issues: VerificationIssue[] = [];
+  const rows = result.result || [];
+  const rowCount = result.row_count ?? rows.length;
+  const shape = sqlShape(sql);
+
+  if (rowCount === 0) {
+    issues.push({
+      check: 'empty_result',
+      message: 'The query returned no rows. Filters may compare against values or formats that do not occur in the data, or an INNER JOIN may drop every row.',
+      suggested_categories: ['value.value_format_wrong', 'filter.condition_wrong_col', 'join.join_wrong_type'],
+    });
+  }
+
+  // The plan may spell out the limit even when the question words it loosely
+  const planLimit = JSON.stringify(queryPlan || {}).match(/\bLIMIT\s+(\d+)/i);
+  const requested = requestedRowLimit(question) ?? (planLimit ? parseInt(planLimit[1], 10) : null);
+
+  // "Top 3 customers in each country" limits every group, not the whole result
+  const ranksWithinGroups =
+    shape.all.has('QUALIFY') || (shape.all.has('PARTITION') && RANK_FUNCTIONS.some((name) => shape.all.has(name)));
+  const limitsPerGroup = asksForGroups(question) || ranksWithinGroups;
+
+  if (requested !== null && rowCount > requested && !limitsPerGroup) {
+    if (shape.limit === null && !shape.topLevel.has('FETCH')) {
+      issues.push({
+        check: 'missing_limit',
+        message: `The question asks for ${requested} results, but the query has no LIMIT and returned ${rowCount} rows.`,
+        suggested_categories: shape.topLevel.has('ORDER')
+          ? ['other.limit_missing']
+          : ['other.limit_missing', 'other.order_by_missing'],
+      });
+    } else {
+      issues.push({
+        check: 'row_count_mismatch',
+        message: `The question asks for ${requested} results, but the query returned ${rowCount} rows.`,
+        suggested_categories: ['other.limit_missing'],
+      });
+    }
+  }
+
+  if (expectsSingleRow(question) && rowCount > 1) {
+    issues.push({
+      check: 'expected_single_row',
+      message: `The question asks for a single value, but the query returned ${rowCount} rows. It may list rows instead of aggregating them, or group by an extra column.`,
+      suggested_categories: ['aggregation.agg_no_groupby', 'aggregation.groupby_missing_col', 'other.extra_values_selected'],
+    });
+  }
+
+  if (asksForGroups(question) && rowCount === 1 && shape.hasAggregate && !shape.topLevel.has('GROUP')) {
+    issues.push({
+      check: 'missing_group_by',
+      message: 'The question asks for a value per group, but the query aggregates everything into a single row without GROUP BY.',
+      suggested_categories: ['aggregation.agg_no_groupby'],
+    });
+  }
+
+  const joins = shape.all.has('JOIN');
+  const deduplicated = shape.topLevel.has('DISTINCT') || shape.topLevel.has('GROUP');
+  const duplicates = joins && !deduplicated ? countDuplicateRows(rows) : 0;
+  if (duplicates > 0) {
+    issues.push({
+      check: 'duplicate_rows',
+      message: `${duplicates} of ${rowCount} rows are exact duplicates. A JOIN probably fans out (one-to-many) and repeats rows.`,
+      suggested_categories: ['join.incorrect_col', 'join.extra_table', 'aggregation.groupby_missing_col'],
+    });
+  }
+
+  return { passed: issues.length === 0, issues };
+}
+
+/**
+ * Turn verification issues into an error message for the correction agents
+ */
+export function formatVerificationError(issues: VerificationIssue[]): string {
+  const lines = issues.map(
+    (issue) => `- (${issue.check}) ${issue.message} Likely categories: ${issue.suggested_categories.join(', ')}.`
+  );
+  return `The query ran but its result does not look like an answer to the question:\n${lines.join('\n')}`;
+}
@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import type { ResultColumn, SQLExecutorOutput } from '../tools/sql-executor-tool.js';
+import { recommendChart } from './visualization.js';
+
+const resultOf = (rows: Record<string, unknown>[], columns?: ResultColumn[]): SQLExecutorOutput => ({
+  success: true,
+  result: rows,
+  row_count: rows.length,
+  ...(columns && { columns }),
+});
+
+const SALES_BY_GENRE = resultOf(
+  [
+    { genre: 'Rock', sales: 826 },
+    { genre: 'Latin', sales: 382 },
+    { genre: 'Metal', sales: 264 },
+  ],
+  [
+    { name: 'genre', type: 'VARCHAR' },
+    { name: 'sales', type: 'DOUBLE' },
+  ]
+);
+
+describe('recommendChart', () => {
+  it('recommends no chart for a single row or a result without numbers', () => {
+    expect(recommendChart('How many tracks are there?', resultOf([{ count: 3503 }])).type).toBe('none');
+    expect(
+      recommendChart('List the artists', resultOf([{ name: 'AC/DC' }, { name: 'Accept' }], [{ name: 'name', type: 'VARCHAR' }]))
+    ).toMatchObject({ type: 'none', reason: 'The result has no numeric column to plot.' });
+  });
+
+  it('plots a measure over a date column as a line', () => {
+    const result = resultOf(
+      [
+        { invoice_date: new Date('2009-01-01'), total: 1.98 },
+        { invoice_date: new Date('2009-01-02'), total: 3.96 },
+      ],
+      [
+        { name: 'invoice_date', type: 'DATE' },
+        { name: 'total', type: 'DECIMAL(10,2)' },
+      ]
+    );
+
+    const chart = recommendChart('Revenue per day', result);
+    expect(chart).toMatchObject({ type: 'line', x: 'invoice_date', y: 'total' });
+    expect(chart.spec?.encoding.x).toEqual({ field: 'invoice_date', type: 'temporal' });
+    expect(chart.spec?.data.values[0].invoice_date).toBe('2009-01-01');
+  });
+
+  it('treats period columns, and period text when the question is about time, as a line', () => {
+    const byYear = resultOf(
+      [
+        { Year: 2009, revenue: 449 },
+        { Year: 2010, revenue: 481 },
+      ],
+      [
+        { name: 'Year', type: 'INTEGER' },
+        { name: 'revenue', type: 'DOUBLE' },
+      ]
+    );
+    expect(recommendChart('Revenue per year', byYear)).toMatchObject({ type: 'line', x: 'Year', y: 'revenue' });
+
+    const byMonth = resultOf(
+      [
+        { m: '2009-01', revenue: 35 },
+        { m: '2009-02', revenue: 37 },
+      ],
+      [
+        { name: 'm', type: 'VARCHAR' },
+        { name: 'revenue', type: 'DOUBLE' },
+      ]
+    );
+    expect(recommendChart('Monthly revenue', byMonth).type).toBe('line');
+    expect(recommendChart('Revenue for each code', byMonth).type).toBe('bar');
+  });
+
+  it('compares a measure across categories as bars in the query order', () => {
+    const chart = recommendChart('Sales by genre', SALES_BY_GENRE);
+    expect(chart).toMatchObject({ type: 'bar', x: 'genre', y: 'sales' });
+    expect(chart.spec?.encoding.x).toMatchObject({ field: 'genre', sort: null });
+    expect(chart.spec?.data.values).toEqual(SALES_BY_GENRE.result);
+  });
+
+  it('stacks bars by a second category that repeats across rows', () => {
+    const result = resultOf(
+      [
+        { genre: 'Rock', media: 'MPEG', tracks: 1200 },
+        { genre: 'Rock', media: 'AAC', tracks: 97 },
+        { genre: 'Jazz', media: 'MPEG', tracks: 120 },
+        { genre: 'Jazz', media: 'AAC', tracks: 10 },
+      ],
+      [
+        { name: 'genre', type: 'VARCHAR' },
+        { name: 'media', type: 'VARCHAR' },
+        { name: 'tracks', type: 'BIGINT' },
+      ]
+    );
+
+    const chart = recommendChart('Tracks by genre and media type', result);
+    expect(chart).toMatchObject({ type: 'bar', x: 'genre', y: 'tracks', color: 'media' });
+    expect(chart.spec?.encoding.color).toEqual({ field: 'media', type: 'nominal' });
+  });
+
+  it('draws a pie for a share of a few non-negative slices', () => {
+    expect(recommendChart('What share of sales does each genre have?', SALES_BY_GENRE)).toMatchObject({
+      type: 'pie',
+      x: 'genre',
+      y: 'sales',
+    });
+
+    const withRefund = resultOf([...SALES_BY_GENRE.result!, { genre: 'Refunds', sales: -5 }], SALES_BY_GENRE.columns);
+    expect(recommendChart('What share of sales does each genre have?', withRefund).type).toBe('bar');
+
+    const manySlices = resultOf(
+      Array.from({ length: 9 }, (_, i) => ({ genre: `Genre ${i}`, sales: i + 1 })),
+      SALES_BY_GENRE.columns
+    );
+    expect(recommendChart('What share of sales does each genre have?', manySlices).type).toBe('bar');
+  });
+
+  it('plots two measures against each other as a scatter', () => {
+    const result = resultOf(
+      [
+        { milliseconds: 343719, bytes: 11170334 },
+        { milliseconds: 342562, bytes: 5510424 },
+      ],
+      [
+        { name: 'milliseconds', type: 'INTEGER' },
+        { name: 'bytes', type: 'INTEGER' },
+      ]
+    );
+    expect(recommendChart('Track length and size', result)).toMatchObject({ type: 'scatter', x: 'milliseconds', y: 'bytes' });
+  });
+
+  it('labels bars by name rather than by a numeric key', () => {
+    const result = resultOf(
+      [
+        { CustomerId: 6, name: 'Helena', total: 49.62 },
+        { CustomerId: 26, name: 'Richard', total: 47.62 },
+      ],
+      [
+        { name: 'CustomerId', type: 'INTEGER' },
+        { name: 'name', type: 'VARCHAR' },
+        { name: 'total', type: 'DOUBLE' },
+      ]
+    );
+    expect(recommendChart('Top customers by spending', result)).toMatchObject({ type: 'bar', x: 'name', y: 'total' });
+  });
+
+  it('recommends no chart for too many categories', () => {
+    const result = resultOf(
+      Array.from({ length: 51 }, (_, i) => ({ track: `Track ${i}`, plays: i })),
+      [
+        { name: 'track', type: 'VARCHAR' },
+        { name: 'plays', type: 'INTEGER' },
+      ]
+    );
+    expect(recommendChart('Plays per track', result)).toMatchObject({
+      type: 'none',
+      reason: '51 track values are too many categories for a chart.',
+    });
+  });
+
+  it('reads column types from the rows when the result has none', () => {
+    const chart = recommendChart('Sales by genre', resultOf(SALES_BY_GENRE.result!));
+    expect(chart).toMatchObject({ type: 'bar', x: 'genre', y: 'sales' });
+  });
+
+  it('inlines JSON-safe values and at most 1000 rows', () => {
+    const result = resultOf(
+      Array.from({ length: 1200 }, (_, i) => ({ day: new Date(Date.UTC(2020, 0, 1 + i)), plays: BigInt(i) })),
+      [
+        { name: 'day', type: 'DATE' },
+        { name: 'plays', type: 'BIGINT' },
+      ]
+    );
+
+    const spec = recommendChart('Plays per day', result).spec!;
+    expect(spec.data.values).toHaveLength(1000);
+    expect(spec.data.values[1]).toEqual({ day: '2020-01-02', plays: 1 });
+    expect(spec.description).toBe('Plays per day (first 1000 rows)');
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Chart Recommendation
+ * Picks a chart for a successful result from the question, the result's column
+ * types and the query plan: a line over dates and periods, bars or a pie over
+ * categories, a scatter of two measures, or no chart for single values and
+ * plain listings. The chart is a Vega-Lite spec with the rows inlined, so the
+ * web UI and the CLI can render it without going back to the database.
+ */
+
+import { ResultColumn, SQLExecutorOutput, toJSONSafeRows } from '../tools/sql-executor-tool.js';
+import type { QueryPlan } from './agent-outputs.js';
+
+export type ChartType = 'bar' | 'line' | 'pie' | 'scatter' | 'none';
+
+type FieldType = 'quantitative' | 'temporal' | 'ordinal' | 'nominal';
+
+export interface VegaLiteSpec {
+  $schema: string;
+  description: string;
+  width: number;
+  height: number;
+  data: { values: Record<string, unknown>[] };
+  mark: { type: 'bar' | 'line' | 'arc' | 'point'; tooltip: boolean; point?: boolean };
+  encoding: Record<string, Record<string, unknown>>;
+}
+
+export interface ChartRecommendation {
+  type: ChartType;
+  /** Why this chart, or no chart, was picked */
+  reason: string;
+  x?: string;
+  y?: string;
+  /** Second category, drawn as series or stacked bars */
+  color?: string;
+  spec?: VegaLiteSpec;
+}
+
+const VEGA_LITE_SCHEMA = 'https://vega.github.io/schema/vega-lite/v5.json';
+
+/** Rows inlined into the spec; longer results are charted from their first rows */
+const CHART_MAX_ROWS = 1000;
+/** More categories than this make an unreadable bar chart */
+const MAX_BAR_CATEGORIES = 50;
+const MAX_PIE_SLICES = 8;
+/** Distinct values a category may have to become a color */
+const MAX_SERIES = 10;
+
+const QUANTITATIVE_TYPES = /^(U?TINYINT|U?SMALLINT|U?INTEGER|U?BIGINT|U?HUGEINT|FLOAT|DOUBLE|REAL|DECIMAL)/i;
+const TEMPORAL_TYPES = /^(DATE|TIMESTAMP)/i;
+/** Periods computed by the query ("Year", "invoice_month") are often numbers or text */
+const PERIOD_NAMES = /(year|month|quarter|week|period)$/i;
+/** Text periods such as strftime's "2012" or "2012-03" */
+const PERIOD_VALUES = /^\d{4}(-\d{2}){0,2}$/;
+/** Numeric keys label rows; they are not measures */
+const ID_NAMES = /(^id|_id|Id|ID)$/;
+
+const TIME_WORDS = /\b(trend|over time|monthly|yearly|annual|quarterly|per (year|month|quarter|week)|by (year|month|quarter|week)|each (year|month|quarter))\b/i;
+const SHARE_WORDS = /\b(share|proportion|percent(age)?|distribution|breakdown|split)\b/i;
+const CORRELATION_WORDS = /\b(vs\.?|versus|correlat\w*|relationship|against)\b/i;
+/** Plan steps that bucket dates into periods */
+const PERIOD_FUNCTIONS = /\b(date_trunc|strftime|extract|date_part|year|month)\s*\(/i;
+
+function columnsFromRows(rows: Record<string, unknown>[]): ResultColumn[] {
+  return Object.entries(rows[0] || {}).map(([name, value]) => ({
+    name,
+    type: typeof value === 'number' || typeof value === 'bigint' ? 'DOUBLE' : value instanceof Date ? 'TIMESTAMP' : 'VARCHAR',
+  }));
+}
+
+/**
+ * How a column is encoded. When the question or plan is about time, text
+ * columns holding period values count as periods too.
+ */
+function fieldType(column: ResultColumn, rows: Record<string, unknown>[], timeSeries: boolean): FieldType {
+  if (TEMPORAL_TYPES.test(column.type)) return 'temporal';
+  if (PERIOD_NAMES.test(column.name)) return 'ordinal';
+  if (timeSeries && rows.every((row) => PERIOD_VALUES.test(String(row[column.name])))) return 'ordinal';
+  if (QUANTITATIVE_TYPES.test(column.type) && !ID_NAMES.test(column.name)) return 'quantitative';
+  return 'nominal';
+}
+
+function distinctCount(rows: Record<string, unknown>[], field: string): number {
+  return new Set(rows.map((row) => String(row[field]))).size;
+}
+
+function none(reason: string): ChartRecommendation {
+  return { type: 'none', reason };
+}
+
+/**
+ * Recommend a chart for an executed query's result
+ */
+export function recommendChart(question: string, result: SQLExecutorOutput, queryPlan?: QueryPlan): ChartRecommendation {
+  const rows = result.result || [];
+  if (rows.length < 2) return none('A single row or an empty result reads best as a table.');
+
+  const columns = result.columns ?? columnsFromRows(rows);
+  const timeSeries = TIME_WORDS.test(question) || PERIOD_FUNCTIONS.test(JSON.stringify(queryPlan || {}));
+  const fields = columns.map((column) => ({ name: column.name, type: fieldType(column, rows, timeSeries) }));
+
+  const measures = fields.filter((field) => field.type === 'quantitative');
+  const time = fields.find((field) => field.type === 'temporal' || field.type === 'ordinal');
+  // Prefer a name over a numeric key as the label
+  const categories = fields
+    .filter((field) => field.type === 'nominal')
+    .sort((a, b) => Number(ID_NAMES.test(a.name)) - Number(ID_NAMES.test(b.name)));
+
+  if (measures.length === 0) return none('The result has no numeric column to plot.');
+
+  const y = measures[0];
+  // A series repeats across rows; keys and other per-row labels don't
+  const seriesOtherThan = (name?: string) =>
+    categories.find((field) => {
+      if (field.name === name || ID_NAMES.test(field.name)) return false;
+      const count = distinctCount(rows, field.name);
+      return count <= MAX_SERIES && count < rows.length;
+    });
+  const values = toJSONSafeRows(rows.slice(0, CHART_MAX_ROWS), result.columns);
+  const build = (recommendation: Omit<ChartRecommendation, 'spec'>, spec: Pick<VegaLiteSpec, 'mark' | 'encoding'>) => ({
+    ...recommendation,
+    spec: {
+      $schema: VEGA_LITE_SCHEMA,
+      description: rows.length > CHART_MAX_ROWS ? `${question} (first ${CHART_MAX_ROWS} rows)` : question,
+      width: 640,
+      height: 360,
+      data: { values },
+      ...spec,
+    },
+  });
+
+  if (time) {
+    const color = seriesOtherThan();
+    const kind = time.type === 'temporal' ? 'date' : 'period';
+    return build(
+      {
+        type: 'line',
+        reason: `${time.name} is a ${kind}, so ${y.name} is plotted over time.`,
+        x: time.name,
+        y: y.name,
+        ...(color && { color: color.name }),
+      },
+      {
+        mark: { type: 'line', point: true, tooltip: true },
+        encoding: {
+          x: { field: time.name, type: time.type },
+          y: { field: y.name, type: 'quantitative' },
+          ...(color && { color: { field: color.name, type: 'nominal' } }),
+        },
+      }
+    );
+  }
+
+  const label = categories[0];
+  if (measures.length >= 2 && (!label || CORRELATION_WORDS.test(question))) {
+    const [x, other] = measures;
+    return build(
+      { type: 'scatter', reason: `The result compares two measures, ${x.name} and ${other.name}.`, x: x.name, y: other.name },
+      {
+        mark: { type: 'point', tooltip: true },
+        encoding: {
+          x: { field: x.name, type: 'quantitative' },
+          y: { field: other.name, type: 'quantitative' },
+          ...(label && { tooltip: { field: label.name, type: 'nominal' } }),
+        },
+      }
+    );
+  }
+
+  if (!label) return none('The result has no category or date to plot its measure against.');
+  const labelCount = distinctCount(rows, label.name);
+  if (labelCount > MAX_BAR_CATEGORIES) {
+    return none(`${labelCount} ${label.name} values are too many categories for a chart.`);
+  }
+
+  const stack = seriesOtherThan(label.name);
+  const nonNegative = rows.every((row) => Number(row[y.name]) >= 0);
+  if (SHARE_WORDS.test(question) && !stack && labelCount <= MAX_PIE_SLICES && nonNegative) {
+    return build(
+      { type: 'pie', reason: `The question asks how ${y.name} is split across ${label.name}.`, x: label.name, y: y.name },
+      {
+        mark: { type: 'arc', tooltip: true },
+        encoding: {
+          theta: { field: y.name, type: 'quantitative' },
+          color: { field: label.name, type: 'nominal' },
+        },
+      }
+    );
+  }
+
+  return build(
+    {
+      type: 'bar',
+      reason: `${y.name} is compared across ${label.name}${stack ? ` and ${stack.name}` : ''}.`,
+      x: label.name,
+      y: y.name,
+      ...(stack && { color: stack.name }),
+    },
+    {
+      mark: { type: 'bar', tooltip: true },
+      encoding: {
+        // Keep the query's own ORDER BY instead of sorting labels alphabetically
+        x: { field: label.name, type: 'nominal', sort: null, axis: { labelAngle: -45 } },
+        y: { field: y.name, type: 'quantitative' },
+        ...(stack && { color: { field: stack.name, type: 'nominal' } }),
+      },
+    }
+  );
+}
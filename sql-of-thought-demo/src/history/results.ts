@@ -0,0 +1,81 @@
+/**
+ * Result Handles
+ * A handle names the final query of an answered question so its full result
+ * can be exported later without sending every row to the client. Handles are
+ * kept in memory; runs saved to the history store can also be looked up by
+ * run id, e.g. after a server restart.
+ */
+
+import { randomUUID } from 'crypto';
+import type { PipelineResult } from '../engine/sql-of-thought.js';
+import type { ResultColumn } from '../tools/sql-executor-tool.js';
+import { getRun } from './store.js';
+
+/** Handles not looked up for this long are dropped (RESULT_TTL_MS) */
+const RESULT_TTL_MS = parseInt(process.env.RESULT_TTL_MS || String(24 * 60 * 60 * 1000), 10);
+
+export interface ResultHandle {
+  /** The run id when the run was recorded */
+  id: string;
+  database: string;
+  sql: string;
+  row_count?: number;
+  /** The run's own result hit the row cap; exports still return every row */
+  truncated?: boolean;
+  columns?: ResultColumn[];
+  created_at: string;
+}
+
+const handles = new Map<string, { handle: ResultHandle; lastUsed: number }>();
+
+function prune(): void {
+  const cutoff = Date.now() - RESULT_TTL_MS;
+  for (const [id, entry] of handles) {
+    if (entry.lastUsed < cutoff) handles.delete(id);
+  }
+}
+
+/**
+ * Create a handle for a successful run's result
+ */
+export function registerResult(result: PipelineResult): ResultHandle | null {
+  if (!result.success || !result.result) return null;
+
+  prune();
+  const handle: ResultHandle = {
+    id: result.runId ?? randomUUID(),
+    database: result.database,
+    sql: result.sql,
+    row_count: result.result.row_count,
+    ...(result.result.truncated && { truncated: true }),
+    columns: result.result.columns,
+    created_at: new Date().toISOString(),
+  };
+  handles.set(handle.id, { handle, lastUsed: Date.now() });
+  return handle;
+}
+
+/**
+ * Handle by id, falling back to a successful run in the history store
+ */
+export async function getResultHandle(id: string): Promise<ResultHandle | null> {
+  prune();
+  const entry = handles.get(id);
+  if (entry) {
+    entry.lastUsed = Date.now();
+    return entry.handle;
+  }
+
+  const run = await getRun(id);
+  if (!run || !run.success) return null;
+
+  const handle: ResultHandle = {
+    id: run.id,
+    database: run.database,
+    sql: run.final_sql,
+    row_count: run.row_count,
+    created_at: run.created_at,
+  };
+  handles.set(handle.id, { handle, lastUsed: Date.now() });
+  return handle;
+}
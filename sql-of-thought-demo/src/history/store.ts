@@ -0,0 +1,287 @@
+/**
+ * Run History Store
+ * Saves run traces to a local DuckDB file and reads them back for the
+ * /api/history endpoints and the CLI history command
+ */
+
+import Database from 'duckdb';
+import { mkdirSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { runQuery } from '../tools/database-registry.js';
+import { AgentCallTrace, RunTrace, SQLAttemptTrace } from './trace.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const HISTORY_DB_PATH = process.env.RUN_HISTORY_PATH || join(__dirname, '../../data/history.duckdb');
+
+const SCHEMA_STATEMENTS = [
+  `CREATE TABLE IF NOT EXISTS runs (
+    id VARCHAR PRIMARY KEY,
+    created_at TIMESTAMP,
+    question VARCHAR,
+    database VARCHAR,
+    provider VARCHAR,
+    model VARCHAR,
+    success BOOLEAN,
+    final_sql VARCHAR,
+    error VARCHAR,
+    attempts INTEGER,
+    duration_ms INTEGER,
+    input_tokens INTEGER,
+    output_tokens INTEGER,
+    row_count INTEGER,
+    result_preview VARCHAR,
+    artifacts VARCHAR
+  );`,
+  `CREATE TABLE IF NOT EXISTS agent_calls (
+    run_id VARCHAR,
+    seq INTEGER,
+    agent VARCHAR,
+    prompt VARCHAR,
+    response VARCHAR,
+    error VARCHAR,
+    started_at TIMESTAMP,
+    duration_ms INTEGER,
+    input_tokens INTEGER,
+    output_tokens INTEGER
+  );`,
+  `CREATE TABLE IF NOT EXISTS sql_attempts (
+    run_id VARCHAR,
+    attempt INTEGER,
+    sql VARCHAR,
+    success BOOLEAN,
+    error VARCHAR,
+    error_categories VARCHAR,
+    execution_time_ms INTEGER,
+    row_count INTEGER
+  );`,
+  // Added after the first release; older history files gain them when opened
+  `ALTER TABLE runs ADD COLUMN IF NOT EXISTS cached_input_tokens INTEGER;`,
+  `ALTER TABLE runs ADD COLUMN IF NOT EXISTS cost_usd DOUBLE;`,
+  `ALTER TABLE runs ADD COLUMN IF NOT EXISTS prompt_set VARCHAR;`,
+  `ALTER TABLE agent_calls ADD COLUMN IF NOT EXISTS cached_input_tokens INTEGER;`,
+  `ALTER TABLE agent_calls ADD COLUMN IF NOT EXISTS cost_usd DOUBLE;`,
+];
+
+/** One line per run in history listings */
+export interface RunSummary {
+  id: string;
+  created_at: string;
+  question: string;
+  database: string;
+  provider: string;
+  model: string;
+  prompt_set: string;
+  success: boolean;
+  attempts: number;
+  duration_ms: number;
+  cost_usd: number | null;
+  final_sql: string;
+}
+
+export interface HistoryQuery {
+  limit?: number;
+  offset?: number;
+  database?: string;
+}
+
+// DuckDB rejects undefined parameters
+const orNull = (value: unknown) => (value === undefined ? null : value);
+
+const toISO = (value: unknown) => (value instanceof Date ? value.toISOString() : String(value));
+
+/** Last queued history operation; the next one starts once it settles */
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Open the history database, creating it on first use. The file is opened per
+ * operation so the CLI and the server don't hold a lock on it between runs.
+ * Operations are queued, because two handles on the file at once (e.g. runs
+ * finishing side by side in the server) would collide on DuckDB's file lock.
+ */
+function withHistoryDB<T>(work: (db: Database.Database) => Promise<T>): Promise<T> {
+  const operation = queue.then(async () => {
+    mkdirSync(dirname(HISTORY_DB_PATH), { recursive: true });
+    const db = new Database.Database(HISTORY_DB_PATH);
+    try {
+      for (const statement of SCHEMA_STATEMENTS) {
+        await runQuery(db, statement);
+      }
+      return await work(db);
+    } finally {
+      db.close();
+    }
+  });
+  // A failed operation fails its caller, not the ones queued after it
+  queue = operation.catch(() => undefined);
+  return operation;
+}
+
+export async function saveRun(trace: RunTrace): Promise<void> {
+  await withHistoryDB(async (db) => {
+    await runQuery(db, 'BEGIN TRANSACTION;');
+    try {
+      await runQuery(
+        db,
+        'INSERT INTO runs VALUES (?, ?::TIMESTAMP, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);',
+        trace.id,
+        trace.created_at,
+        trace.question,
+        trace.database,
+        trace.provider,
+        trace.model,
+        trace.success,
+        trace.final_sql,
+        orNull(trace.error),
+        trace.attempts,
+        trace.duration_ms,
+        trace.usage.input_tokens,
+        trace.usage.output_tokens,
+        orNull(trace.row_count),
+        JSON.stringify(trace.result_preview),
+        JSON.stringify(trace.artifacts),
+        orNull(trace.usage.cached_input_tokens),
+        orNull(trace.cost_usd),
+        trace.prompt_set
+      );
+
+      for (const call of trace.agent_calls) {
+        await runQuery(
+          db,
+          'INSERT INTO agent_calls VALUES (?, ?, ?, ?, ?, ?, ?::TIMESTAMP, ?, ?, ?, ?, ?);',
+          trace.id,
+          call.seq,
+          call.agent,
+          call.prompt,
+          call.response,
+          orNull(call.error),
+          call.started_at,
+          call.duration_ms,
+          orNull(call.usage?.input_tokens),
+          orNull(call.usage?.output_tokens),
+          orNull(call.usage?.cached_input_tokens),
+          orNull(call.cost_usd)
+        );
+      }
+
+      for (const attempt of trace.sql_attempts) {
+        await runQuery(
+          db,
+          'INSERT INTO sql_attempts VALUES (?, ?, ?, ?, ?, ?, ?, ?);',
+          trace.id,
+          attempt.attempt,
+          attempt.sql,
+          attempt.success,
+          orNull(attempt.error),
+          JSON.stringify(attempt.error_categories),
+          orNull(attempt.execution_time_ms),
+          orNull(attempt.row_count)
+        );
+      }
+
+      await runQuery(db, 'COMMIT;');
+    } catch (error) {
+      await runQuery(db, 'ROLLBACK;');
+      throw error;
+    }
+  });
+}
+
+/**
+ * Most recent runs first
+ */
+export async function listRuns(query: HistoryQuery = {}): Promise<RunSummary[]> {
+  return withHistoryDB(async (db) => {
+    const filter = query.database ? 'WHERE database = ?' : '';
+    const params = query.database ? [query.database] : [];
+    const rows = await runQuery(
+      db,
+      `SELECT id, created_at, question, database, provider, model, coalesce(prompt_set, 'v1') AS prompt_set,
+              success, attempts, duration_ms, cost_usd, final_sql
+       FROM runs ${filter} ORDER BY created_at DESC LIMIT ? OFFSET ?;`,
+      ...params,
+      query.limit ?? 20,
+      query.offset ?? 0
+    );
+
+    return rows.map((row) => ({ ...row, created_at: toISO(row.created_at) }));
+  });
+}
+
+/**
+ * Full trace of one run, or null if there is no such run. A unique id prefix
+ * (as printed by the CLI) is accepted too.
+ */
+export async function getRun(idOrPrefix: string): Promise<RunTrace | null> {
+  return withHistoryDB(async (db) => {
+    const runs = await runQuery(db, 'SELECT * FROM runs WHERE starts_with(id, ?) LIMIT 2;', idOrPrefix);
+    if (runs.length === 0) return null;
+    if (runs.length > 1) {
+      throw new Error(`Run id prefix "${idOrPrefix}" is ambiguous`);
+    }
+
+    const [run] = runs;
+    const id: string = run.id;
+
+    const calls = await runQuery(db, 'SELECT * FROM agent_calls WHERE run_id = ? ORDER BY seq;', id);
+    const attempts = await runQuery(db, 'SELECT * FROM sql_attempts WHERE run_id = ? ORDER BY attempt;', id);
+
+    return {
+      id: run.id,
+      created_at: toISO(run.created_at),
+      question: run.question,
+      database: run.database,
+      provider: run.provider,
+      model: run.model,
+      // Runs recorded before prompt sets existed used the original prompts
+      prompt_set: run.prompt_set ?? 'v1',
+      success: run.success,
+      final_sql: run.final_sql,
+      error: run.error ?? undefined,
+      attempts: run.attempts,
+      duration_ms: run.duration_ms,
+      usage: {
+        input_tokens: run.input_tokens,
+        output_tokens: run.output_tokens,
+        ...(run.cached_input_tokens !== null && { cached_input_tokens: run.cached_input_tokens }),
+      },
+      cost_usd: run.cost_usd ?? undefined,
+      row_count: run.row_count ?? undefined,
+      result_preview: JSON.parse(run.result_preview),
+      artifacts: JSON.parse(run.artifacts),
+      agent_calls: calls.map(
+        (call): AgentCallTrace => ({
+          seq: call.seq,
+          agent: call.agent,
+          prompt: call.prompt,
+          response: call.response,
+          error: call.error ?? undefined,
+          started_at: toISO(call.started_at),
+          duration_ms: call.duration_ms,
+          usage:
+            call.input_tokens === null
+              ? undefined
+              : {
+                  input_tokens: call.input_tokens,
+                  output_tokens: call.output_tokens,
+                  ...(call.cached_input_tokens !== null && { cached_input_tokens: call.cached_input_tokens }),
+                },
+          cost_usd: call.cost_usd ?? undefined,
+        })
+      ),
+      sql_attempts: attempts.map(
+        (attempt): SQLAttemptTrace => ({
+          attempt: attempt.attempt,
+          sql: attempt.sql,
+          success: attempt.success,
+          error: attempt.error ?? undefined,
+          error_categories: JSON.parse(attempt.error_categories),
+          execution_time_ms: attempt.execution_time_ms ?? undefined,
+          row_count: attempt.row_count ?? undefined,
+        })
+      ),
+    };
+  });
+}
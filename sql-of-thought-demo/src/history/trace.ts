@@ -0,0 +1,233 @@
+/**
+ * Run Trace
+ * Records everything a pipeline run did (prompts, raw responses, SQL attempts,
+ * errors, timing, token usage) so a bad answer can be debugged after the fact
+ */
+
+import { randomUUID } from 'crypto';
+import { LLMProvider, AgentName, TokenUsage } from '../llm/provider.js';
+import { costOf, getModelPrice } from '../llm/pricing.js';
+import { toJSONSafeRows } from '../tools/sql-executor-tool.js';
+import type { PipelineEvent, PipelineResult } from '../engine/sql-of-thought.js';
+
+/** Rows of the final result kept in the trace */
+export const RESULT_PREVIEW_ROWS = 20;
+
+export interface AgentCallTrace {
+  seq: number;
+  agent: AgentName;
+  prompt: string;
+  response: string;
+  error?: string;
+  started_at: string;
+  duration_ms: number;
+  usage?: TokenUsage;
+  /** Undefined when the model has no price */
+  cost_usd?: number;
+}
+
+export interface SQLAttemptTrace {
+  attempt: number;
+  sql: string;
+  success: boolean;
+  error?: string;
+  /** Taxonomy categories the correction plan assigned to this attempt's error */
+  error_categories: string[];
+  execution_time_ms?: number;
+  row_count?: number;
+}
+
+export interface RunTrace {
+  id: string;
+  created_at: string;
+  question: string;
+  database: string;
+  provider: string;
+  model: string;
+  /** Prompt set the agents' prompts were rendered from */
+  prompt_set: string;
+  success: boolean;
+  final_sql: string;
+  error?: string;
+  attempts: number;
+  duration_ms: number;
+  usage: TokenUsage;
+  cost_usd?: number;
+  row_count?: number;
+  result_preview: Record<string, any>[];
+  agent_calls: AgentCallTrace[];
+  sql_attempts: SQLAttemptTrace[];
+  /**
+   * Intermediate agent outputs: follow-up rewrite, retrieved tables, linked schema,
+   * subproblems, few-shot examples, plan, candidate vote
+   */
+  artifacts: Record<string, unknown>;
+}
+
+export interface TraceRecorder {
+  /** Provider wrapper that records every prompt and response */
+  provider: LLMProvider;
+  onEvent(event: PipelineEvent): void;
+  /** Build the trace for a finished run, or for one that threw */
+  finish(outcome: { result?: PipelineResult; error?: string }): RunTrace;
+}
+
+export function createTraceRecorder(
+  question: string,
+  database: string,
+  provider: LLMProvider,
+  promptSet: string
+): TraceRecorder {
+  const startedAt = Date.now();
+  const agentCalls: AgentCallTrace[] = [];
+  const attempts: SQLAttemptTrace[] = [];
+  const artifacts: Record<string, unknown> = {};
+  const price = getModelPrice(provider.name, provider.model);
+  let currentSQL = '';
+
+  const recordingProvider: LLMProvider = {
+    name: provider.name,
+    model: provider.model,
+    async complete(request) {
+      const call: AgentCallTrace = {
+        seq: agentCalls.length + 1,
+        agent: request.agent,
+        prompt: request.prompt,
+        response: '',
+        started_at: new Date().toISOString(),
+        duration_ms: 0,
+      };
+      agentCalls.push(call);
+      const callStart = Date.now();
+
+      try {
+        const response = await provider.complete(request);
+        call.response = response.content;
+        call.usage = response.usage;
+        if (price && response.usage) call.cost_usd = costOf(response.usage, price);
+        return response;
+      } catch (error: any) {
+        call.error = error.message;
+        throw error;
+      } finally {
+        call.duration_ms = Date.now() - callStart;
+      }
+    },
+  };
+
+  const onEvent = (event: PipelineEvent) => {
+    switch (event.type) {
+      case 'question_rewritten':
+        artifacts.follow_up = {
+          follow_up: event.followUp,
+          standalone_question: event.standaloneQuestion,
+          reasoning: event.reasoning,
+        };
+        break;
+      case 'schema_retrieved':
+        artifacts.retrieved_tables = event.tables;
+        break;
+      case 'schema_linked':
+        artifacts.linked_schema = event.linkedSchema;
+        break;
+      case 'schema_validated':
+        artifacts.linked_schema = event.linkedSchema;
+        artifacts.link_adjustments = event.adjustments;
+        break;
+      case 'subproblems_identified':
+        artifacts.subproblems = event.subproblems;
+        break;
+      case 'examples_retrieved':
+        // The library keeps the SQL; the trace only needs to know which examples were shown
+        artifacts.few_shot_examples = event.examples.map(({ example, score }) => ({
+          id: example.id,
+          question: example.question,
+          score,
+        }));
+        break;
+      case 'query_planned':
+        artifacts.query_plan = event.queryPlan;
+        break;
+      case 'candidates_voted':
+        artifacts.candidate_vote = event.vote;
+        break;
+      case 'chart_recommended': {
+        // The spec inlines the rows, which the trace already previews
+        const { spec, ...chart } = event.chart;
+        artifacts.chart = chart;
+        break;
+      }
+      case 'answer_summarized':
+        artifacts.answer_summary = event.summary;
+        break;
+      case 'sql_explained':
+        artifacts.sql_explanation = event.explanation;
+        break;
+      case 'sql_generated':
+      case 'sql_corrected':
+        currentSQL = event.sql;
+        break;
+      case 'execution_succeeded':
+        attempts.push({
+          attempt: event.attempt,
+          sql: currentSQL,
+          success: true,
+          error_categories: [],
+          execution_time_ms: event.result.execution_time_ms,
+          row_count: event.result.row_count,
+        });
+        break;
+      case 'validation_failed':
+      case 'execution_failed':
+        attempts.push({ attempt: event.attempt, sql: currentSQL, success: false, error: event.error, error_categories: [] });
+        break;
+      case 'verification_failed': {
+        const suspicious = attempts.find((attempt) => attempt.attempt === event.attempt);
+        if (suspicious) suspicious.error = event.error;
+        break;
+      }
+      case 'correction_planned': {
+        const failed = attempts.find((attempt) => attempt.attempt === event.attempt);
+        if (failed) failed.error_categories = event.correctionPlan.error_categories;
+        break;
+      }
+    }
+  };
+
+  const finish = ({ result, error }: { result?: PipelineResult; error?: string }): RunTrace => {
+    const rows = result?.result?.result || [];
+    const usage = agentCalls.reduce(
+      (total, call) => ({
+        input_tokens: total.input_tokens + (call.usage?.input_tokens || 0),
+        output_tokens: total.output_tokens + (call.usage?.output_tokens || 0),
+        cached_input_tokens: (total.cached_input_tokens || 0) + (call.usage?.cached_input_tokens || 0),
+      }),
+      { input_tokens: 0, output_tokens: 0, cached_input_tokens: 0 } as TokenUsage
+    );
+    const cost = price ? agentCalls.reduce((total, call) => total + (call.cost_usd || 0), 0) : undefined;
+
+    return {
+      id: randomUUID(),
+      created_at: new Date(startedAt).toISOString(),
+      question,
+      database,
+      provider: provider.name,
+      model: provider.model,
+      prompt_set: promptSet,
+      success: result?.success ?? false,
+      final_sql: result?.sql ?? currentSQL,
+      error: error ?? result?.error,
+      attempts: attempts.length,
+      duration_ms: Date.now() - startedAt,
+      usage,
+      ...(cost !== undefined && { cost_usd: cost }),
+      row_count: result?.result?.row_count,
+      result_preview: toJSONSafeRows(rows.slice(0, RESULT_PREVIEW_ROWS), result?.result?.columns),
+      agent_calls: agentCalls,
+      sql_attempts: attempts,
+      artifacts,
+    };
+  };
+
+  return { provider: recordingProvider, onEvent, finish };
+}
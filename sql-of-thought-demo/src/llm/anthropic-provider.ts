@@ -0,0 +1,72 @@
+/**
+ * Anthropic Provider
+ * Messages API backend for Claude models
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { CompletionRequest, CompletionResponse, LLMProvider } from './provider.js';
+
+const MAX_TOKENS = 4096;
+
+interface AnthropicProviderOptions {
+  model: string;
+  apiKey?: string;
+}
+
+/**
+ * Create a provider backed by the Anthropic Messages API
+ */
+export function createAnthropicProvider(options: AnthropicProviderOptions): LLMProvider {
+  const client = new Anthropic({ apiKey: options.apiKey });
+
+  return {
+    name: 'anthropic',
+    model: options.model,
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      // The Messages API has no JSON mode, so ask for it explicitly
+      const prompt = request.json
+        ? `${request.prompt}\n\nRespond with a single JSON object and nothing else.`
+        : request.prompt;
+
+      const response = await client.messages.create(
+        {
+          model: options.model,
+          max_tokens: MAX_TOKENS,
+          messages: [{ role: 'user', content: prompt }],
+          // Anthropic caps temperature at 1
+          ...(request.temperature !== undefined && { temperature: Math.min(request.temperature, 1) }),
+        },
+        { signal: request.signal }
+      );
+
+      const content = response.content
+        .map((block) => (block.type === 'text' ? block.text : ''))
+        .join('');
+
+      // input_tokens leaves out cache reads and writes, which the SDK types don't list yet
+      const usage = response.usage as Anthropic.Usage & {
+        cache_read_input_tokens?: number | null;
+        cache_creation_input_tokens?: number | null;
+      };
+      const cached = usage.cache_read_input_tokens || 0;
+
+      return {
+        content: request.json ? extractJSONObject(content) : content,
+        usage: {
+          input_tokens: usage.input_tokens + cached + (usage.cache_creation_input_tokens || 0),
+          output_tokens: usage.output_tokens,
+          cached_input_tokens: cached,
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Pull the outermost JSON object out of a response that may contain prose or code fences
+ */
+function extractJSONObject(text: string): string {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text;
+}
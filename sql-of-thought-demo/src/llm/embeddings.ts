@@ -0,0 +1,57 @@
+/**
+ * Embeddings
+ * Optional embedding backend for schema retrieval, using any OpenAI-compatible
+ * /embeddings endpoint (Ollama, vLLM, LM Studio...)
+ */
+
+import OpenAI from 'openai';
+
+export interface Embedder {
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbedderConfig {
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+}
+
+/**
+ * Build an embedder config from SCHEMA_EMBEDDINGS_MODEL, or null when embeddings are off
+ */
+export function embedderConfigFromEnv(): EmbedderConfig | null {
+  const model = process.env.SCHEMA_EMBEDDINGS_MODEL;
+  if (!model) return null;
+
+  return {
+    model,
+    baseURL: process.env.SCHEMA_EMBEDDINGS_BASE_URL || process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+    apiKey: process.env.SCHEMA_EMBEDDINGS_API_KEY || process.env.LOCAL_LLM_API_KEY,
+  };
+}
+
+export function createEmbedder(config: EmbedderConfig): Embedder {
+  // Local servers usually ignore the key, but the client refuses to start without one
+  const client = new OpenAI({ apiKey: config.apiKey || 'local', baseURL: config.baseURL });
+
+  return {
+    model: config.model,
+    async embed(texts: string[]): Promise<number[][]> {
+      const response = await client.embeddings.create({ model: config.model, input: texts });
+      return response.data.sort((a, b) => a.index - b.index).map((item) => item.embedding);
+    },
+  };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
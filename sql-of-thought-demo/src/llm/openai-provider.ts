@@ -0,0 +1,59 @@
+/**
+ * OpenAI Provider
+ * Chat Completions backend, also used for OpenAI-compatible local endpoints
+ */
+
+import OpenAI from 'openai';
+import type { CompletionRequest, CompletionResponse, LLMProvider, ProviderKind } from './provider.js';
+
+interface OpenAIProviderOptions {
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+}
+
+function buildProvider(name: ProviderKind, client: OpenAI, model: string): LLMProvider {
+  return {
+    name,
+    model,
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      const response = await client.chat.completions.create(
+        {
+          model,
+          messages: [{ role: 'user', content: request.prompt }],
+          temperature: request.temperature,
+          ...(request.json && { response_format: { type: 'json_object' as const } }),
+        },
+        { signal: request.signal }
+      );
+
+      return {
+        content: response.choices[0].message.content || '',
+        ...(response.usage && {
+          usage: {
+            input_tokens: response.usage.prompt_tokens,
+            output_tokens: response.usage.completion_tokens,
+            cached_input_tokens: response.usage.prompt_tokens_details?.cached_tokens ?? 0,
+          },
+        }),
+      };
+    },
+  };
+}
+
+/**
+ * Create a provider backed by the OpenAI API
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions): LLMProvider {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  return buildProvider('openai', client, options.model);
+}
+
+/**
+ * Create a provider for an OpenAI-compatible local server (Ollama, vLLM, LM Studio...)
+ */
+export function createLocalProvider(options: OpenAIProviderOptions): LLMProvider {
+  // Local servers usually ignore the key, but the client refuses to start without one
+  const client = new OpenAI({ apiKey: options.apiKey || 'local', baseURL: options.baseURL });
+  return buildProvider('local', client, options.model);
+}
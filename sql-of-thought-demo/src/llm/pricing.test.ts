@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { PriceTable, costOf, getModelPrice, loadPriceTable } from './pricing.js';
+
+const TABLE: PriceTable = {
+  models: {
+    'gpt-4o': { input: 2.5, cached_input: 1.25, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  },
+  providers: { local: { input: 0, output: 0 } },
+};
+
+describe('getModelPrice', () => {
+  it('matches the longest model name prefix', () => {
+    expect(getModelPrice('openai', 'gpt-4o-mini-2024-07-18', TABLE)).toBe(TABLE.models['gpt-4o-mini']);
+    expect(getModelPrice('openai', 'gpt-4o-2024-08-06', TABLE)).toBe(TABLE.models['gpt-4o']);
+  });
+
+  it("falls back to the provider's price, or none", () => {
+    expect(getModelPrice('local', 'llama3.1:8b', TABLE)).toBe(TABLE.providers.local);
+    expect(getModelPrice('anthropic', 'claude-unknown', TABLE)).toBeUndefined();
+  });
+
+  it('reads the shipped price table', () => {
+    const table = loadPriceTable();
+    expect(getModelPrice('openai', 'gpt-4o-mini', table)).toEqual({ input: 0.15, cached_input: 0.075, output: 0.6 });
+  });
+});
+
+describe('costOf', () => {
+  it('prices input and output tokens per million', () => {
+    expect(costOf({ input_tokens: 1_000_000, output_tokens: 500_000 }, TABLE.models['gpt-4o'])).toBeCloseTo(7.5);
+  });
+
+  it('prices cached input tokens at the cached rate, or the input rate without one', () => {
+    const usage = { input_tokens: 1_000_000, cached_input_tokens: 400_000, output_tokens: 0 };
+    expect(costOf(usage, TABLE.models['gpt-4o'])).toBeCloseTo(0.6 * 2.5 + 0.4 * 1.25);
+    expect(costOf(usage, TABLE.models['gpt-4o-mini'])).toBeCloseTo(0.15);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Model Prices
+ * Price table loaded from data/model-prices.json, used to turn the token usage
+ * of each agent call into a cost
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { z } from 'zod';
+import type { ProviderKind, TokenUsage } from './provider.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const MODEL_PRICES_CONFIG_PATH = process.env.MODEL_PRICES_CONFIG || join(__dirname, '../../data/model-prices.json');
+
+/** USD per million tokens */
+const ModelPriceSchema = z.object({
+  input: z.number().nonnegative(),
+  /** Prompt tokens served from the provider's cache; defaults to the input price */
+  cached_input: z.number().nonnegative().optional(),
+  output: z.number().nonnegative(),
+});
+
+const PriceTableSchema = z.object({
+  description: z.string().optional(),
+  /** Keyed by model name or prefix: "gpt-4o-mini" also prices "gpt-4o-mini-2024-07-18" */
+  models: z.record(ModelPriceSchema),
+  /** One price for every model of a provider, e.g. free local servers */
+  providers: z.record(ModelPriceSchema).default({}),
+});
+
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+export type PriceTable = z.infer<typeof PriceTableSchema>;
+
+let cachedPriceTable: PriceTable | null = null;
+
+/**
+ * Load and validate the price table
+ */
+export function loadPriceTable(configPath = MODEL_PRICES_CONFIG_PATH): PriceTable {
+  return PriceTableSchema.parse(JSON.parse(readFileSync(configPath, 'utf-8')));
+}
+
+function getPriceTable(): PriceTable {
+  if (!cachedPriceTable) {
+    cachedPriceTable = loadPriceTable();
+  }
+  return cachedPriceTable;
+}
+
+/**
+ * Price of a model: the longest model name prefix in the table, then the
+ * provider's price. Undefined when neither is listed.
+ */
+export function getModelPrice(provider: ProviderKind, model: string, table = getPriceTable()): ModelPrice | undefined {
+  const match = Object.keys(table.models)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? table.models[match] : table.providers[provider];
+}
+
+/**
+ * Cost of one call in USD
+ */
+export function costOf(usage: TokenUsage, price: ModelPrice): number {
+  const cached = usage.cached_input_tokens || 0;
+  const cost =
+    (usage.input_tokens - cached) * price.input + cached * (price.cached_input ?? price.input) + usage.output_tokens * price.output;
+  return cost / 1_000_000;
+}
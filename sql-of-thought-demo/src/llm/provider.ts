@@ -0,0 +1,150 @@
+/**
+ * LLM Provider Layer
+ * Common interface every SQL-of-Thought agent uses to talk to a model
+ */
+
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { createOpenAIProvider, createLocalProvider } from './openai-provider.js';
+import { createAnthropicProvider } from './anthropic-provider.js';
+import { createScriptedProvider } from './scripted-provider.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const DEFAULT_FIXTURES_PATH = join(__dirname, '../../data/fixtures');
+
+/**
+ * The six agents of the pipeline, plus the follow-up rewriter used in
+ * conversations and the optional answer summary and SQL explanation agents
+ * that run after execution. Scripted fixtures are keyed by these names.
+ */
+export type AgentName =
+  | 'follow_up'
+  | 'schema_linking'
+  | 'subproblem'
+  | 'query_plan'
+  | 'sql_generation'
+  | 'correction_plan'
+  | 'correction_sql'
+  | 'answer_summary'
+  | 'sql_explanation';
+
+export type ProviderKind = 'openai' | 'anthropic' | 'local' | 'scripted';
+
+export interface CompletionRequest {
+  agent: AgentName;
+  prompt: string;
+  /** Ask the model for a single JSON object */
+  json?: boolean;
+  temperature?: number;
+  /** Aborts the HTTP request, e.g. when the web client disconnects */
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  /** All prompt tokens, including cached ones */
+  input_tokens: number;
+  output_tokens: number;
+  /** Prompt tokens served from the provider's prompt cache */
+  cached_input_tokens?: number;
+}
+
+export interface CompletionResponse {
+  content: string;
+  /** Reported by the backend; absent for scripted responses */
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  name: ProviderKind;
+  model: string;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+export interface ProviderConfig {
+  provider: ProviderKind;
+  model?: string;
+  apiKey?: string;
+  /** Endpoint for OpenAI-compatible local servers (Ollama, vLLM, LM Studio...) */
+  baseURL?: string;
+  /** Fixture file or directory for the scripted provider */
+  fixtures?: string;
+}
+
+const DEFAULT_MODELS: Record<ProviderKind, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  local: 'llama3.1',
+  scripted: 'scripted',
+};
+
+const PROVIDER_KINDS = Object.keys(DEFAULT_MODELS) as ProviderKind[];
+
+export function isProviderKind(value: unknown): value is ProviderKind {
+  return typeof value === 'string' && PROVIDER_KINDS.includes(value as ProviderKind);
+}
+
+/**
+ * Build a provider config from environment variables
+ */
+export function providerConfigFromEnv(overrides: Partial<ProviderConfig> = {}): ProviderConfig {
+  const envProvider = process.env.LLM_PROVIDER || 'openai';
+  if (!isProviderKind(envProvider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${envProvider}". Expected one of: ${PROVIDER_KINDS.join(', ')}`);
+  }
+
+  const provider = overrides.provider || envProvider;
+  const envKeys: Record<ProviderKind, string | undefined> = {
+    openai: process.env.OPENAI_API_KEY,
+    anthropic: process.env.ANTHROPIC_API_KEY,
+    local: process.env.LOCAL_LLM_API_KEY,
+    scripted: undefined,
+  };
+  const envModels: Record<ProviderKind, string | undefined> = {
+    openai: process.env.OPENAI_MODEL,
+    anthropic: process.env.ANTHROPIC_MODEL,
+    local: process.env.LOCAL_LLM_MODEL,
+    scripted: undefined,
+  };
+
+  return {
+    provider,
+    model: overrides.model || envModels[provider],
+    apiKey: overrides.apiKey || envKeys[provider],
+    baseURL: overrides.baseURL || process.env.LOCAL_LLM_BASE_URL,
+    fixtures: overrides.fixtures || process.env.SCRIPTED_FIXTURES,
+  };
+}
+
+/**
+ * Create an LLM provider from a config
+ */
+export function createProvider(config: ProviderConfig): LLMProvider {
+  const model = config.model || DEFAULT_MODELS[config.provider];
+
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider({ model, apiKey: config.apiKey });
+    case 'anthropic':
+      return createAnthropicProvider({ model, apiKey: config.apiKey });
+    case 'local':
+      return createLocalProvider({
+        model,
+        apiKey: config.apiKey,
+        baseURL: config.baseURL || 'http://localhost:11434/v1',
+      });
+    case 'scripted':
+      return createScriptedProvider({ fixtures: config.fixtures || DEFAULT_FIXTURES_PATH });
+  }
+}
+
+/**
+ * Strip markdown code fences that models like to wrap SQL and JSON in
+ */
+export function stripCodeFences(text: string): string {
+  return text
+    .replace(/```(?:sql|json)?\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim();
+}
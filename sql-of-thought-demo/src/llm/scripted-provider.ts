@@ -0,0 +1,90 @@
+/**
+ * Scripted Provider
+ * Deterministic offline backend that replays agent responses from fixture files
+ *
+ * A fixture is a JSON file of the form:
+ *
+ *   {
+ *     "question": "List all customers from USA",
+ *     "responses": {
+ *       "schema_linking": [{ "tables": ["customers"], ... }],
+ *       "sql_generation": ["SELECT * FROM customers WHERE Country = 'USA'"]
+ *     }
+ *   }
+ *
+ * The fixture is chosen by finding its question in the prompt, and each agent's
+ * responses are replayed in order (so correction loops can be scripted too).
+ */
+
+import { readFileSync, readdirSync, statSync } from 'fs';
+import { join } from 'path';
+import type { AgentName, CompletionRequest, CompletionResponse, LLMProvider } from './provider.js';
+
+interface ScriptedFixture {
+  question: string;
+  responses: Partial<Record<AgentName, unknown[]>>;
+}
+
+interface ScriptedProviderOptions {
+  /** Fixture file or directory of fixture files */
+  fixtures: string;
+}
+
+/**
+ * Load one fixture file, or every *.json fixture in a directory
+ */
+export function loadFixtures(fixturesPath: string): ScriptedFixture[] {
+  const files = statSync(fixturesPath).isDirectory()
+    ? readdirSync(fixturesPath)
+        .filter((file) => file.endsWith('.json'))
+        .sort()
+        .map((file) => join(fixturesPath, file))
+    : [fixturesPath];
+
+  return files.map((file) => {
+    const fixture = JSON.parse(readFileSync(file, 'utf-8'));
+    if (typeof fixture.question !== 'string' || typeof fixture.responses !== 'object') {
+      throw new Error(`Invalid fixture ${file}: expected "question" and "responses"`);
+    }
+    return fixture as ScriptedFixture;
+  });
+}
+
+/**
+ * Create a provider that replays fixture responses instead of calling a model
+ */
+export function createScriptedProvider(options: ScriptedProviderOptions): LLMProvider {
+  const fixtures = loadFixtures(options.fixtures);
+  const cursors = new Map<string, number>();
+
+  return {
+    name: 'scripted',
+    model: 'scripted',
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      request.signal?.throwIfAborted();
+
+      // Prefer the longest matching question so "top 5 tracks" doesn't shadow "top 5 tracks in 2012"
+      const fixture = fixtures
+        .filter((f) => request.prompt.includes(f.question))
+        .sort((a, b) => b.question.length - a.question.length)[0];
+
+      if (!fixture) {
+        throw new Error(`No scripted fixture matches the prompt for agent "${request.agent}"`);
+      }
+
+      const responses = fixture.responses[request.agent] || [];
+      const key = `${fixture.question}\u0000${request.agent}`;
+      const index = cursors.get(key) || 0;
+
+      if (index >= responses.length) {
+        throw new Error(
+          `Scripted fixture "${fixture.question}" has no response #${index + 1} for agent "${request.agent}"`
+        );
+      }
+
+      cursors.set(key, index + 1);
+      const response = responses[index];
+      return { content: typeof response === 'string' ? response : JSON.stringify(response) };
+    },
+  };
+}
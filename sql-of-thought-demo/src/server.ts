@@ -1,10 +1,21 @@
 import express from 'express';
 import cors from 'cors';
 import path from 'path';
+import os from 'os';
+import { unlink } from 'fs/promises';
+import { randomUUID } from 'crypto';
 import { fileURLToPath } from 'url';
-import Database from 'duckdb';
 import dotenv from 'dotenv';
-import OpenAI from 'openai';
+import { createProvider, isProviderKind } from './llm/provider.js';
+import { runSqlOfThought, PipelineCancelledError, PipelineEvent } from './engine/sql-of-thought.js';
+import { EXPORT_FORMATS, exportSQL, isExportFormat, pageSQL, toJSONSafeRows, validateSQL } from './tools/sql-executor-tool.js';
+import { getDataSource, listDataSources } from './tools/database-registry.js';
+import { getRun, listRuns } from './history/store.js';
+import { getResultHandle, registerResult } from './history/results.js';
+import { isCandidateStrategy } from './engine/self-consistency.js';
+import { ALLOWED_STATEMENTS, PROMPT_SET, RUN_BUDGET_USD, RUN_TOKEN_BUDGET } from './engine/config.js';
+import { getPromptSet, listPromptSets } from './engine/prompt-templates.js';
+import { Conversation, addTurn, createConversation } from './engine/conversation.js';
 
 dotenv.config();
 
@@ -14,6 +25,16 @@ const __dirname = path.dirname(__filename);
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Local LLM servers a request may pick with baseURL. Anything else would let a
+// client make the server call an arbitrary host, so it comes from the server's
+// own configuration: LOCAL_LLM_BASE_URL plus LOCAL_LLM_ALLOWED_BASE_URLS.
+const normalizeBaseURL = (url: string) => url.trim().replace(/\/+$/, '');
+const ALLOWED_LOCAL_BASE_URLS = new Set(
+  [process.env.LOCAL_LLM_BASE_URL || '', ...(process.env.LOCAL_LLM_ALLOWED_BASE_URLS || '').split(',')]
+    .map(normalizeBaseURL)
+    .filter(Boolean)
+);
+
 // Middleware
 app.use(cors());
 app.use(express.json());
@@ -21,304 +42,204 @@ app.use(express.json());
 // Serve static files from web directory
 app.use(express.static(path.join(__dirname, 'web')));
 
-// Database setup
-const DB_PATH = path.join(__dirname, '../data/chinook.db');
-let dbInstance: Database.Database | null = null;
-let dbInitialized = false;
-
-function getDB() {
-  if (!dbInstance) {
-    dbInstance = new Database.Database(':memory:');
+// Conversation sessions live in memory and expire after SESSION_TTL_MS without a question.
+// Past MAX_SESSIONS, starting one ends the session that has been idle longest.
+const SESSION_TTL_MS = parseInt(process.env.SESSION_TTL_MS || String(60 * 60 * 1000), 10);
+const MAX_SESSIONS = parseInt(process.env.SERVER_MAX_SESSIONS || '1000', 10);
+const sessions = new Map<string, Conversation>();
+
+// Rows sent with the complete event and per result page by default; the UI pages through the rest
+const RESULT_PAGE_SIZE = 100;
+const MAX_RESULT_PAGE_SIZE = 1000;
+
+// Highest values a request may ask for. A request can tighten the query limits
+// but not lift them past these, nor turn them off.
+const MAX_REQUEST_TIMEOUT_MS = parseInt(process.env.SERVER_MAX_TIMEOUT_MS || '120000', 10);
+const MAX_REQUEST_ROWS = parseInt(process.env.SERVER_MAX_ROWS || '100000', 10);
+const MAX_REQUEST_CANDIDATES = parseInt(process.env.SERVER_MAX_CANDIDATES || '10', 10);
+const MAX_REQUEST_PARALLELISM = parseInt(process.env.SERVER_MAX_PARALLELISM || '8', 10);
+const MAX_REQUEST_FEW_SHOT_EXAMPLES = parseInt(process.env.SERVER_MAX_FEW_SHOT_EXAMPLES || '10', 10);
+
+/**
+ * A whole number from the request body, at least min and capped at max
+ */
+function boundedCount(name: string, value: unknown, max: number, min = 1): number | undefined {
+  if (value === undefined) return undefined;
+  const count = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < min) {
+    throw new Error(`${name} must be a ${min > 0 ? 'positive' : 'non-negative'} whole number`);
   }
-  return dbInstance;
-}
-
-async function initDB(): Promise<void> {
-  if (dbInitialized) return;
-
-  const db = getDB();
-  const normalizedPath = DB_PATH.replace(/\\/g, '/');
-
-  return new Promise((resolve, reject) => {
-    db.all(`INSTALL sqlite; LOAD sqlite;`, (err) => {
-      if (err) {
-        reject(err);
-        return;
-      }
-
-      db.all(`ATTACH '${normalizedPath}' AS chinook (TYPE SQLITE);`, (err) => {
-        if (err) {
-          reject(err);
-          return;
-        }
-
-        dbInitialized = true;
-        console.log('✅ Database initialized and attached');
-        resolve();
-      });
-    });
-  });
+  return Math.min(count, max);
 }
 
-// Helper: Execute SQL
-async function executeSQL(sql: string): Promise<any[]> {
-  const db = getDB();
-  return new Promise((resolve, reject) => {
-    db.all(sql, (err, result) => {
-      if (err) reject(err);
-      else resolve(result || []);
-    });
-  });
-}
-
-// Helper: Get schema with foreign key relationships
-async function getSchema(): Promise<any> {
-  await initDB(); // Ensure DB is initialized
-  const db = getDB();
-
-  return new Promise((resolve, reject) => {
-    // Get tables
-    db.all(`
-      SELECT table_name
-      FROM information_schema.tables
-      WHERE table_catalog = 'chinook'
-        AND table_type = 'BASE TABLE'
-      ORDER BY table_name;
-    `, (err, tables: any[]) => {
-      if (err) {
-        reject(err);
-        return;
-      }
-
-      const schema: any = { tables: {}, foreign_keys: [] };
-      let processed = 0;
-
-      if (tables.length === 0) {
-        resolve(schema);
-        return;
-      }
-
-      tables.forEach((table) => {
-        const tableName = table.table_name;
-
-        // Get columns
-        db.all(`
-          SELECT column_name, data_type
-          FROM information_schema.columns
-          WHERE table_catalog = 'chinook'
-            AND table_name = '${tableName}'
-          ORDER BY ordinal_position;
-        `, (err, columns: any[]) => {
-          if (!err && columns) {
-            schema.tables[tableName] = {
-              columns: columns.map(col => ({
-                name: col.column_name,
-                type: col.data_type
-              }))
-            };
-          }
-
-          // Get foreign keys for this table
-          db.all(`
-            SELECT
-              fk.constraint_name,
-              fk.table_name as from_table,
-              kcu1.column_name as from_column,
-              kcu2.table_name as to_table,
-              kcu2.column_name as to_column
-            FROM information_schema.table_constraints fk
-            JOIN information_schema.key_column_usage kcu1
-              ON fk.constraint_name = kcu1.constraint_name
-              AND fk.table_catalog = kcu1.table_catalog
-            JOIN information_schema.referential_constraints rc
-              ON fk.constraint_name = rc.constraint_name
-              AND fk.table_catalog = rc.constraint_catalog
-            JOIN information_schema.key_column_usage kcu2
-              ON rc.unique_constraint_name = kcu2.constraint_name
-              AND rc.unique_constraint_catalog = kcu2.table_catalog
-            WHERE fk.constraint_type = 'FOREIGN KEY'
-              AND fk.table_catalog = 'chinook'
-              AND fk.table_name = '${tableName}';
-          `, (err, fks: any[]) => {
-            if (!err && fks && fks.length > 0) {
-              fks.forEach(fk => {
-                schema.foreign_keys.push({
-                  from_table: fk.from_table,
-                  from_column: fk.from_column,
-                  to_table: fk.to_table,
-                  to_column: fk.to_column
-                });
-              });
-            }
-
-            processed++;
-            if (processed === tables.length) {
-              resolve(schema);
-            }
-          });
-        });
-      });
-    });
-  });
-}
-
-// Helper: Call OpenAI
-async function callOpenAI(prompt: string, model: string, apiKey: string, jsonMode = true): Promise<string> {
-  const openai = new OpenAI({ apiKey });
-
-  const response = await openai.chat.completions.create({
-    model,
-    messages: [{ role: 'user', content: prompt }],
-    temperature: 0.7,
-    ...(jsonMode && { response_format: { type: 'json_object' } })
-  });
-
-  return response.choices[0].message.content || '';
-}
-
-// Agent functions (simplified versions from agent.ts)
-async function schemaLinkingAgent(question: string, schema: any, model: string, apiKey: string) {
-  const prompt = `You are a schema linking expert. Given this database schema and question, identify the relevant tables and columns.
-
-Schema: ${JSON.stringify(schema, null, 2)}
-
-Question: "${question}"
-
-Return ONLY a JSON object with:
-{
-  "tables": ["table1", "table2"],
-  "columns": {"table1": ["col1", "col2"]},
-  "reasoning": "brief explanation"
-}`;
-
-  const response = await callOpenAI(prompt, model, apiKey);
-  return JSON.parse(response);
-}
-
-async function subproblemAgent(question: string, linkedSchema: any, model: string, apiKey: string) {
-  const prompt = `Break down this SQL query into clause-level subproblems.
-
-Question: "${question}"
-Tables: ${linkedSchema.tables.join(', ')}
-
-Return ONLY a JSON object with:
-{
-  "clauses": {
-    "SELECT": "what to select",
-    "FROM": "base table",
-    "WHERE": "filter conditions",
-    ...
+/**
+ * A positive amount from the request body, capped at max
+ */
+function boundedAmount(name: string, value: unknown, max: number): number | undefined {
+  if (value === undefined) return undefined;
+  const amount = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+    throw new Error(`${name} must be a positive number`);
   }
-}`;
-
-  const response = await callOpenAI(prompt, model, apiKey);
-  return JSON.parse(response);
+  return Math.min(amount, max);
 }
 
-async function queryPlanAgent(question: string, linkedSchema: any, subproblems: any, model: string, apiKey: string) {
-  const prompt = `Create a step-by-step query execution plan using Chain-of-Thought reasoning.
-
-Question: "${question}"
-Schema: ${JSON.stringify(linkedSchema)}
-Clauses: ${JSON.stringify(subproblems.clauses)}
-
-Return ONLY a JSON object with:
-{
-  "steps": [
-    {"step_number": 1, "action": "...", "reasoning": "..."}
-  ],
-  "final_strategy": "summary"
-}`;
-
-  const response = await callOpenAI(prompt, model, apiKey);
-  return JSON.parse(response);
+function pruneSessions(): void {
+  const cutoff = Date.now() - SESSION_TTL_MS;
+  for (const [key, session] of sessions) {
+    if (Date.parse(session.updated_at) < cutoff) sessions.delete(key);
+  }
 }
 
-async function sqlGenerationAgent(question: string, queryPlan: any, linkedSchema: any, model: string, apiKey: string) {
-  const prompt = `Generate the exact SQL query based on this plan.
-
-Question: "${question}"
-Plan: ${JSON.stringify(queryPlan)}
-Schema: ${JSON.stringify(linkedSchema)}
-
-Return ONLY the SQL query, no explanations or markdown.`;
-
-  const response = await callOpenAI(prompt, model, apiKey, false);
-  return response.replace(/```sql\n?/g, '').replace(/```\n?/g, '').trim();
+function getSession(id: string): Conversation | undefined {
+  pruneSessions();
+  return sessions.get(id);
 }
 
-async function correctionPlanAgent(question: string, incorrectSQL: string, error: string, linkedSchema: any, model: string, apiKey: string) {
-  // First, let's inspect problematic tables mentioned in the error
-  const db = getDB();
-  let tableInspection = '';
-
-  // Extract table name from error if it mentions a specific table
-  const tableMatch = error.match(/Table "(\w+)" does not have/);
-  if (tableMatch) {
-    const tableName = tableMatch[1];
-
-    // Describe the table to get actual columns
-    const columns = await new Promise<any[]>((resolve, reject) => {
-      db.all(`DESCRIBE chinook.${tableName};`, (err, cols) => {
-        if (err) resolve([]);
-        else resolve(cols || []);
-      });
-    });
-
-    if (columns.length > 0) {
-      tableInspection = `\n\nACTUAL COLUMNS IN ${tableName} TABLE (from DESCRIBE):\n${columns.map(c => `- ${c.column_name} (${c.column_type})`).join('\n')}`;
+function addSession(session: Conversation): void {
+  pruneSessions();
+  while (sessions.size >= MAX_SESSIONS) {
+    let idlest: Conversation | undefined;
+    for (const candidate of sessions.values()) {
+      if (!idlest || Date.parse(candidate.updated_at) < Date.parse(idlest.updated_at)) idlest = candidate;
     }
+    sessions.delete(idlest!.id);
   }
-
-  const prompt = `Analyze this SQL error and provide a correction plan.
-
-Question: "${question}"
-Failed SQL: ${incorrectSQL}
-Error: ${error}
-
-Schema Info: ${JSON.stringify(linkedSchema)}${tableInspection}
-
-ERROR TAXONOMY:
-- schema_link.col_missing: Column doesn't exist in table
-- join.wrong_condition: JOIN uses wrong column names
-- join.table_missing: Missing required JOIN
-- aggregation.wrong_function: Wrong aggregate function
-
-INSTRUCTIONS:
-1. Read the error message carefully - it often tells you the exact column names available
-2. If table inspection is provided above, use those EXACT column names
-3. Check foreign_keys in schema to find correct JOIN conditions
-4. Identify which specific column name is wrong and what it should be
-
-Return ONLY a JSON object with:
-{
-  "error_categories": ["category from taxonomy"],
-  "root_cause": "specific explanation with actual vs expected column names",
-  "correction_plan": {"steps": ["replace column X with column Y", "..."]}
-}`;
-
-  const response = await callOpenAI(prompt, model, apiKey);
-  return JSON.parse(response);
+  sessions.set(session.id, session);
 }
 
-async function correctionSQLAgent(question: string, incorrectSQL: string, correctionPlan: any, linkedSchema: any, model: string, apiKey: string) {
-  const prompt = `Fix the SQL query based on the correction plan.
-
-Question: "${question}"
-Incorrect SQL: ${incorrectSQL}
-Correction Plan: ${JSON.stringify(correctionPlan)}
-Schema: ${JSON.stringify(linkedSchema)}
-
-IMPORTANT: Use the EXACT column names from the schema.
-Return ONLY the corrected SQL query, no explanations.`;
-
-  const response = await callOpenAI(prompt, model, apiKey, false);
-  return response.replace(/```sql\n?/g, '').replace(/```\n?/g, '').trim();
+// Translate engine events into the SSE messages the web UI understands
+function toSSEMessage(event: PipelineEvent): { type: string; data: any } | null {
+  switch (event.type) {
+    case 'stage_start':
+      return { type: 'agent_start', data: { agent: event.stage } };
+    case 'question_rewritten':
+      if (!event.followUp) return null;
+      return {
+        type: 'agent_update',
+        data: { agent: 'schema', output: `Follow-up: "${event.standaloneQuestion}"`, standaloneQuestion: event.standaloneQuestion },
+      };
+    case 'schema_retrieved': {
+      const kept = event.tables.map(({ table, score }) => `${table} (${score.toFixed(2)})`).join(', ');
+      console.log(`Schema retrieval kept ${event.tables.length}/${event.totalTables} tables: ${kept}`);
+      return { type: 'agent_update', data: { agent: 'schema', output: `Candidate tables: ${kept}` } };
+    }
+    case 'schema_linked':
+      return { type: 'agent_complete', data: { agent: 'schema', output: `Tables: ${event.linkedSchema.tables.join(', ')}` } };
+    case 'schema_validated': {
+      if (event.adjustments.length === 0) return null;
+      const changes = event.adjustments.map((adjustment) => `- ${adjustment.message}`).join('\n');
+      return {
+        type: 'agent_update',
+        data: {
+          agent: 'schema',
+          output: `Tables: ${event.linkedSchema.tables.join(', ')}\n\n🩹 Adjusted:\n${changes}`,
+          adjustments: event.adjustments,
+        },
+      };
+    }
+    case 'subproblems_identified':
+      return {
+        type: 'agent_complete',
+        data: { agent: 'subproblem', output: `Clauses: ${Object.keys(event.subproblems.clauses).join(', ')}` },
+      };
+    case 'examples_retrieved': {
+      const shown = event.examples.map(({ example, score }) => `- "${example.question}" (${score.toFixed(2)})`).join('\n');
+      return {
+        type: 'agent_update',
+        data: { agent: 'queryplan', output: `📚 Similar solved questions:\n${shown}`, examples: event.examples },
+      };
+    }
+    case 'query_planned': {
+      const { queryPlan } = event;
+
+      // Format the steps for display
+      const stepsDisplay = queryPlan.steps.map((step) =>
+        `${step.step_number}. ${step.action}\n   → ${step.reasoning}`
+      ).join('\n\n');
+
+      return {
+        type: 'agent_complete',
+        data: {
+          agent: 'queryplan',
+          output: `📋 Chain-of-Thought Plan (${queryPlan.steps.length} steps):\n\n${stepsDisplay}\n\n✅ Strategy: ${queryPlan.final_strategy || 'N/A'}`,
+        },
+      };
+    }
+    case 'candidates_voted': {
+      const { vote } = event;
+      const clusters = vote.clusters.map((cluster) => `${cluster.votes} vote(s): ${cluster.row_count} rows`).join('\n');
+      return {
+        type: 'agent_update',
+        data: {
+          agent: 'sql',
+          output: `🗳️ ${vote.candidates.length} candidates, confidence ${Math.round(vote.confidence * 100)}%\n${clusters}`,
+          vote,
+        },
+      };
+    }
+    case 'sql_generated':
+      return { type: 'agent_complete', data: { agent: 'sql', output: event.sql } };
+    case 'execution_succeeded':
+      return {
+        type: 'agent_complete',
+        data: {
+          agent: 'execute',
+          output: `${event.result.row_count} rows returned${event.result.truncated ? ' (truncated)' : ''}`,
+        },
+      };
+    case 'execution_failed':
+      return { type: 'agent_error', data: { agent: 'execute', error: event.error } };
+    case 'validation_failed':
+      return { type: 'agent_error', data: { agent: 'execute', error: event.error, diagnostics: event.diagnostics } };
+    case 'verification_failed':
+      return { type: 'agent_error', data: { agent: 'execute', error: event.error } };
+    case 'correction_planned':
+      return {
+        type: 'agent_complete',
+        data: {
+          agent: 'correction',
+          output: `Attempt ${event.attempt + 1}: ${event.correctionPlan.error_categories.join(', ') || 'Uncategorized'}\nError: ${event.error}\nPlan: ${event.correctionPlan.root_cause}`,
+        },
+      };
+    case 'sql_corrected':
+      console.log(`Attempt ${event.attempt + 1} - Executing SQL:`, event.sql);
+      return { type: 'agent_update', data: { agent: 'sql', output: `Corrected SQL (Attempt ${event.attempt + 1}):\n${event.sql}` } };
+    case 'budget_exceeded':
+      console.warn(event.error);
+      return { type: 'agent_error', data: { agent: 'correction', error: event.error } };
+    case 'agent_usage':
+      return { type: 'usage', data: { call: event.call, usage: event.usage } };
+    case 'max_attempts_reached':
+      return {
+        type: 'agent_complete',
+        data: { agent: 'correction', output: `Failed after ${event.attempts} attempts. Final error: ${event.error}` },
+      };
+    case 'answer_summarized':
+      return { type: 'answer_summary', data: event.summary };
+    case 'sql_explained':
+      return { type: 'sql_explanation', data: event.explanation };
+    case 'answer_agent_failed':
+      console.warn(`${event.agent} agent failed: ${event.error}`);
+      return { type: 'agent_error', data: { agent: 'answer', error: event.error } };
+    default:
+      return null;
+  }
 }
 
 // API Endpoints - with Server-Sent Events for real-time updates
 app.post('/api/sql-of-thought', async (req, res) => {
   let responseEnded = false;
+  const cancellation = new AbortController();
+
+  // Registered before the pipeline starts so a disconnect cancels LLM calls and
+  // running queries. This listens on res: req emits 'close' as soon as the body is read.
+  res.on('close', () => {
+    if (responseEnded) return;
+    responseEnded = true;
+    cancellation.abort();
+    console.log('Client disconnected from SSE stream');
+  });
 
   const safeEnd = () => {
     if (!responseEnded) {
@@ -332,9 +253,34 @@ app.post('/api/sql-of-thought', async (req, res) => {
   };
 
   try {
-    const { question, model = 'gpt-4o-mini', apiKey } = req.body;
+    const {
+      question,
+      model,
+      apiKey,
+      provider: providerKind = 'openai',
+      baseURL,
+      temperature,
+      candidates,
+      parallelism,
+      candidateStrategy,
+      timeoutMs,
+      maxRows,
+      sessionId,
+      summarize,
+      explain,
+      maxCostUSD,
+      maxTokens,
+      promptSet,
+      fewShotExamples,
+    } = req.body;
+    let { database } = req.body;
+
+    if (!isProviderKind(providerKind)) {
+      return res.status(400).json({ error: `Unknown provider: ${providerKind}` });
+    }
 
-    if (!apiKey) {
+    // Local and scripted backends don't need a key
+    if (!apiKey && (providerKind === 'openai' || providerKind === 'anthropic')) {
       return res.status(400).json({ error: 'API key is required' });
     }
 
@@ -342,6 +288,54 @@ app.post('/api/sql-of-thought', async (req, res) => {
       return res.status(400).json({ error: 'Question is required' });
     }
 
+    if (baseURL !== undefined && (typeof baseURL !== 'string' || !ALLOWED_LOCAL_BASE_URLS.has(normalizeBaseURL(baseURL)))) {
+      return res.status(400).json({ error: 'baseURL is not an allowed local LLM server (see LOCAL_LLM_ALLOWED_BASE_URLS)' });
+    }
+
+    if (candidateStrategy !== undefined && !isCandidateStrategy(candidateStrategy)) {
+      return res.status(400).json({ error: `Unknown candidate strategy: ${candidateStrategy}` });
+    }
+
+    try {
+      if (promptSet !== undefined) getPromptSet(promptSet);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    let limits;
+    try {
+      limits = {
+        candidates: boundedCount('candidates', candidates, MAX_REQUEST_CANDIDATES),
+        candidateParallelism: boundedCount('parallelism', parallelism, MAX_REQUEST_PARALLELISM),
+        queryTimeoutMs: boundedCount('timeoutMs', timeoutMs, MAX_REQUEST_TIMEOUT_MS),
+        maxRows: boundedCount('maxRows', maxRows, MAX_REQUEST_ROWS),
+        // 0 asks for a zero-shot run
+        fewShotExamples: boundedCount('fewShotExamples', fewShotExamples, MAX_REQUEST_FEW_SHOT_EXAMPLES, 0),
+        // A run's budget can only be tighter than RUN_BUDGET_USD and RUN_TOKEN_BUDGET (0 = no limit)
+        budget: {
+          maxCostUSD: boundedAmount('maxCostUSD', maxCostUSD, RUN_BUDGET_USD || Infinity),
+          maxTokens: boundedCount('maxTokens', maxTokens, RUN_TOKEN_BUDGET || Infinity),
+        },
+      };
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const session = sessionId ? getSession(sessionId) : undefined;
+    if (sessionId && !session) {
+      return res.status(404).json({ error: `No session with id ${sessionId}` });
+    }
+
+    try {
+      const source = getDataSource(database ?? session?.database);
+      if (session && source.name !== session.database) {
+        return res.status(400).json({ error: `Session ${sessionId} is on database ${session.database}` });
+      }
+      database = source.name;
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
     // Set up SSE headers
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
@@ -357,118 +351,71 @@ app.post('/api/sql-of-thought', async (req, res) => {
       }
     };
 
-    // Step 1: Schema Linking
-    emit('agent_start', { agent: 'schema' });
-    const schema = await getSchema();
-    const linkedSchema = await schemaLinkingAgent(question, schema, model, apiKey);
-    emit('agent_complete', { agent: 'schema', output: `Tables: ${linkedSchema.tables.join(', ')}` });
-
-    // Step 2: Subproblem
-    emit('agent_start', { agent: 'subproblem' });
-    const subproblems = await subproblemAgent(question, linkedSchema, model, apiKey);
-    emit('agent_complete', { agent: 'subproblem', output: `Clauses: ${Object.keys(subproblems.clauses || {}).join(', ')}` });
-
-    // Step 3: Query Plan
-    emit('agent_start', { agent: 'queryplan' });
-    const queryPlan = await queryPlanAgent(question, linkedSchema, subproblems, model, apiKey);
-
-    // Format the steps for display
-    const stepsDisplay = queryPlan.steps?.map((step: any) =>
-      `${step.step_number}. ${step.action}\n   → ${step.reasoning}`
-    ).join('\n\n') || 'No steps generated';
-
-    emit('agent_complete', {
-      agent: 'queryplan',
-      output: `📋 Chain-of-Thought Plan (${queryPlan.steps?.length || 0} steps):\n\n${stepsDisplay}\n\n✅ Strategy: ${queryPlan.final_strategy || 'N/A'}`
+    const provider = createProvider({
+      provider: providerKind,
+      model,
+      apiKey,
+      baseURL: baseURL ?? process.env.LOCAL_LLM_BASE_URL,
     });
 
-    // Step 4: SQL Generation
-    emit('agent_start', { agent: 'sql' });
-    let generatedSQL = await sqlGenerationAgent(question, queryPlan, linkedSchema, model, apiKey);
-
-    // Add schema prefix (but avoid double prefix)
-    let sqlWithSchema = generatedSQL
-      .replace(/chinook\.chinook\./gi, 'chinook.') // Remove double prefix if exists
-      .replace(/FROM\s+(?!chinook\.)(\w+)/gi, 'FROM chinook.$1') // Add prefix only if not already there
-      .replace(/JOIN\s+(?!chinook\.)(\w+)/gi, 'JOIN chinook.$1');
-    emit('agent_complete', { agent: 'sql', output: sqlWithSchema });
-
-    // Step 5: Execute SQL (with correction loop)
-    let success = false;
-    let attempt = 0;
-    let maxAttempts = 3;
-    let results: any[] = [];
-
-    while (attempt < maxAttempts && !success) {
-      emit('agent_start', { agent: 'execute' });
+    const result = await runSqlOfThought(question, {
+      provider,
+      database,
+      ...(temperature !== undefined && { temperature }),
+      ...(promptSet !== undefined && { promptSet }),
+      ...(limits.candidates !== undefined && { candidates: limits.candidates }),
+      ...(limits.fewShotExamples !== undefined && { fewShotExamples: limits.fewShotExamples }),
+      ...(limits.candidateParallelism !== undefined && { candidateParallelism: limits.candidateParallelism }),
+      ...(candidateStrategy !== undefined && { candidateStrategy }),
+      ...(limits.queryTimeoutMs !== undefined && { queryTimeoutMs: limits.queryTimeoutMs }),
+      ...(limits.maxRows !== undefined && { maxRows: limits.maxRows }),
+      ...(summarize !== undefined && { summarizeAnswer: Boolean(summarize) }),
+      ...(explain !== undefined && { explainSQL: Boolean(explain) }),
+      budget: limits.budget,
+      signal: cancellation.signal,
+      ...(session && { history: session.turns }),
+      onEvent: (event) => {
+        const message = toSSEMessage(event);
+        if (message) emit(message.type, message.data);
+      },
+    });
 
-      try {
-        const db = getDB();
-        results = await new Promise((resolve, reject) => {
-          db.all(sqlWithSchema, (err, rows) => {
-            if (err) reject(err);
-            else resolve(rows || []);
-          });
-        });
-
-        // Convert BigInt to string
-        const cleanResults = results.map(row => {
-          const converted: any = {};
-          for (const [key, value] of Object.entries(row)) {
-            converted[key] = typeof value === 'bigint' ? value.toString() : value;
-          }
-          return converted;
-        });
-
-        emit('agent_complete', { agent: 'execute', output: `${cleanResults.length} rows returned` });
-        success = true;
-        results = cleanResults;
-      } catch (error: any) {
-        emit('agent_error', { agent: 'execute', error: error.message });
-
-        if (attempt < maxAttempts - 1) {
-          emit('agent_start', { agent: 'correction' });
-
-          const correctionPlan = await correctionPlanAgent(question, sqlWithSchema, error.message, linkedSchema, model, apiKey);
-          const correctedSQL = await correctionSQLAgent(question, sqlWithSchema, correctionPlan, linkedSchema, model, apiKey);
-
-          emit('agent_complete', {
-            agent: 'correction',
-            output: `Attempt ${attempt + 2}: ${correctionPlan.error_categories?.join(', ') || 'Analyzing...'}\nError: ${error.message}\nPlan: ${correctionPlan.root_cause || 'Analyzing error...'}`
-          });
-
-          // Fix schema prefix without breaking the corrected SQL
-          sqlWithSchema = correctedSQL
-            .replace(/chinook\.chinook\./gi, 'chinook.')
-            .replace(/FROM\s+(?!chinook\.)(\w+)/gi, 'FROM chinook.$1')
-            .replace(/JOIN\s+(?!chinook\.)(\w+)/gi, 'JOIN chinook.$1');
-
-          emit('agent_update', { agent: 'sql', output: `Corrected SQL (Attempt ${attempt + 2}):\n${sqlWithSchema}` });
-
-          console.log(`Attempt ${attempt + 2} - Executing SQL:`, sqlWithSchema);
-        } else {
-          // Last attempt failed - show final error
-          emit('agent_complete', {
-            agent: 'correction',
-            output: `Failed after ${maxAttempts} attempts. Final error: ${error.message}`
-          });
-        }
-
-        attempt++;
-      }
-    }
+    if (session) addTurn(session, result);
+    const handle = registerResult(result);
 
     // Send final result
     emit('complete', {
-      success,
-      sql: generatedSQL,
-      results,
-      attempts: attempt + 1
+      success: result.success,
+      sessionId: session?.id,
+      standaloneQuestion: result.standaloneQuestion,
+      database: result.database,
+      promptSet: result.promptSet,
+      sql: result.sql,
+      results: toJSONSafeRows((result.result?.result || []).slice(0, RESULT_PAGE_SIZE), result.result?.columns),
+      row_count: result.result?.row_count,
+      columns: result.result?.columns,
+      resultId: handle?.id,
+      truncated: result.result?.truncated,
+      attempts: result.attempts,
+      error: result.error,
+      runId: result.runId,
+      verificationIssues: result.verificationIssues,
+      vote: result.vote,
+      chart: result.chart,
+      answerSummary: result.answerSummary,
+      sqlExplanation: result.sqlExplanation,
+      usage: result.usage,
     });
 
     safeEnd();
 
   } catch (error: any) {
+    // Aborted LLM calls surface as the SDK's own abort errors
+    if (error instanceof PipelineCancelledError || cancellation.signal.aborted) {
+      console.log('Pipeline cancelled after client disconnect');
+      return;
+    }
+
     console.error('Error in pipeline:', error);
     console.error('Stack:', error.stack);
 
@@ -482,12 +429,195 @@ app.post('/api/sql-of-thought', async (req, res) => {
     }
     safeEnd();
   }
+});
 
-  // Handle client disconnect
-  req.on('close', () => {
-    responseEnded = true;
-    console.log('Client disconnected from SSE stream');
-  });
+// Start a conversation; pass its id as sessionId to ask follow-up questions
+app.post('/api/sessions', (req, res) => {
+  try {
+    const session = createConversation(getDataSource(req.body?.database).name);
+    addSession(session);
+    res.status(201).json(session);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// A conversation and its turns: questions, rewritten questions and final SQL
+app.get('/api/sessions/:id', (req, res) => {
+  const session = getSession(req.params.id);
+  if (!session) {
+    return res.status(404).json({ error: `No session with id ${req.params.id}` });
+  }
+  res.json(session);
+});
+
+app.delete('/api/sessions/:id', (req, res) => {
+  if (!sessions.delete(req.params.id)) {
+    return res.status(404).json({ error: `No session with id ${req.params.id}` });
+  }
+  res.status(204).end();
+});
+
+// Registered databases the UI can query
+app.get('/api/databases', (req, res) => {
+  try {
+    const defaultName = getDataSource().name;
+    res.json({
+      databases: listDataSources().map((source) => ({
+        name: source.name,
+        type: source.type,
+        description: source.description,
+        default: source.name === defaultName,
+      })),
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Prompt sets runs can pick with promptSet
+app.get('/api/prompt-sets', (req, res) => {
+  try {
+    res.json({
+      promptSets: listPromptSets().map((id) => {
+        const { description, templates } = getPromptSet(id);
+        // Agents whose template comes from the set itself rather than one it extends
+        const own = Object.values(templates).filter((template) => template.set === id);
+        return { id, description, default: id === PROMPT_SET, agents: own.map((template) => template.agent) };
+      }),
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Run history: most recent first, filterable by database
+app.get('/api/history', async (req, res) => {
+  try {
+    const runs = await listRuns({
+      limit: Math.min(parseInt(req.query.limit, 10) || 20, 200),
+      offset: parseInt(req.query.offset, 10) || 0,
+      database: req.query.database,
+    });
+    res.json({ runs });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Full trace of one run: prompts, responses, SQL attempts, result preview
+app.get('/api/history/:id', async (req, res) => {
+  try {
+    const run = await getRun(req.params.id);
+    if (!run) {
+      return res.status(404).json({ error: `No run with id ${req.params.id}` });
+    }
+    res.json(run);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// A run's result handle and one page of its rows: ?offset=&limit=&sort=Column[:desc]&filter=text
+app.get('/api/results/:id', async (req, res) => {
+  const offset = Math.max(parseInt(req.query.offset, 10) || 0, 0);
+  const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || RESULT_PAGE_SIZE, 1), MAX_RESULT_PAGE_SIZE);
+  const sortParam = typeof req.query.sort === 'string' && req.query.sort ? req.query.sort : undefined;
+  const filter = typeof req.query.filter === 'string' && req.query.filter ? req.query.filter : undefined;
+  const sort = sortParam && {
+    column: sortParam.replace(/:(asc|desc)$/i, ''),
+    descending: /:desc$/i.test(sortParam),
+  };
+
+  try {
+    const handle = await getResultHandle(req.params.id);
+    if (!handle) {
+      return res.status(404).json({ error: `No result with id ${req.params.id}` });
+    }
+    if (sort && handle.columns && !handle.columns.some((column) => column.name === sort.column)) {
+      return res.status(400).json({ error: `Unknown sort column: ${sort.column}` });
+    }
+
+    const page = await pageSQL(
+      handle.sql,
+      getDataSource(handle.database),
+      { offset, limit, ...(sort && { sort }), ...(filter && { filter }) },
+      { allowedStatements: ALLOWED_STATEMENTS }
+    );
+    if (!page.success) {
+      return res.status(500).json({ error: page.error });
+    }
+
+    res.json({
+      ...handle,
+      formats: Object.keys(EXPORT_FORMATS),
+      offset,
+      limit,
+      sort: sortParam,
+      filter,
+      total_rows: page.total_rows,
+      rows: toJSONSafeRows(page.result || [], page.columns),
+      execution_time_ms: page.execution_time_ms,
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Full result as a file: ?format=csv|jsonl|parquet|xlsx (default csv)
+app.get('/api/results/:id/export', async (req, res) => {
+  const format = req.query.format ?? 'csv';
+  if (!isExportFormat(format)) {
+    return res.status(400).json({ error: `Unknown format: ${format}. Expected one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+  }
+
+  let file: string | undefined;
+  try {
+    const handle = await getResultHandle(req.params.id);
+    if (!handle) {
+      return res.status(404).json({ error: `No result with id ${req.params.id}` });
+    }
+
+    const { extension, contentType } = EXPORT_FORMATS[format];
+    file = path.join(os.tmpdir(), `sql-of-thought-${randomUUID()}.${extension}`);
+    const exported = await exportSQL(handle.sql, getDataSource(handle.database), format, file, {
+      allowedStatements: ALLOWED_STATEMENTS,
+    });
+    if (!exported.success) {
+      await unlink(file).catch(() => {});
+      return res.status(500).json({ error: exported.error });
+    }
+
+    const exportedFile = file;
+    res.setHeader('Content-Type', contentType);
+    res.download(exportedFile, `result-${handle.id.slice(0, 8)}.${extension}`, () => {
+      unlink(exportedFile).catch(() => {});
+    });
+  } catch (error: any) {
+    if (file) await unlink(file).catch(() => {});
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Bind a query against a database's catalog with EXPLAIN, without running it
+app.post('/api/validate', async (req, res) => {
+  const { sql, database } = req.body;
+  if (!sql) {
+    return res.status(400).json({ error: 'SQL is required' });
+  }
+
+  let source;
+  try {
+    source = getDataSource(database);
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  try {
+    res.json({ database: source.name, ...(await validateSQL(sql, source, { allowedStatements: ALLOWED_STATEMENTS })) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
 });
 
 // Health check
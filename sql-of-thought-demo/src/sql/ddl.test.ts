@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { parseCreateIndex, parseCreateTable } from './ddl.js';
+
+describe('parseCreateTable', () => {
+  it('reads inline column constraints', () => {
+    const parsed = parseCreateTable(`
+      CREATE TABLE tracks (
+        TrackId INTEGER PRIMARY KEY AUTOINCREMENT,
+        Name NVARCHAR(200) NOT NULL,
+        Isrc TEXT UNIQUE,
+        AlbumId INTEGER REFERENCES albums (AlbumId) ON DELETE CASCADE,
+        GenreId INTEGER REFERENCES genres
+      )`);
+
+    expect(parsed).toEqual({
+      primaryKey: ['TrackId'],
+      uniqueKeys: [['Isrc']],
+      foreignKeys: [
+        { columns: ['AlbumId'], referencedTable: 'albums', referencedColumns: ['AlbumId'] },
+        { columns: ['GenreId'], referencedTable: 'genres', referencedColumns: [] },
+      ],
+    });
+  });
+
+  it('reads composite table-level constraints, named or not', () => {
+    const parsed = parseCreateTable(`
+      CREATE TABLE playlist_track (
+        PlaylistId INTEGER NOT NULL,
+        TrackId INTEGER NOT NULL,
+        Position INTEGER,
+        CONSTRAINT pk_playlist_track PRIMARY KEY (PlaylistId, TrackId),
+        UNIQUE (PlaylistId, Position),
+        CHECK (Position > 0),
+        CONSTRAINT fk_track FOREIGN KEY (TrackId) REFERENCES main.tracks (TrackId),
+        FOREIGN KEY (PlaylistId, Position) REFERENCES playlist_slots (PlaylistId, Slot)
+      )`);
+
+    expect(parsed).toEqual({
+      primaryKey: ['PlaylistId', 'TrackId'],
+      uniqueKeys: [['PlaylistId', 'Position']],
+      foreignKeys: [
+        { columns: ['TrackId'], referencedTable: 'tracks', referencedColumns: ['TrackId'] },
+        {
+          columns: ['PlaylistId', 'Position'],
+          referencedTable: 'playlist_slots',
+          referencedColumns: ['PlaylistId', 'Slot'],
+        },
+      ],
+    });
+  });
+
+  it('unquotes double-quoted and bracketed identifiers', () => {
+    const parsed = parseCreateTable(`
+      CREATE TABLE "Order Details" (
+        "Order ID" INTEGER,
+        [Product ID] INTEGER REFERENCES [Products] ([Product ID]),
+        "Say ""hi""" TEXT UNIQUE,
+        PRIMARY KEY ("Order ID", [Product ID])
+      )`);
+
+    expect(parsed).toEqual({
+      primaryKey: ['Order ID', 'Product ID'],
+      uniqueKeys: [['Say "hi"']],
+      foreignKeys: [{ columns: ['Product ID'], referencedTable: 'Products', referencedColumns: ['Product ID'] }],
+    });
+  });
+
+  it('ignores commas inside types and defaults', () => {
+    const parsed = parseCreateTable(`
+      CREATE TABLE invoices (
+        InvoiceId INTEGER,
+        Total NUMERIC(10, 2) DEFAULT (round(0.0, 2)),
+        PRIMARY KEY (InvoiceId)
+      )`);
+    expect(parsed.primaryKey).toEqual(['InvoiceId']);
+    expect(parsed.uniqueKeys).toEqual([]);
+  });
+
+  it('returns no keys for DDL without a column list', () => {
+    expect(parseCreateTable('CREATE TABLE copy AS SELECT * FROM tracks')).toEqual({
+      primaryKey: [],
+      uniqueKeys: [],
+      foreignKeys: [],
+    });
+  });
+});
+
+describe('parseCreateIndex', () => {
+  it('reads the index name, table, columns and uniqueness', () => {
+    expect(parseCreateIndex('CREATE UNIQUE INDEX IF NOT EXISTS main.ix_email ON customers (Email COLLATE NOCASE)')).toEqual({
+      name: 'ix_email',
+      table: 'customers',
+      columns: ['Email'],
+      unique: true,
+    });
+  });
+
+  it('reads Postgres index definitions', () => {
+    expect(
+      parseCreateIndex('CREATE INDEX "ix Track" ON ONLY public.playlist_track USING btree ("TrackId", "PlaylistId" DESC)')
+    ).toEqual({ name: 'ix Track', table: 'playlist_track', columns: ['TrackId', 'PlaylistId'], unique: false });
+  });
+
+  it('returns null for other statements', () => {
+    expect(parseCreateIndex('CREATE TABLE t (a INTEGER)')).toBeNull();
+    expect(parseCreateIndex('DROP INDEX ix_email')).toBeNull();
+  });
+});
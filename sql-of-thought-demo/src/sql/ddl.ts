@@ -0,0 +1,173 @@
+/**
+ * DDL Parser
+ * Reads keys and references out of CREATE TABLE / CREATE INDEX statements.
+ * Used for sources whose catalog only exposes the original DDL (SQLite) or
+ * index definitions as SQL text (DuckDB, Postgres).
+ */
+
+import { tokenize, Token } from './tokenizer.js';
+
+export interface ParsedForeignKey {
+  columns: string[];
+  referencedTable: string;
+  /** Empty when the DDL omits them, meaning the referenced table's primary key */
+  referencedColumns: string[];
+}
+
+export interface ParsedTable {
+  primaryKey: string[];
+  uniqueKeys: string[][];
+  foreignKeys: ParsedForeignKey[];
+}
+
+export interface ParsedIndex {
+  name: string;
+  table: string;
+  columns: string[];
+  unique: boolean;
+}
+
+function unquote(token: Token): string {
+  if (token.type !== 'quoted_identifier') return token.text;
+  return token.text.startsWith('[') ? token.text.slice(1, -1) : token.text.slice(1, -1).replace(/""/g, '"');
+}
+
+const isPunct = (token: Token | undefined, text: string) => token?.type === 'punctuation' && token.text === text;
+const isWord = (token: Token | undefined, upper: string) => token?.type === 'word' && token.upper === upper;
+const isName = (token: Token | undefined) => token?.type === 'word' || token?.type === 'quoted_identifier';
+
+/**
+ * Split the tokens between a pair of parentheses on top-level commas.
+ * `open` is the index of the opening parenthesis; returns the items and the index after the close.
+ */
+function splitParenthesized(tokens: Token[], open: number): { items: Token[][]; end: number } {
+  const items: Token[][] = [];
+  let current: Token[] = [];
+  let depth = 0;
+  let i = open + 1;
+
+  for (; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (isPunct(token, '(')) depth++;
+    if (isPunct(token, ')')) {
+      if (depth === 0) break;
+      depth--;
+    }
+    if (depth === 0 && isPunct(token, ',')) {
+      items.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+
+  if (current.length > 0) items.push(current);
+  return { items, end: i + 1 };
+}
+
+/**
+ * Column names from a "(a, b DESC, c COLLATE nocase)" list: the first name of each item
+ */
+function columnList(tokens: Token[], open: number): { columns: string[]; end: number } {
+  const { items, end } = splitParenthesized(tokens, open);
+  const columns = items.filter((item) => isName(item[0])).map((item) => unquote(item[0]));
+  return { columns, end };
+}
+
+/**
+ * Skip a dotted name (schema.table) and return its last part
+ */
+function readName(tokens: Token[], start: number): { name: string; end: number } {
+  let i = start;
+  let name = unquote(tokens[i]);
+  while (isPunct(tokens[i + 1], '.') && isName(tokens[i + 2])) {
+    name = unquote(tokens[i + 2]);
+    i += 2;
+  }
+  return { name, end: i + 1 };
+}
+
+/**
+ * REFERENCES table [(cols)] starting at the REFERENCES keyword
+ */
+function readReference(tokens: Token[], start: number): { table: string; columns: string[] } {
+  const { name, end } = readName(tokens, start + 1);
+  return { table: name, columns: isPunct(tokens[end], '(') ? columnList(tokens, end).columns : [] };
+}
+
+/**
+ * Parse the column definitions and table constraints of a CREATE TABLE statement
+ */
+export function parseCreateTable(ddl: string): ParsedTable {
+  const tokens = tokenize(ddl, { bracketIdentifiers: true });
+  const parsed: ParsedTable = { primaryKey: [], uniqueKeys: [], foreignKeys: [] };
+
+  const open = tokens.findIndex((token) => isPunct(token, '('));
+  if (open === -1) return parsed;
+
+  for (let item of splitParenthesized(tokens, open).items) {
+    if (isWord(item[0], 'CONSTRAINT')) item = item.slice(2);
+    if (item.length === 0) continue;
+
+    if (isWord(item[0], 'PRIMARY') && isWord(item[1], 'KEY')) {
+      parsed.primaryKey = columnList(item, 2).columns;
+    } else if (isWord(item[0], 'UNIQUE') && isPunct(item[1], '(')) {
+      parsed.uniqueKeys.push(columnList(item, 1).columns);
+    } else if (isWord(item[0], 'FOREIGN') && isWord(item[1], 'KEY')) {
+      const { columns, end } = columnList(item, 2);
+      if (isWord(item[end], 'REFERENCES')) {
+        const reference = readReference(item, end);
+        parsed.foreignKeys.push({ columns, referencedTable: reference.table, referencedColumns: reference.columns });
+      }
+    } else if (isWord(item[0], 'CHECK')) {
+      continue;
+    } else if (isName(item[0])) {
+      // Column definition with inline constraints
+      const column = unquote(item[0]);
+      for (let i = 1; i < item.length; i++) {
+        if (isWord(item[i], 'PRIMARY') && isWord(item[i + 1], 'KEY')) {
+          parsed.primaryKey = [column];
+        } else if (isWord(item[i], 'UNIQUE')) {
+          parsed.uniqueKeys.push([column]);
+        } else if (isWord(item[i], 'REFERENCES')) {
+          const reference = readReference(item, i);
+          parsed.foreignKeys.push({ columns: [column], referencedTable: reference.table, referencedColumns: reference.columns });
+        }
+      }
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse CREATE [UNIQUE] INDEX [IF NOT EXISTS] name ON table [USING method] (cols).
+ * Returns null for anything else.
+ */
+export function parseCreateIndex(ddl: string): ParsedIndex | null {
+  const tokens = tokenize(ddl, { bracketIdentifiers: true });
+  if (!isWord(tokens[0], 'CREATE')) return null;
+
+  let i = 1;
+  const unique = isWord(tokens[i], 'UNIQUE');
+  if (unique) i++;
+  if (!isWord(tokens[i], 'INDEX')) return null;
+  i++;
+  if (isWord(tokens[i], 'CONCURRENTLY')) i++;
+  if (isWord(tokens[i], 'IF') && isWord(tokens[i + 1], 'NOT') && isWord(tokens[i + 2], 'EXISTS')) i += 3;
+  if (!isName(tokens[i])) return null;
+
+  const index = readName(tokens, i);
+  i = index.end;
+  if (!isWord(tokens[i], 'ON')) return null;
+  i++;
+  if (isWord(tokens[i], 'ONLY')) i++;
+  if (!isName(tokens[i])) return null;
+
+  const table = readName(tokens, i);
+  i = table.end;
+  if (isWord(tokens[i], 'USING')) i += 2;
+  if (!isPunct(tokens[i], '(')) return null;
+
+  return { name: index.name, table: table.name, columns: columnList(tokens, i).columns, unique };
+}
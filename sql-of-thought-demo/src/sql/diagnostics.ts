@@ -0,0 +1,139 @@
+/**
+ * SQL Diagnostics
+ * Turns DuckDB binder, catalog and parser errors into structured diagnostics
+ * with the taxonomy category they correspond to and any suggested names
+ */
+
+import { SQLGuardViolation } from './guard.js';
+
+export type SQLDiagnosticCode =
+  | 'syntax_error'
+  | 'unknown_table'
+  | 'unknown_column'
+  | 'ambiguous_column'
+  | 'unknown_function'
+  | 'type_mismatch'
+  | 'read_only_violation'
+  | 'other';
+
+export interface SQLDiagnostic {
+  code: SQLDiagnosticCode;
+  message: string;
+  /** Table, column or function the error is about */
+  identifier?: string;
+  /** Names DuckDB proposed instead ("Candidate bindings", "Did you mean") */
+  suggestions: string[];
+  /** Matching error taxonomy category, e.g. schema_link.col_missing */
+  category: string;
+}
+
+const CATEGORIES: Record<SQLDiagnosticCode, string> = {
+  syntax_error: 'syntax.sql_syntax_error',
+  unknown_table: 'schema_link.table_missing',
+  unknown_column: 'schema_link.col_missing',
+  ambiguous_column: 'schema_link.ambiguous_col',
+  unknown_function: 'other.unsupported_function',
+  type_mismatch: 'filter.condition_type_mismatch',
+  read_only_violation: 'safety.non_read_only_statement',
+  other: 'other',
+};
+
+const GUARD_CATEGORIES: Partial<Record<SQLGuardViolation['code'], string>> = {
+  empty: 'syntax.sql_syntax_error',
+  parse_error: 'syntax.sql_syntax_error',
+  multiple_statements: 'safety.multiple_statements',
+  forbidden_function: 'safety.file_access',
+  file_reference: 'safety.file_access',
+};
+
+/** First line of a DuckDB error, without the "Binder Error: " style prefix */
+function headline(error: string): string {
+  return error.split('\n')[0].replace(/^\w+ Error:\s*/, '').trim();
+}
+
+function quotedNames(text: string): string[] {
+  return [...text.matchAll(/"([^"]+)"/g)].map((match) => match[1]);
+}
+
+/**
+ * Suggested names from "Candidate bindings: ..." and "Did you mean ..." hints.
+ * Attached-schema prefixes (chinook.tracks) are stripped so the names match
+ * what the agents see.
+ */
+function suggestionsFrom(error: string, tablePrefix?: string): string[] {
+  const hint = error.match(/(?:Candidate bindings|Did you mean)[:\s]+([^\n]*)/i);
+  if (!hint) return [];
+
+  const names = quotedNames(hint[1]).map((name) =>
+    tablePrefix && name.startsWith(`${tablePrefix}.`) ? name.slice(tablePrefix.length + 1) : name
+  );
+  return [...new Set(names)];
+}
+
+function diagnostic(code: SQLDiagnosticCode, error: string, identifier: string | undefined, tablePrefix?: string): SQLDiagnostic {
+  return {
+    code,
+    message: headline(error),
+    ...(identifier && { identifier }),
+    suggestions: suggestionsFrom(error, tablePrefix),
+    category: CATEGORIES[code],
+  };
+}
+
+/**
+ * Classify a DuckDB error message
+ */
+export function parseDuckDBError(error: string, tablePrefix?: string): SQLDiagnostic {
+  const first = error.split('\n')[0];
+  let match: RegExpMatchArray | null;
+
+  if (/^Parser Error/i.test(first)) {
+    return diagnostic('syntax_error', error, undefined, tablePrefix);
+  }
+  if ((match = first.match(/Table with name (\S+) does not exist/i))) {
+    return diagnostic('unknown_table', error, match[1].replace(/!$/, ''), tablePrefix);
+  }
+  if ((match = first.match(/Referenced table "([^"]+)" not found/i))) {
+    return diagnostic('unknown_table', error, match[1], tablePrefix);
+  }
+  if ((match = first.match(/Ambiguous reference to column name "([^"]+)"/i))) {
+    const diag = diagnostic('ambiguous_column', error, match[1], tablePrefix);
+    // DuckDB lists the qualified options inline: (use: "c.CustomerId" or "i.CustomerId")
+    return { ...diag, suggestions: quotedNames(first).slice(1) };
+  }
+  if (
+    (match = first.match(/Referenced column "([^"]+)" not found/i)) ||
+    (match = first.match(/does not have a column named "([^"]+)"/i)) ||
+    (match = first.match(/column "([^"]+)" (?:does not exist|not found)/i))
+  ) {
+    return diagnostic('unknown_column', error, match[1], tablePrefix);
+  }
+  if ((match = first.match(/(?:Scalar|Aggregate|Table) Function with name (\S+) does not exist/i))) {
+    return diagnostic('unknown_function', error, match[1].replace(/!$/, ''), tablePrefix);
+  }
+  if (/No function matches|Cannot compare|Could not convert|Conversion Error|Cannot mix|implicit cast/i.test(first)) {
+    return diagnostic('type_mismatch', error, undefined, tablePrefix);
+  }
+  return diagnostic('other', error, undefined, tablePrefix);
+}
+
+export function guardDiagnostic(violation: SQLGuardViolation, message: string): SQLDiagnostic {
+  return {
+    code: violation.code === 'empty' || violation.code === 'parse_error' ? 'syntax_error' : 'read_only_violation',
+    message,
+    ...(violation.keyword && { identifier: violation.keyword }),
+    suggestions: [],
+    category: GUARD_CATEGORIES[violation.code] ?? CATEGORIES.read_only_violation,
+  };
+}
+
+/**
+ * Diagnostics as an error message for the correction agents
+ */
+export function formatDiagnostics(diagnostics: SQLDiagnostic[]): string {
+  const lines = diagnostics.map((diag) => {
+    const suggestions = diag.suggestions.length > 0 ? ` Did you mean: ${diag.suggestions.join(', ')}?` : '';
+    return `- [${diag.code}, ${diag.category}] ${diag.message}${suggestions}`;
+  });
+  return `Static validation (EXPLAIN) rejected the query before execution:\n${lines.join('\n')}`;
+}
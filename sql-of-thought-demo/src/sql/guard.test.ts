@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { checkReadOnly } from './guard.js';
+
+const violation = (sql: string) => checkReadOnly(sql).violation?.code;
+
+describe('checkReadOnly', () => {
+  it('accepts SELECT and WITH queries', () => {
+    expect(checkReadOnly('SELECT * FROM tracks')).toEqual({ allowed: true, statement_type: 'SELECT' });
+    expect(checkReadOnly('WITH t AS (SELECT 1 AS n) SELECT n FROM t')).toEqual({ allowed: true, statement_type: 'WITH' });
+    expect(checkReadOnly('(SELECT 1) UNION (SELECT 2)').allowed).toBe(true);
+  });
+
+  it('rejects statements that are not read-only', () => {
+    expect(violation('INSERT INTO tracks VALUES (1)')).toBe('statement_not_allowed');
+    expect(violation('SET threads = 1')).toBe('statement_not_allowed');
+    expect(violation("LOAD 'httpfs'")).toBe('statement_not_allowed');
+  });
+
+  it('rejects empty input and several statements', () => {
+    expect(violation('  ')).toBe('empty');
+    expect(violation('SELECT 1; DROP TABLE tracks')).toBe('multiple_statements');
+  });
+
+  it('accepts columns and aliases named after forbidden keywords', () => {
+    expect(checkReadOnly('SELECT set, load FROM equipment').allowed).toBe(true);
+    expect(checkReadOnly('SELECT e.set, COUNT(*) AS copy FROM equipment e GROUP BY e.set').allowed).toBe(true);
+    expect(checkReadOnly('SELECT coalesce(load, 0), (set + 1) FROM equipment WHERE (load) > 2').allowed).toBe(true);
+  });
+
+  it('rejects forbidden keywords at the start of a nested statement', () => {
+    expect(violation('SELECT * FROM (DELETE FROM tracks RETURNING *)')).toBe('forbidden_keyword');
+    expect(violation('WITH t AS (SELECT 1) INSERT INTO tracks SELECT * FROM t')).toBe('forbidden_keyword');
+    expect(violation('WITH t (n) AS (SELECT 1) DELETE FROM tracks')).toBe('forbidden_keyword');
+  });
+
+  it('rejects functions that read files, secrets or the environment', () => {
+    for (const call of [
+      "read_csv('/etc/passwd')",
+      "read_ndjson_auto('/tmp/x.json')",
+      "read_json_objects('/tmp/x.json')",
+      "parquet_metadata('/tmp/x.parquet')",
+      "read_xlsx('/tmp/x.xlsx')",
+      "sqlite_attach('/tmp/x.db')",
+      'duckdb_secrets()',
+    ]) {
+      expect(violation(`SELECT * FROM ${call}`)).toBe('forbidden_function');
+    }
+    expect(violation("SELECT getenv('HOME')")).toBe('forbidden_function');
+  });
+
+  it('rejects reading a file named in FROM but not EXTRACT(... FROM ...)', () => {
+    expect(violation("SELECT * FROM '/etc/passwd'")).toBe('file_reference');
+    expect(checkReadOnly("SELECT EXTRACT(YEAR FROM '2024-01-01'::DATE)").allowed).toBe(true);
+  });
+
+  it('ignores keywords inside strings and quoted identifiers', () => {
+    expect(checkReadOnly(`SELECT 'DROP TABLE tracks' AS "DELETE" FROM tracks`).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Read-only SQL Guard
+ * Rejects anything other than a single read-only statement before it reaches DuckDB
+ */
+
+import { tokenize, splitStatements, SQLTokenizeError } from './tokenizer.js';
+
+export const DEFAULT_ALLOWED_STATEMENTS = ['SELECT', 'WITH'];
+
+/**
+ * Keywords that start a statement with side effects. They reject the query
+ * where a statement can begin: after an opening parenthesis, or as the main
+ * statement after a WITH clause. Elsewhere they are ordinary names, such as a
+ * column called load or set.
+ */
+const FORBIDDEN_KEYWORDS = new Set([
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPSERT', 'TRUNCATE',
+  'CREATE', 'DROP', 'ALTER', 'ATTACH', 'DETACH', 'COPY', 'EXPORT', 'IMPORT',
+  'INSTALL', 'LOAD', 'PRAGMA', 'SET', 'CALL', 'VACUUM', 'CHECKPOINT',
+  'GRANT', 'REVOKE', 'BEGIN', 'COMMIT', 'ROLLBACK', 'PREPARE', 'EXECUTE', 'DEALLOCATE',
+]);
+
+/**
+ * Functions that read files, the environment or secrets, or attach databases.
+ * This only gives the correction loop a clear error: the execution connection
+ * has external access turned off (see restrictExternalAccess), which also
+ * stops any function missing here.
+ */
+const FORBIDDEN_FUNCTIONS = new Set([
+  'READ_CSV', 'READ_CSV_AUTO', 'READ_PARQUET', 'PARQUET_SCAN', 'READ_JSON', 'READ_JSON_AUTO',
+  'READ_JSON_OBJECTS', 'READ_JSON_OBJECTS_AUTO', 'READ_NDJSON', 'READ_NDJSON_AUTO', 'READ_NDJSON_OBJECTS',
+  'READ_TEXT', 'READ_BLOB', 'READ_XLSX', 'GLOB', 'SNIFF_CSV', 'PARQUET_METADATA', 'PARQUET_SCHEMA',
+  'PARQUET_FILE_METADATA', 'PARQUET_KV_METADATA', 'SQLITE_SCAN', 'SQLITE_ATTACH', 'POSTGRES_SCAN',
+  'POSTGRES_ATTACH', 'POSTGRES_QUERY', 'DUCKDB_SECRETS', 'GETENV',
+]);
+
+/**
+ * Functions whose arguments use FROM as a separator, e.g. EXTRACT(YEAR FROM col)
+ */
+export const FROM_ARGUMENT_FUNCTIONS = new Set(['EXTRACT', 'SUBSTRING', 'TRIM', 'POSITION', 'OVERLAY']);
+
+export type SQLGuardViolationCode =
+  | 'empty'
+  | 'parse_error'
+  | 'multiple_statements'
+  | 'statement_not_allowed'
+  | 'forbidden_keyword'
+  | 'forbidden_function'
+  | 'file_reference';
+
+export interface SQLGuardViolation {
+  code: SQLGuardViolationCode;
+  message: string;
+  /** Offending keyword or function, when there is one */
+  keyword?: string;
+}
+
+export interface SQLGuardResult {
+  allowed: boolean;
+  statement_type?: string;
+  violation?: SQLGuardViolation;
+}
+
+export interface SQLGuardOptions {
+  /** Leading statement keywords to accept. Defaults to SELECT and WITH. */
+  allowedStatements?: string[];
+}
+
+function reject(code: SQLGuardViolationCode, message: string, keyword?: string): SQLGuardResult {
+  return { allowed: false, violation: { code, message, ...(keyword && { keyword }) } };
+}
+
+/**
+ * Check that SQL is a single statement of an allowed type
+ */
+export function checkReadOnly(sql: string, options: SQLGuardOptions = {}): SQLGuardResult {
+  const allowed = new Set((options.allowedStatements || DEFAULT_ALLOWED_STATEMENTS).map((s) => s.toUpperCase()));
+
+  let tokens;
+  try {
+    tokens = tokenize(sql);
+  } catch (error) {
+    if (error instanceof SQLTokenizeError) {
+      return reject('parse_error', `${error.message} at position ${error.position}`);
+    }
+    throw error;
+  }
+
+  const statements = splitStatements(tokens);
+  if (statements.length === 0) {
+    return reject('empty', 'The query is empty');
+  }
+  if (statements.length > 1) {
+    return reject(
+      'multiple_statements',
+      `Found ${statements.length} statements; only a single statement may be executed`
+    );
+  }
+
+  const [statement] = statements;
+
+  // A query may open with parentheses, e.g. (SELECT ...) UNION (SELECT ...)
+  const first = statement.find((token) => token.type !== 'punctuation' || token.text !== '(');
+  const statementType = first?.type === 'word' ? first.upper : '';
+
+  if (!allowed.has(statementType)) {
+    return reject(
+      'statement_not_allowed',
+      `${statementType || 'This'} statements are not allowed; only ${[...allowed].join('/')} queries may be executed`,
+      statementType || undefined
+    );
+  }
+
+  // Word that opened each enclosing parenthesis, to tell EXTRACT(x FROM y) from a subquery
+  const parens: string[] = [];
+  // Until the main statement after WITH a, b AS (...) is reached
+  let inWithClause = statementType === 'WITH';
+  let lastClosed: string | undefined;
+
+  for (const [i, token] of statement.entries()) {
+    if (token.type === 'punctuation' && token.text === '(') {
+      const opener = statement[i - 1];
+      parens.push(opener?.type === 'word' ? opener.upper : '');
+    } else if (token.type === 'punctuation' && token.text === ')') {
+      lastClosed = parens.pop();
+    }
+    if (token.type !== 'word') continue;
+
+    // Qualified names such as t.update or schema.copy are column/table names, not keywords
+    const previous = statement[i - 1];
+    if (previous?.type === 'punctuation' && previous.text === '.') continue;
+
+    const next = statement[i + 1];
+    const isCall = next?.type === 'punctuation' && next.text === '(';
+
+    if (isCall && FORBIDDEN_FUNCTIONS.has(token.upper) && !allowed.has(token.upper)) {
+      return reject('forbidden_function', `The ${token.text}() function may not be used in generated queries`, token.upper);
+    }
+
+    // A statement starts after "(" when something follows the keyword, as in
+    // (DELETE FROM t); (load) or (set + 1) are expressions
+    const afterParen = previous?.type === 'punctuation' && previous.text === '(';
+    const startsClause = next !== undefined && next.type !== 'operator' && next.type !== 'punctuation';
+    const afterWithClause =
+      inWithClause && parens.length === 0 && previous?.type === 'punctuation' && previous.text === ')' &&
+      (lastClosed === 'AS' || lastClosed === 'MATERIALIZED');
+    if (afterWithClause) inWithClause = false;
+
+    const atStatementStart = (afterParen && startsClause) || afterWithClause;
+    if (atStatementStart && FORBIDDEN_KEYWORDS.has(token.upper) && !allowed.has(token.upper)) {
+      return reject('forbidden_keyword', `The ${token.upper} keyword is not allowed in a read-only query`, token.upper);
+    }
+
+    // DuckDB reads files named by a string in FROM/JOIN, e.g. FROM '/etc/passwd'
+    const inFromArgument = FROM_ARGUMENT_FUNCTIONS.has(parens[parens.length - 1]);
+    if ((token.upper === 'FROM' || token.upper === 'JOIN') && next?.type === 'string' && !inFromArgument) {
+      return reject('file_reference', `Reading files with ${token.upper} ${next.text} is not allowed`);
+    }
+  }
+
+  return { allowed: true, statement_type: statementType };
+}
+
+/**
+ * Turn a violation into an error message the correction agents can act on
+ */
+export function formatGuardViolation(violation: SQLGuardViolation): string {
+  return `Read-only guard rejected the query (${violation.code}): ${violation.message}. Rewrite it as a single read-only SELECT statement.`;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { asSubquery, buildPageQueries, hasTopLevelOrderBy } from './paging.js';
+
+const COLUMNS = ['Name', 'Total'];
+
+describe('buildPageQueries', () => {
+  it('orders an unordered query by every column', () => {
+    expect(buildPageQueries('SELECT Name, Total FROM invoices', COLUMNS, { offset: 100, limit: 50 })).toEqual({
+      count: 'SELECT COUNT(*) AS total FROM (SELECT Name, Total FROM invoices\n) AS result',
+      page: 'SELECT * FROM (SELECT Name, Total FROM invoices\n) AS result ORDER BY "Name", "Total" LIMIT 50 OFFSET 100',
+    });
+  });
+
+  it("keeps an ordered query's own order", () => {
+    const { page } = buildPageQueries('SELECT Name, Total FROM invoices ORDER BY Total DESC;', COLUMNS, { offset: 0, limit: 10 });
+    expect(page).toBe('SELECT * FROM (SELECT Name, Total FROM invoices ORDER BY Total DESC\n) AS result LIMIT 10 OFFSET 0');
+  });
+
+  it('sorts by the sort column and breaks ties with every column', () => {
+    const { page } = buildPageQueries('SELECT Name, Total FROM invoices ORDER BY Name', COLUMNS, {
+      offset: 0,
+      limit: 10,
+      sort: { column: 'Total', descending: true },
+    });
+    expect(page).toMatch(/ ORDER BY "Total" DESC, "Name", "Total" LIMIT 10 OFFSET 0$/);
+  });
+
+  it('filters every column as text in both the count and the page', () => {
+    const queries = buildPageQueries('SELECT Name, Total FROM invoices', ['Name', 'a "quoted" col'], {
+      offset: 0,
+      limit: 10,
+      filter: "O'Brien",
+    });
+    const where =
+      `WHERE contains(lower(CAST("Name" AS VARCHAR)), 'o''brien')` +
+      ` OR contains(lower(CAST("a ""quoted"" col" AS VARCHAR)), 'o''brien')`;
+    expect(queries.count).toContain(where);
+    expect(queries.page).toContain(where);
+  });
+});
+
+describe('hasTopLevelOrderBy', () => {
+  it('ignores ORDER BY inside windows and subqueries', () => {
+    expect(hasTopLevelOrderBy('SELECT ROW_NUMBER() OVER (ORDER BY Total) FROM invoices')).toBe(false);
+    expect(hasTopLevelOrderBy('SELECT * FROM (SELECT * FROM invoices ORDER BY Total LIMIT 5)')).toBe(false);
+    expect(hasTopLevelOrderBy('WITH t AS (SELECT 1 AS n) SELECT n FROM t ORDER BY n')).toBe(true);
+  });
+
+  it('ignores ORDER BY in strings and comments', () => {
+    expect(hasTopLevelOrderBy("SELECT 'ORDER BY x' AS s -- ORDER BY y\nFROM t")).toBe(false);
+  });
+});
+
+describe('asSubquery', () => {
+  it('drops a trailing semicolon and keeps a trailing comment inside the parentheses', () => {
+    expect(asSubquery('SELECT 1; ')).toBe('(SELECT 1\n)');
+    expect(asSubquery('SELECT 1 -- one')).toBe('(SELECT 1 -- one\n)');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Result Paging
+ * Builds the SQL that filters, sorts and pages a query's result inside
+ * DuckDB, so only one page of rows leaves the database. Every page has a
+ * deterministic order, since LIMIT/OFFSET over an unordered result may return
+ * overlapping or missing rows from one page to the next.
+ */
+
+import { tokenize, Token } from './tokenizer.js';
+
+export interface ResultPageOptions {
+  offset: number;
+  limit: number;
+  /** Column to order the rows by; without it rows keep the query's own order */
+  sort?: { column: string; descending?: boolean };
+  /** Keep only rows where some column contains this text, ignoring case */
+  filter?: string;
+}
+
+export interface PageQueries {
+  /** Counts the rows matching the filter, across all pages */
+  count: string;
+  /** Selects the page's rows */
+  page: string;
+}
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+const quoteLiteral = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+/**
+ * A query as a subquery. The newline keeps a trailing -- comment from
+ * swallowing the closing parenthesis.
+ */
+export function asSubquery(sql: string): string {
+  return `(${sql.trim().replace(/;\s*$/, '')}\n)`;
+}
+
+/**
+ * Whether the query orders its own result, i.e. has ORDER BY outside any parentheses
+ */
+export function hasTopLevelOrderBy(sql: string): boolean {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(sql);
+  } catch {
+    return false;
+  }
+
+  let depth = 0;
+  return tokens.some((token, i) => {
+    if (token.type === 'punctuation' && token.text === '(') depth++;
+    if (token.type === 'punctuation' && token.text === ')') depth--;
+    return depth === 0 && token.upper === 'ORDER' && tokens[i + 1]?.upper === 'BY';
+  });
+}
+
+/**
+ * The count and page queries for one page of a query's result with these columns
+ */
+export function buildPageQueries(sql: string, columns: string[], page: ResultPageOptions): PageQueries {
+  const conditions = page.filter
+    ? columns.map((column) => `contains(lower(CAST(${quoteIdentifier(column)} AS VARCHAR)), ${quoteLiteral(page.filter!.toLowerCase())})`)
+    : [];
+  const from = `FROM ${asSubquery(sql)} AS result${conditions.length > 0 ? ` WHERE ${conditions.join(' OR ')}` : ''}`;
+
+  // The sort column first, then every column to break ties. An ordered query
+  // keeps its own order: DuckDB preserves a subquery's ORDER BY through the
+  // filter and LIMIT/OFFSET.
+  const orderColumns = columns.map(quoteIdentifier);
+  if (page.sort) orderColumns.unshift(`${quoteIdentifier(page.sort.column)} ${page.sort.descending ? 'DESC' : 'ASC'}`);
+  const ordered = orderColumns.length > 0 && (page.sort || !hasTopLevelOrderBy(sql));
+  const orderBy = ordered ? ` ORDER BY ${orderColumns.join(', ')}` : '';
+
+  return {
+    count: `SELECT COUNT(*) AS total ${from}`,
+    page: `SELECT * ${from}${orderBy} LIMIT ${page.limit} OFFSET ${page.offset}`,
+  };
+}
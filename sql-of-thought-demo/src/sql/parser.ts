@@ -0,0 +1,230 @@
+/**
+ * SQL Table Reference Parser
+ * Recursive-descent walk over a SELECT statement's tokens that tracks CTE scopes
+ * and subqueries, and collects the table names used as FROM/JOIN sources.
+ * Only covers what the table qualifier needs, not the full SQL grammar.
+ */
+
+import { tokenize, Token } from './tokenizer.js';
+import { FROM_ARGUMENT_FUNCTIONS } from './guard.js';
+
+export interface TableReference {
+  /** Name parts as written, unquoted: ['chinook', 'tracks'] for chinook.tracks */
+  parts: string[];
+  /** Whether the (single-part) name refers to a CTE visible at this point */
+  isCTE: boolean;
+  /** Offsets of the full dotted name in the SQL text */
+  start: number;
+  end: number;
+}
+
+/**
+ * Words that can follow a FROM source and must not be mistaken for an alias
+ */
+const SOURCE_TERMINATORS = new Set([
+  'WHERE', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH', 'QUALIFY', 'WINDOW',
+  'UNION', 'EXCEPT', 'INTERSECT', 'ON', 'USING', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL',
+  'OUTER', 'CROSS', 'NATURAL', 'POSITIONAL', 'ASOF', 'ANTI', 'SEMI', 'LATERAL', 'PIVOT',
+  'UNPIVOT', 'TABLESAMPLE', 'SAMPLE', 'SELECT', 'FROM', 'WITH', 'AS', 'FOR', 'RETURNING',
+]);
+
+const QUERY_STARTERS = new Set(['SELECT', 'WITH', 'VALUES', 'FROM', 'TABLE']);
+
+function unquote(token: Token): string {
+  return token.type === 'quoted_identifier' ? token.text.slice(1, -1).replace(/""/g, '"') : token.text;
+}
+
+function isPunct(token: Token | undefined, text: string): boolean {
+  return token?.type === 'punctuation' && token.text === text;
+}
+
+function isWord(token: Token | undefined, upper?: string): boolean {
+  return token?.type === 'word' && (upper === undefined || token.upper === upper);
+}
+
+function isIdentifier(token: Token | undefined): token is Token {
+  return token?.type === 'word' || token?.type === 'quoted_identifier';
+}
+
+/**
+ * Find every table reference in FROM and JOIN clauses of a query
+ */
+export function parseTableReferences(sql: string): TableReference[] {
+  const tokens = tokenize(sql);
+  const references: TableReference[] = [];
+  let pos = 0;
+
+  const peek = (offset = 0): Token | undefined => tokens[pos + offset];
+
+  /**
+   * Scan a query (or the body of a parenthesized expression) until the closing
+   * parenthesis that ends it, tracking CTE names defined at this level.
+   */
+  function scanQuery(outerScope: Set<string>, opener = ''): void {
+    const scope = new Set(outerScope);
+
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+
+      if (isPunct(token, ')')) return;
+
+      if (isPunct(token, '(')) {
+        scanParenthesized(scope);
+      } else if (isWord(token, 'WITH')) {
+        pos++;
+        scanWithClause(scope);
+      } else if ((isWord(token, 'FROM') && !FROM_ARGUMENT_FUNCTIONS.has(opener)) || isWord(token, 'JOIN')) {
+        // FROM inside EXTRACT(YEAR FROM col) and friends only separates arguments
+        pos++;
+        scanSourceList(scope, isWord(token, 'FROM'));
+      } else {
+        pos++;
+      }
+    }
+  }
+
+  /**
+   * WITH [RECURSIVE] name [(cols)] AS [[NOT] MATERIALIZED] (query), ...
+   * CTE names go into scope before their bodies are scanned so recursive and
+   * later CTEs can reference them.
+   */
+  function scanWithClause(scope: Set<string>): void {
+    if (isWord(peek(), 'RECURSIVE')) pos++;
+
+    while (isIdentifier(peek())) {
+      scope.add(unquote(tokens[pos]).toLowerCase());
+      pos++;
+
+      if (isPunct(peek(), '(')) skipParenthesized();
+      if (isWord(peek(), 'AS')) pos++;
+      if (isWord(peek(), 'NOT')) pos++;
+      if (isWord(peek(), 'MATERIALIZED')) pos++;
+
+      if (isPunct(peek(), '(')) {
+        pos++;
+        scanQuery(scope);
+        if (isPunct(peek(), ')')) pos++;
+      }
+
+      if (!isPunct(peek(), ',')) break;
+      pos++;
+    }
+  }
+
+  /**
+   * Scan a parenthesized group: a subquery or an expression that may contain one
+   */
+  function scanParenthesized(scope: Set<string>): void {
+    const opener = tokens[pos - 1];
+    pos++;
+    scanQuery(scope, isWord(opener) ? opener.upper : '');
+    if (isPunct(peek(), ')')) pos++;
+  }
+
+  function skipParenthesized(): void {
+    let depth = 0;
+    do {
+      if (isPunct(peek(), '(')) depth++;
+      if (isPunct(peek(), ')')) depth--;
+      pos++;
+    } while (depth > 0 && pos < tokens.length);
+  }
+
+  /**
+   * Parse the source after FROM or JOIN. After FROM, comma-separated sources
+   * (implicit cross joins) are parsed too.
+   */
+  function scanSourceList(scope: Set<string>, allowCommaList: boolean): void {
+    scanSource(scope);
+    while (allowCommaList && isPunct(peek(), ',')) {
+      pos++;
+      scanSource(scope);
+    }
+  }
+
+  function scanSource(scope: Set<string>): void {
+    if (isWord(peek(), 'LATERAL') || isWord(peek(), 'ONLY')) pos++;
+
+    const first = peek();
+
+    if (isPunct(first, '(')) {
+      // Subquery or parenthesized join
+      const next = peek(1);
+      pos++;
+      if (isWord(next) && QUERY_STARTERS.has(next!.upper)) {
+        scanQuery(scope);
+      } else {
+        scanParenthesizedJoin(scope);
+      }
+      if (isPunct(peek(), ')')) pos++;
+      skipAlias();
+      return;
+    }
+
+    if (!isIdentifier(first)) return;
+
+    // Dotted name: table, schema.table or catalog.schema.table
+    const nameTokens = [first];
+    pos++;
+    while (isPunct(peek(), '.') && isIdentifier(peek(1))) {
+      nameTokens.push(peek(1)!);
+      pos += 2;
+    }
+
+    if (isPunct(peek(), '(')) {
+      // Table function such as range(10) or unnest(...): scan its arguments for subqueries
+      scanParenthesized(scope);
+    } else {
+      const parts = nameTokens.map(unquote);
+      references.push({
+        parts,
+        isCTE: parts.length === 1 && scope.has(parts[0].toLowerCase()),
+        start: nameTokens[0].start,
+        end: nameTokens[nameTokens.length - 1].end,
+      });
+    }
+
+    skipAlias();
+  }
+
+  /**
+   * Inside FROM (a JOIN b ON ...): parse sources and nested joins until the closing parenthesis
+   */
+  function scanParenthesizedJoin(scope: Set<string>): void {
+    scanSource(scope);
+    while (pos < tokens.length && !isPunct(peek(), ')')) {
+      const token = peek();
+      if (isWord(token, 'JOIN') || isPunct(token, ',')) {
+        pos++;
+        scanSource(scope);
+      } else if (isPunct(token, '(')) {
+        scanParenthesized(scope);
+      } else {
+        pos++;
+      }
+    }
+  }
+
+  /**
+   * [AS] alias [(column aliases)]
+   */
+  function skipAlias(): void {
+    const token = peek();
+    if (isWord(token, 'AS')) {
+      pos++;
+    } else if (!(token?.type === 'quoted_identifier' || (isWord(token) && !SOURCE_TERMINATORS.has(token!.upper)))) {
+      return;
+    }
+
+    if (isIdentifier(peek())) pos++;
+    if (isPunct(peek(), '(')) skipParenthesized();
+  }
+
+  // A stray closing parenthesis would end the top-level scan early; keep going past it
+  while (pos < tokens.length) {
+    scanQuery(new Set());
+    pos++;
+  }
+
+  return references;
+}
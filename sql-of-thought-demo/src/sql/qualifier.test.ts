@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { parseTableReferences } from './parser.js';
+import { qualifyTableReferences } from './qualifier.js';
+
+const CATALOG = ['tracks', 'albums', 'invoices', 'customers', 'genres'];
+const qualify = (sql: string) => qualifyTableReferences(sql, 'db', CATALOG);
+
+describe('qualifyTableReferences', () => {
+  it('qualifies the tables inside a CTE but not the CTE name', () => {
+    expect(qualify('WITH top AS (SELECT * FROM tracks) SELECT * FROM top JOIN albums a ON a.AlbumId = top.AlbumId')).toBe(
+      'WITH top AS (SELECT * FROM db.tracks) SELECT * FROM top JOIN db.albums a ON a.AlbumId = top.AlbumId'
+    );
+  });
+
+  it('keeps table aliases, with and without AS', () => {
+    expect(qualify('SELECT t.Name FROM tracks AS t JOIN albums al ON al.AlbumId = t.AlbumId')).toBe(
+      'SELECT t.Name FROM db.tracks AS t JOIN db.albums al ON al.AlbumId = t.AlbumId'
+    );
+  });
+
+  it('qualifies tables inside FROM (SELECT ...) and leaves the subquery alias alone', () => {
+    expect(qualify('SELECT x.n FROM (SELECT COUNT(*) AS n FROM tracks) x')).toBe(
+      'SELECT x.n FROM (SELECT COUNT(*) AS n FROM db.tracks) x'
+    );
+  });
+
+  it('does not treat the FROM of EXTRACT(YEAR FROM col) as a table source', () => {
+    expect(qualify('SELECT EXTRACT(YEAR FROM InvoiceDate) AS y FROM invoices')).toBe(
+      'SELECT EXTRACT(YEAR FROM InvoiceDate) AS y FROM db.invoices'
+    );
+  });
+
+  it('qualifies every table of a comma join', () => {
+    expect(qualify('SELECT * FROM customers c, invoices i WHERE c.CustomerId = i.CustomerId')).toBe(
+      'SELECT * FROM db.customers c, db.invoices i WHERE c.CustomerId = i.CustomerId'
+    );
+  });
+
+  it('leaves FROM and JOIN inside string literals alone', () => {
+    expect(qualify("SELECT 'FROM tracks' AS label, Name FROM genres WHERE Name <> 'JOIN albums'")).toBe(
+      "SELECT 'FROM tracks' AS label, Name FROM db.genres WHERE Name <> 'JOIN albums'"
+    );
+  });
+
+  it('leaves qualified names, unknown tables and table functions alone', () => {
+    expect(qualify('SELECT * FROM chinook.tracks')).toBe('SELECT * FROM chinook.tracks');
+    expect(qualify('SELECT * FROM playlists')).toBe('SELECT * FROM playlists');
+    expect(qualify('SELECT * FROM range(10) r')).toBe('SELECT * FROM range(10) r');
+  });
+});
+
+describe('parseTableReferences', () => {
+  it('marks CTE references and keeps the parts of dotted names', () => {
+    const refs = parseTableReferences('WITH top AS (SELECT * FROM tracks) SELECT * FROM top, chinook.albums');
+    expect(refs.map(({ parts, isCTE }) => ({ parts, isCTE }))).toEqual([
+      { parts: ['tracks'], isCTE: false },
+      { parts: ['top'], isCTE: true },
+      { parts: ['chinook', 'albums'], isCTE: false },
+    ]);
+  });
+
+  it('reports the offsets of each name', () => {
+    const sql = 'SELECT * FROM "Tracks" t';
+    const [ref] = parseTableReferences(sql);
+    expect(ref.parts).toEqual(['Tracks']);
+    expect(sql.slice(ref.start, ref.end)).toBe('"Tracks"');
+  });
+});
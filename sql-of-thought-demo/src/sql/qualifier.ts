@@ -0,0 +1,27 @@
+/**
+ * Table Qualifier
+ * Prefixes base-table references with the attached database alias (e.g. chinook.tracks)
+ */
+
+import { parseTableReferences } from './parser.js';
+
+/**
+ * Qualify every unqualified reference to a table that exists in the attached
+ * catalog. CTE names, subquery aliases, table functions, already-qualified
+ * names and anything inside string literals are left untouched.
+ */
+export function qualifyTableReferences(sql: string, schemaAlias: string, catalogTables: string[]): string {
+  const known = new Set(catalogTables.map((table) => table.toLowerCase()));
+
+  const targets = parseTableReferences(sql)
+    .filter((ref) => ref.parts.length === 1 && !ref.isCTE && known.has(ref.parts[0].toLowerCase()))
+    .sort((a, b) => b.start - a.start);
+
+  // Insert from the end so earlier offsets stay valid
+  let qualified = sql;
+  for (const ref of targets) {
+    qualified = `${qualified.slice(0, ref.start)}${schemaAlias}.${qualified.slice(ref.start)}`;
+  }
+
+  return qualified;
+}
@@ -0,0 +1,143 @@
+/**
+ * SQL Tokenizer
+ * Splits SQL text into tokens while respecting strings, quoted identifiers and comments
+ */
+
+export type TokenType = 'word' | 'quoted_identifier' | 'string' | 'number' | 'operator' | 'punctuation';
+
+export interface Token {
+  type: TokenType;
+  /** Raw text as written in the query */
+  text: string;
+  /** Upper-cased text for words, to make keyword checks cheap */
+  upper: string;
+  start: number;
+  end: number;
+}
+
+export class SQLTokenizeError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'SQLTokenizeError';
+  }
+}
+
+const WORD_START = /[A-Za-z_]/;
+const WORD_PART = /[A-Za-z0-9_$]/;
+const DIGIT = /[0-9]/;
+const PUNCTUATION = new Set(['(', ')', ',', ';', '.']);
+const MULTI_CHAR_OPERATORS = ['::', '<=', '>=', '<>', '!=', '||', '->>', '->', '**', '//'];
+
+export interface TokenizeOptions {
+  /** Read [name] as a quoted identifier (SQLite/SQL Server DDL) instead of a list bracket */
+  bracketIdentifiers?: boolean;
+}
+
+/**
+ * Find the end of a quoted section, treating a doubled quote as an escape
+ */
+function readQuoted(sql: string, start: number, quote: string): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  throw new SQLTokenizeError(`Unterminated ${quote === "'" ? 'string literal' : 'quoted identifier'}`, start);
+}
+
+/**
+ * Tokenize SQL. Whitespace and comments are dropped.
+ */
+export function tokenize(sql: string, options: TokenizeOptions = {}): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const push = (type: TokenType, start: number, end: number) => {
+    const text = sql.slice(start, end);
+    tokens.push({ type, text, upper: type === 'word' ? text.toUpperCase() : text, start, end });
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '-' && sql[i + 1] === '-') {
+      const newline = sql.indexOf('\n', i);
+      i = newline === -1 ? sql.length : newline + 1;
+    } else if (ch === '/' && sql[i + 1] === '*') {
+      const close = sql.indexOf('*/', i + 2);
+      if (close === -1) throw new SQLTokenizeError('Unterminated block comment', i);
+      i = close + 2;
+    } else if (ch === "'") {
+      const end = readQuoted(sql, i, "'");
+      push('string', i, end);
+      i = end;
+    } else if (ch === '"') {
+      const end = readQuoted(sql, i, '"');
+      push('quoted_identifier', i, end);
+      i = end;
+    } else if (ch === '[' && options.bracketIdentifiers) {
+      const close = sql.indexOf(']', i + 1);
+      if (close === -1) throw new SQLTokenizeError('Unterminated quoted identifier', i);
+      push('quoted_identifier', i, close + 1);
+      i = close + 1;
+    } else if (ch === '$' && sql[i + 1] === '$') {
+      // Dollar-quoted string: $$...$$
+      const close = sql.indexOf('$$', i + 2);
+      if (close === -1) throw new SQLTokenizeError('Unterminated dollar-quoted string', i);
+      push('string', i, close + 2);
+      i = close + 2;
+    } else if (DIGIT.test(ch) || (ch === '.' && DIGIT.test(sql[i + 1] || ''))) {
+      let end = i + 1;
+      while (end < sql.length && /[0-9._eE]/.test(sql[end])) {
+        // Allow exponent signs like 1e-5
+        if (/[eE]/.test(sql[end]) && /[+-]/.test(sql[end + 1] || '')) end++;
+        end++;
+      }
+      push('number', i, end);
+      i = end;
+    } else if (WORD_START.test(ch)) {
+      let end = i + 1;
+      while (end < sql.length && WORD_PART.test(sql[end])) end++;
+      push('word', i, end);
+      i = end;
+    } else if (PUNCTUATION.has(ch)) {
+      push('punctuation', i, i + 1);
+      i++;
+    } else {
+      const op = MULTI_CHAR_OPERATORS.find((candidate) => sql.startsWith(candidate, i));
+      const end = i + (op ? op.length : 1);
+      push('operator', i, end);
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Split a token stream into statements on top-level semicolons, dropping empty ones
+ */
+export function splitStatements(tokens: Token[]): Token[][] {
+  const statements: Token[][] = [];
+  let current: Token[] = [];
+
+  for (const token of tokens) {
+    if (token.type === 'punctuation' && token.text === ';') {
+      if (current.length > 0) statements.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+
+  if (current.length > 0) statements.push(current);
+  return statements;
+}
@@ -0,0 +1,228 @@
+/**
+ * Database Registry
+ * Named data sources loaded from data/databases.json, and how to attach each to DuckDB
+ */
+
+import Database from 'duckdb';
+import { readFileSync, readdirSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join, resolve, extname, basename } from 'path';
+import { z } from 'zod';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const DATABASES_CONFIG_PATH = process.env.DATABASES_CONFIG || join(__dirname, '../../data/databases.json');
+
+const DataSourceConfigSchema = z.object({
+  type: z.enum(['sqlite', 'duckdb', 'files', 'postgres']),
+  description: z.string().optional(),
+  /** File or directory path, relative to the config file */
+  path: z.string().optional(),
+  /** Postgres connection string */
+  connection: z.string().optional(),
+  /** Env var holding the Postgres connection string, to keep secrets out of the config */
+  connection_env: z.string().optional(),
+  /** Schema inside the attached database (e.g. "public" for Postgres) */
+  schema: z.string().optional(),
+  /** Alias the source is attached under; defaults to the source name */
+  alias: z.string().optional(),
+});
+
+const DatabaseRegistrySchema = z.object({
+  default: z.string(),
+  databases: z.record(DataSourceConfigSchema),
+});
+
+export type DataSourceType = z.infer<typeof DataSourceConfigSchema>['type'];
+
+export interface DataSource {
+  name: string;
+  type: DataSourceType;
+  description?: string;
+  /** Absolute file or directory path (sqlite, duckdb, files) */
+  path?: string;
+  /** Connection string (postgres) */
+  connection?: string;
+  schema?: string;
+  alias: string;
+}
+
+interface DatabaseRegistry {
+  default: string;
+  sources: Map<string, DataSource>;
+}
+
+let cachedRegistry: DatabaseRegistry | null = null;
+
+/**
+ * Load and validate the registry config
+ */
+export function loadDatabaseRegistry(configPath = DATABASES_CONFIG_PATH): DatabaseRegistry {
+  const raw = DatabaseRegistrySchema.parse(JSON.parse(readFileSync(configPath, 'utf-8')));
+  const configDir = dirname(configPath);
+  const sources = new Map<string, DataSource>();
+
+  for (const [name, config] of Object.entries(raw.databases)) {
+    const alias = config.alias || name.replace(/[^A-Za-z0-9_]/g, '_');
+
+    if (config.type === 'postgres') {
+      const connection = config.connection_env ? process.env[config.connection_env] : config.connection;
+      sources.set(name, {
+        name,
+        type: config.type,
+        description: config.description,
+        connection,
+        schema: config.schema || 'public',
+        alias,
+      });
+    } else {
+      if (!config.path) {
+        throw new Error(`Database "${name}" (${config.type}) needs a "path" in ${configPath}`);
+      }
+      sources.set(name, {
+        name,
+        type: config.type,
+        description: config.description,
+        // Convert Windows path to forward slashes for DuckDB
+        path: resolve(configDir, config.path).replace(/\\/g, '/'),
+        schema: config.schema,
+        alias,
+      });
+    }
+  }
+
+  if (!sources.has(raw.default)) {
+    throw new Error(`Default database "${raw.default}" is not defined in ${configPath}`);
+  }
+
+  return { default: raw.default, sources };
+}
+
+function getRegistry(): DatabaseRegistry {
+  if (!cachedRegistry) {
+    cachedRegistry = loadDatabaseRegistry();
+  }
+  return cachedRegistry;
+}
+
+/**
+ * Look up a data source by name, falling back to the registry default
+ */
+export function getDataSource(name?: string): DataSource {
+  const registry = getRegistry();
+  const source = registry.sources.get(name || registry.default);
+  if (!source) {
+    throw new Error(`Unknown database "${name}". Available: ${[...registry.sources.keys()].join(', ')}`);
+  }
+  return source;
+}
+
+export function listDataSources(): DataSource[] {
+  return [...getRegistry().sources.values()];
+}
+
+export function quoteIdentifier(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+export const quoteLiteral = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+/**
+ * Prefix that qualifies a table in this source, e.g. "chinook" or "warehouse.public"
+ */
+export function tablePrefix(source: DataSource): string {
+  return source.schema ? `${source.alias}.${quoteIdentifier(source.schema)}` : source.alias;
+}
+
+/**
+ * Promise wrapper around db.all, with optional ? parameters
+ */
+export function runQuery(db: Database.Database, sql: string, ...params: unknown[]): Promise<any[]> {
+  return new Promise((resolvePromise, reject) => {
+    db.all(sql, ...params, (err: Error | null, rows: any[]) => (err ? reject(err) : resolvePromise(rows || [])));
+  });
+}
+
+/**
+ * SQL that makes the source queryable under its alias
+ */
+function attachStatements(source: DataSource): string[] {
+  switch (source.type) {
+    case 'sqlite':
+      return ['INSTALL sqlite; LOAD sqlite;', `ATTACH ${quoteLiteral(source.path!)} AS ${source.alias} (TYPE SQLITE);`];
+    case 'duckdb':
+      return [`ATTACH ${quoteLiteral(source.path!)} AS ${source.alias} (READ_ONLY);`];
+    case 'postgres':
+      if (!source.connection) {
+        throw new Error(`Database "${source.name}" has no Postgres connection string`);
+      }
+      return [
+        'INSTALL postgres; LOAD postgres;',
+        `ATTACH ${quoteLiteral(source.connection)} AS ${source.alias} (TYPE POSTGRES, READ_ONLY);`,
+      ];
+    case 'files': {
+      // Each Parquet/CSV file in the directory becomes a view named after the file
+      const readers: Record<string, string> = { '.parquet': 'read_parquet', '.csv': 'read_csv_auto' };
+      const views = readdirSync(source.path!)
+        .filter((file) => readers[extname(file).toLowerCase()])
+        .map((file) => {
+          const view = quoteIdentifier(basename(file, extname(file)));
+          const reader = readers[extname(file).toLowerCase()];
+          return `CREATE VIEW ${source.alias}.main.${view} AS SELECT * FROM ${reader}(${quoteLiteral(join(source.path!, file).replace(/\\/g, '/'))});`;
+        });
+      return [`ATTACH ':memory:' AS ${source.alias};`, ...views];
+    }
+  }
+}
+
+/**
+ * Attach a data source to a DuckDB database under its alias
+ */
+export async function attachDataSource(db: Database.Database, source: DataSource): Promise<void> {
+  for (const statement of attachStatements(source)) {
+    await runQuery(db, statement);
+  }
+}
+
+/**
+ * Turn off file, network and extension access on a connection whose source is
+ * attached, so a query can reach nothing but the source and the extra paths
+ * given (such as an export's output file). Locking the configuration keeps a
+ * query from switching access back on. Load any extensions before this.
+ */
+export async function restrictExternalAccess(
+  db: Database.Database,
+  source: DataSource,
+  allowedPaths: string[] = []
+): Promise<void> {
+  const toSlashes = (path: string) => path.replace(/\\/g, '/');
+  const paths = [...(source.type === 'sqlite' || source.type === 'duckdb' ? [source.path!] : []), ...allowedPaths];
+  // Views over a files source read their files on every query
+  const directories = source.type === 'files' ? [source.path!.replace(/\/?$/, '/')] : [];
+  const list = (values: string[]) => `[${values.map((value) => quoteLiteral(toSlashes(value))).join(', ')}]`;
+
+  if (directories.length > 0) await runQuery(db, `SET allowed_directories = ${list(directories)};`);
+  if (paths.length > 0) await runQuery(db, `SET allowed_paths = ${list(paths)};`);
+  await runQuery(db, 'SET enable_external_access = false;');
+  await runQuery(db, 'SET lock_configuration = true;');
+}
+
+/**
+ * SQLite bookkeeping tables (sqlite_sequence, sqlite_stat1, ...) that are not user data
+ */
+export function isInternalTable(name: string): boolean {
+  return name.toLowerCase().startsWith('sqlite_');
+}
+
+/**
+ * List the user tables and views the attached source exposes
+ */
+export async function listAttachedTables(db: Database.Database, source: DataSource): Promise<string[]> {
+  const schemaFilter = source.schema ? ` AND table_schema = ${quoteLiteral(source.schema)}` : '';
+  const rows = await runQuery(
+    db,
+    `SELECT table_name FROM information_schema.tables WHERE table_catalog = ${quoteLiteral(source.alias)}${schemaFilter} ORDER BY table_name;`
+  );
+  return rows.map((row) => row.table_name).filter((name) => !isInternalTable(name));
+}
@@ -0,0 +1,191 @@
+/**
+ * Schema Constraints
+ * Reads primary keys, unique keys, foreign keys and indexes from an attached data source
+ */
+
+import Database from 'duckdb';
+import { parseCreateIndex, parseCreateTable } from '../sql/ddl.js';
+import { DataSource, quoteLiteral, runQuery } from './database-registry.js';
+
+export interface ForeignKey {
+  from_table: string;
+  from_columns: string[];
+  to_table: string;
+  to_columns: string[];
+}
+
+export interface IndexInfo {
+  name: string;
+  columns: string[];
+  unique: boolean;
+}
+
+export interface TableConstraints {
+  primary_key: string[];
+  unique_keys: string[][];
+  indexes: IndexInfo[];
+}
+
+export interface SchemaConstraints {
+  tables: Record<string, TableConstraints>;
+  foreign_keys: ForeignKey[];
+}
+
+/**
+ * SQLite keeps constraints only in the original CREATE statements
+ */
+async function loadSQLiteConstraints(db: Database.Database, source: DataSource, result: SchemaConstraints): Promise<void> {
+  const rows = await runQuery(
+    db,
+    `SELECT type, tbl_name, sql FROM sqlite_scan(${quoteLiteral(source.path!)}, 'sqlite_master') WHERE sql IS NOT NULL;`
+  );
+
+  for (const row of rows) {
+    const table = result.tables[row.tbl_name];
+    if (!table) continue;
+
+    if (row.type === 'table') {
+      const parsed = parseCreateTable(row.sql);
+      table.primary_key = parsed.primaryKey;
+      table.unique_keys = parsed.uniqueKeys;
+      for (const fk of parsed.foreignKeys) {
+        result.foreign_keys.push({
+          from_table: row.tbl_name,
+          from_columns: fk.columns,
+          to_table: fk.referencedTable,
+          to_columns: fk.referencedColumns,
+        });
+      }
+    } else if (row.type === 'index') {
+      const index = parseCreateIndex(row.sql);
+      if (index) table.indexes.push({ name: index.name, columns: index.columns, unique: index.unique });
+    }
+  }
+}
+
+/**
+ * DuckDB files expose constraints and indexes through its catalog functions
+ */
+async function loadDuckDBConstraints(db: Database.Database, source: DataSource, result: SchemaConstraints): Promise<void> {
+  const constraints = await runQuery(
+    db,
+    `SELECT table_name, constraint_type, constraint_column_names, referenced_table, referenced_column_names
+     FROM duckdb_constraints()
+     WHERE database_name = ${quoteLiteral(source.alias)}
+       AND constraint_type IN ('PRIMARY KEY', 'UNIQUE', 'FOREIGN KEY');`
+  );
+
+  for (const row of constraints) {
+    const table = result.tables[row.table_name];
+    if (!table) continue;
+
+    if (row.constraint_type === 'PRIMARY KEY') table.primary_key = row.constraint_column_names;
+    if (row.constraint_type === 'UNIQUE') table.unique_keys.push(row.constraint_column_names);
+    if (row.constraint_type === 'FOREIGN KEY') {
+      result.foreign_keys.push({
+        from_table: row.table_name,
+        from_columns: row.constraint_column_names,
+        to_table: row.referenced_table,
+        to_columns: row.referenced_column_names,
+      });
+    }
+  }
+
+  const indexes = await runQuery(
+    db,
+    `SELECT table_name, sql FROM duckdb_indexes() WHERE database_name = ${quoteLiteral(source.alias)} AND sql IS NOT NULL;`
+  );
+  for (const row of indexes) {
+    const index = parseCreateIndex(row.sql);
+    if (index && result.tables[row.table_name]) {
+      result.tables[row.table_name].indexes.push({ name: index.name, columns: index.columns, unique: index.unique });
+    }
+  }
+}
+
+/**
+ * Postgres: query pg_catalog on the server through postgres_query
+ */
+async function loadPostgresConstraints(db: Database.Database, source: DataSource, result: SchemaConstraints): Promise<void> {
+  const columnNames = (keys: string, relation: string) =>
+    `(SELECT string_agg(a.attname, ',' ORDER BY k.i) FROM unnest(${keys}) WITH ORDINALITY k(attnum, i)
+      JOIN pg_attribute a ON a.attrelid = ${relation} AND a.attnum = k.attnum)`;
+
+  const constraintsQuery = `
+    SELECT rel.relname AS table_name, c.contype, ref.relname AS referenced_table,
+      ${columnNames('c.conkey', 'c.conrelid')} AS columns,
+      ${columnNames('c.confkey', 'c.confrelid')} AS referenced_columns
+    FROM pg_constraint c
+    JOIN pg_class rel ON rel.oid = c.conrelid
+    JOIN pg_namespace ns ON ns.oid = rel.relnamespace
+    LEFT JOIN pg_class ref ON ref.oid = c.confrelid
+    WHERE ns.nspname = ${quoteLiteral(source.schema!)} AND c.contype IN ('p', 'u', 'f')`;
+
+  const constraints = await runQuery(
+    db,
+    `SELECT * FROM postgres_query(${quoteLiteral(source.alias)}, ${quoteLiteral(constraintsQuery)});`
+  );
+
+  for (const row of constraints) {
+    const table = result.tables[row.table_name];
+    if (!table) continue;
+
+    const columns = row.columns ? row.columns.split(',') : [];
+    if (row.contype === 'p') table.primary_key = columns;
+    if (row.contype === 'u') table.unique_keys.push(columns);
+    if (row.contype === 'f') {
+      result.foreign_keys.push({
+        from_table: row.table_name,
+        from_columns: columns,
+        to_table: row.referenced_table,
+        to_columns: row.referenced_columns ? row.referenced_columns.split(',') : [],
+      });
+    }
+  }
+
+  const indexesQuery = `SELECT tablename, indexdef FROM pg_indexes WHERE schemaname = ${quoteLiteral(source.schema!)}`;
+  const indexes = await runQuery(
+    db,
+    `SELECT * FROM postgres_query(${quoteLiteral(source.alias)}, ${quoteLiteral(indexesQuery)});`
+  );
+  for (const row of indexes) {
+    const index = parseCreateIndex(row.indexdef);
+    if (index && result.tables[row.tablename]) {
+      result.tables[row.tablename].indexes.push({ name: index.name, columns: index.columns, unique: index.unique });
+    }
+  }
+}
+
+/**
+ * Load key and index metadata for the given tables of an attached source.
+ * Parquet/CSV sources have no constraints and come back empty.
+ */
+export async function loadSchemaConstraints(
+  db: Database.Database,
+  source: DataSource,
+  tables: string[]
+): Promise<SchemaConstraints> {
+  const result: SchemaConstraints = { tables: {}, foreign_keys: [] };
+  for (const table of tables) {
+    result.tables[table] = { primary_key: [], unique_keys: [], indexes: [] };
+  }
+
+  try {
+    if (source.type === 'sqlite') await loadSQLiteConstraints(db, source, result);
+    if (source.type === 'duckdb') await loadDuckDBConstraints(db, source, result);
+    if (source.type === 'postgres') await loadPostgresConstraints(db, source, result);
+  } catch (error: any) {
+    // Keys improve prompts but aren't required to answer questions
+    console.warn(`  ⚠️  Could not read constraints from ${source.name}: ${error.message}`);
+  }
+
+  // "REFERENCES artists" without columns points at the referenced table's primary key
+  for (const fk of result.foreign_keys) {
+    if (fk.to_columns.length === 0) {
+      fk.to_columns = result.tables[fk.to_table]?.primary_key || [];
+    }
+  }
+  result.foreign_keys = result.foreign_keys.filter((fk) => result.tables[fk.to_table]);
+
+  return result;
+}
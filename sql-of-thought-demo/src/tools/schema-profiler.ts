@@ -0,0 +1,193 @@
+/**
+ * Schema Profiler
+ * Per-column value statistics and sample rows, so agents can see what literal
+ * values and formats look like instead of guessing them. Profiles are cached
+ * on disk per data source and rebuilt when the source file changes.
+ */
+
+import Database from 'duckdb';
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { DataSource, quoteIdentifier, runQuery, tablePrefix } from './database-registry.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const PROFILE_CACHE_DIR = process.env.PROFILE_CACHE_DIR || join(__dirname, '../../data/cache/profiles');
+
+/** Text columns with at most this many distinct values get a top-values list */
+export const LOW_CARDINALITY_LIMIT = 50;
+export const TOP_VALUES = 10;
+export const SAMPLE_ROWS = 3;
+/** Longest value kept in min/max, top values and sample rows */
+const MAX_VALUE_LENGTH = 60;
+
+/** Sources without a file to fingerprint (Postgres) are re-profiled after this long */
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface ColumnProfile {
+  distinct_count: number;
+  null_ratio: number;
+  min?: string;
+  max?: string;
+  top_values?: { value: string; count: number }[];
+}
+
+export interface TableProfile {
+  row_count: number;
+  columns: Record<string, ColumnProfile>;
+  sample_rows: Record<string, string | null>[];
+}
+
+export type SchemaProfile = Record<string, TableProfile>;
+
+interface ProfileCacheEntry {
+  fingerprint: string;
+  profiled_at: number;
+  tables: SchemaProfile;
+}
+
+/** Column as described by DESCRIBE; only the fields the profiler needs */
+interface ProfiledColumn {
+  name: string;
+  type: string;
+}
+
+const memoryCache = new Map<string, ProfileCacheEntry>();
+
+const isTextType = (type: string) => /CHAR|TEXT|STRING/i.test(type);
+const isOrderedType = (type: string) => /INT|DEC|NUMERIC|FLOAT|DOUBLE|REAL|DATE|TIME|CHAR|TEXT|STRING/i.test(type);
+
+/**
+ * Render a value the way it would be written in a query, shortened for prompts
+ */
+function displayValue(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  let text: string;
+  if (value instanceof Date) text = value.toISOString();
+  else if (Buffer.isBuffer(value)) text = `<${value.length} bytes>`;
+  else if (typeof value === 'object') text = JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v));
+  else text = String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+/**
+ * Identify the current contents of a source, so a changed file invalidates its profile
+ */
+function sourceFingerprint(source: DataSource): string {
+  if (!source.path || !existsSync(source.path)) return '';
+  const stats = statSync(source.path);
+  return `${stats.size}:${stats.mtimeMs}`;
+}
+
+function cachePath(source: DataSource): string {
+  return join(PROFILE_CACHE_DIR, `${source.name}.json`);
+}
+
+function readCache(source: DataSource, fingerprint: string): SchemaProfile | null {
+  let entry = memoryCache.get(source.name);
+  if (!entry && existsSync(cachePath(source))) {
+    try {
+      entry = JSON.parse(readFileSync(cachePath(source), 'utf-8')) as ProfileCacheEntry;
+    } catch {
+      return null;
+    }
+  }
+  if (!entry || entry.fingerprint !== fingerprint) return null;
+  if (!fingerprint && Date.now() - entry.profiled_at > CACHE_TTL_MS) return null;
+
+  memoryCache.set(source.name, entry);
+  return entry.tables;
+}
+
+function writeCache(source: DataSource, entry: ProfileCacheEntry): void {
+  memoryCache.set(source.name, entry);
+  try {
+    mkdirSync(PROFILE_CACHE_DIR, { recursive: true });
+    writeFileSync(cachePath(source), JSON.stringify(entry, null, 2));
+  } catch (error: any) {
+    console.warn(`  ⚠️  Could not write profile cache: ${error.message}`);
+  }
+}
+
+/**
+ * Profile one table: one aggregate query for all columns, then top values for
+ * low-cardinality text columns and a few sample rows
+ */
+async function profileTable(db: Database.Database, table: string, columns: ProfiledColumn[]): Promise<TableProfile> {
+  const aggregates = columns.flatMap((column, i) => {
+    const col = quoteIdentifier(column.name);
+    const parts = [`COUNT(DISTINCT ${col}) AS d${i}`, `COUNT(${col}) AS n${i}`];
+    if (isOrderedType(column.type)) {
+      parts.push(`MIN(${col})::VARCHAR AS min${i}`, `MAX(${col})::VARCHAR AS max${i}`);
+    }
+    return parts;
+  });
+  const [stats] = await runQuery(db, `SELECT COUNT(*) AS row_count, ${aggregates.join(', ')} FROM ${table};`);
+
+  const rowCount = Number(stats.row_count);
+  const profile: TableProfile = { row_count: rowCount, columns: {}, sample_rows: [] };
+
+  for (const [i, column] of columns.entries()) {
+    const columnProfile: ColumnProfile = {
+      distinct_count: Number(stats[`d${i}`]),
+      null_ratio: rowCount === 0 ? 0 : (rowCount - Number(stats[`n${i}`])) / rowCount,
+    };
+    if (stats[`min${i}`] !== undefined && stats[`min${i}`] !== null) {
+      columnProfile.min = displayValue(stats[`min${i}`])!;
+      columnProfile.max = displayValue(stats[`max${i}`])!;
+    }
+
+    if (isTextType(column.type) && columnProfile.distinct_count > 0 && columnProfile.distinct_count <= LOW_CARDINALITY_LIMIT) {
+      const col = quoteIdentifier(column.name);
+      const rows = await runQuery(
+        db,
+        `SELECT ${col}::VARCHAR AS value, COUNT(*) AS count FROM ${table} WHERE ${col} IS NOT NULL
+         GROUP BY 1 ORDER BY count DESC, value LIMIT ${TOP_VALUES};`
+      );
+      columnProfile.top_values = rows.map((row) => ({ value: displayValue(row.value)!, count: Number(row.count) }));
+    }
+
+    profile.columns[column.name] = columnProfile;
+  }
+
+  const samples = await runQuery(db, `SELECT * FROM ${table} LIMIT ${SAMPLE_ROWS};`);
+  profile.sample_rows = samples.map((row) =>
+    Object.fromEntries(Object.entries(row).map(([key, value]) => [key, displayValue(value)]))
+  );
+
+  return profile;
+}
+
+/**
+ * Profile every table of an attached source, reusing the cached profile when
+ * the source hasn't changed
+ */
+export async function profileSchema(
+  db: Database.Database,
+  source: DataSource,
+  tables: Record<string, { columns: ProfiledColumn[] }>
+): Promise<SchemaProfile> {
+  const fingerprint = sourceFingerprint(source);
+  const cached = readCache(source, fingerprint);
+  if (cached && Object.keys(tables).every((table) => cached[table])) {
+    return cached;
+  }
+
+  console.error(`  Profiling column values in ${source.name}...`);
+  const prefix = tablePrefix(source);
+  const profile: SchemaProfile = {};
+
+  for (const [table, info] of Object.entries(tables)) {
+    try {
+      profile[table] = await profileTable(db, `${prefix}.${quoteIdentifier(table)}`, info.columns);
+    } catch (error: any) {
+      // A table that can't be profiled (e.g. unreadable file) still gets its columns in the prompt
+      console.warn(`  ⚠️  Could not profile ${table}: ${error.message}`);
+    }
+  }
+
+  writeCache(source, { fingerprint, profiled_at: Date.now(), tables: profile });
+  return profile;
+}
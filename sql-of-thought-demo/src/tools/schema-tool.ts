@@ -5,137 +5,271 @@
 
 import Database from 'duckdb';
 import { z } from 'zod';
+import {
+  DataSource,
+  attachDataSource,
+  getDataSource,
+  listAttachedTables,
+  quoteIdentifier,
+  runQuery,
+  tablePrefix,
+} from './database-registry.js';
+import { ForeignKey, IndexInfo, loadSchemaConstraints } from './schema-constraints.js';
+import { profileSchema, TableProfile } from './schema-profiler.js';
 
 const SchemaLinkingInputSchema = z.object({
   question: z.string().describe('The natural language question'),
-  db_path: z.string().describe('Path to the database file'),
+  database: z.string().optional().describe('Name of a registered data source (defaults to the registry default)'),
 });
 
-const SchemaLinkingOutputSchema = z.object({
-  tables: z.array(z.string()),
+export const SchemaLinkingOutputSchema = z.object({
+  tables: z.array(z.string()).min(1),
   columns: z.record(z.array(z.string())),
-  foreign_keys: z.array(
-    z.object({
-      from: z.string(),
-      to: z.string(),
-    })
-  ),
-  reasoning: z.string(),
+  foreign_keys: z
+    .array(
+      z.object({
+        from: z.string(),
+        to: z.string(),
+      })
+    )
+    .default([]),
+  reasoning: z.string().default(''),
 });
 
 export type SchemaLinkingInput = z.infer<typeof SchemaLinkingInputSchema>;
 export type SchemaLinkingOutput = z.infer<typeof SchemaLinkingOutputSchema>;
 
+export interface ColumnInfo {
+  name: string;
+  type: string;
+  nullable: boolean;
+  primary_key: boolean;
+  /** Covered by a single-column unique constraint */
+  unique: boolean;
+}
+
+export interface TableInfo {
+  columns: ColumnInfo[];
+  /** Empty when the table has no primary key; several columns for composite keys */
+  primary_key: string[];
+  unique_keys: string[][];
+  indexes: IndexInfo[];
+  /** Value statistics and sample rows, when the schema was loaded with profiling */
+  profile?: TableProfile;
+}
+
+export interface DatabaseSchema {
+  tables: Record<string, TableInfo>;
+  foreign_keys: ForeignKey[];
+}
+
+export interface SchemaLoadOptions {
+  /** Collect (or reuse cached) column value profiles and sample rows */
+  profile?: boolean;
+}
+
 /**
- * Extract complete schema from SQLite database using DuckDB
+ * Extract complete schema from a registered data source using DuckDB
  */
-export async function getCompleteSchema(dbPath: string): Promise<any> {
+export async function getCompleteSchema(source: DataSource, options: SchemaLoadOptions = {}): Promise<DatabaseSchema> {
   const db = new Database.Database(':memory:');
+  const schema: DatabaseSchema = {
+    tables: {},
+    foreign_keys: [],
+  };
 
-  return new Promise((resolve, reject) => {
-    const schema: any = {
-      tables: {},
-      foreign_keys: [],
-    };
+  try {
+    // Progress goes to stderr, since stdout may carry --json or CSV output
+    console.error(`  Loading schema from: ${source.name} (${source.type})`);
+    await attachDataSource(db, source);
+
+    const tables = await listAttachedTables(db, source);
+    console.error('  Found tables:', tables);
+
+    const constraints = await loadSchemaConstraints(db, source, tables);
+    schema.foreign_keys = constraints.foreign_keys;
 
-    // Convert Windows path to forward slashes for DuckDB
-    const normalizedPath = dbPath.replace(/\\/g, '/');
-    console.log('  Loading schema from:', normalizedPath);
+    const prefix = tablePrefix(source);
+    for (const tableName of tables) {
+      // Get column information using DESCRIBE (works with every attached source type)
+      const columns = await runQuery(db, `DESCRIBE ${prefix}.${quoteIdentifier(tableName)};`);
+      const { primary_key, unique_keys, indexes } = constraints.tables[tableName];
 
-    // Install and load SQLite extension
-    db.all(`INSTALL sqlite; LOAD sqlite;`, (err) => {
-      if (err) {
-        reject(err);
-        return;
+      schema.tables[tableName] = {
+        columns: columns.map((col: any) => ({
+          name: col.column_name,
+          type: col.column_type,
+          nullable: col.null === 'YES',
+          primary_key: primary_key.includes(col.column_name),
+          unique: unique_keys.some((key) => key.length === 1 && key[0] === col.column_name),
+        })),
+        primary_key,
+        unique_keys,
+        indexes,
+      };
+    }
+
+    if (options.profile) {
+      const profile = await profileSchema(db, source, schema.tables);
+      for (const [tableName, tableInfo] of Object.entries(schema.tables)) {
+        tableInfo.profile = profile[tableName];
       }
+    }
 
-      // Attach SQLite database
-      db.all(`ATTACH '${normalizedPath}' AS chinook (TYPE SQLITE);`, (err) => {
-        if (err) {
-          console.error('  Failed to attach database:', err.message);
-          reject(err);
-          return;
-        }
-
-        // Use SHOW TABLES to get table list from attached database
-        db.all(`SHOW TABLES FROM chinook;`, (err, tables: any[]) => {
-          if (err) {
-            console.error('  Failed to query tables:', err.message);
-          }
-          console.log('  Found tables:', tables);
-          if (err) {
-            reject(err);
-            return;
-          }
-
-          const tablePromises = tables.map((table) => {
-            return new Promise<void>((resolveTable, rejectTable) => {
-              // SHOW TABLES returns 'name' column
-              const tableName = table.name || table.table_name || table;
-
-              // Get column information using DESCRIBE (works with attached SQLite)
-              db.all(`DESCRIBE chinook.${tableName};`, (err, columns: any[]) => {
-                if (err) {
-                  console.error(`  Failed to describe ${tableName}:`, err.message);
-                  rejectTable(err);
-                  return;
-                }
-
-                schema.tables[tableName] = {
-                  columns: columns.map((col: any) => ({
-                    name: col.column_name,
-                    type: col.column_type,
-                    nullable: col.null === 'YES',
-                    primary_key: col.column_name.toLowerCase().includes('id') && columns.indexOf(col) === 0, // Heuristic
-                  })),
-                };
-
-                resolveTable();
-              });
-            });
-          });
-
-          Promise.all(tablePromises)
-            .then(() => {
-              // Get primary keys and foreign keys
-              db.all(`DESCRIBE chinook;`, (err, allTables: any[]) => {
-                db.close();
-                resolve(schema);
-              });
-            })
-            .catch(reject);
-        });
-      });
-    });
-  });
+    return schema;
+  } finally {
+    db.close();
+  }
 }
 
+const formatKey = (table: string, columns: string[]) =>
+  columns.length === 1 ? `${table}.${columns[0]}` : `${table}(${columns.join(', ')})`;
+
 /**
- * Format schema for LLM prompt
+ * "tracks.AlbumId -> albums.AlbumId", or "t(a, b) -> u(c, d)" for composite keys
+ */
+export function formatForeignKey(fk: ForeignKey): string {
+  return `${formatKey(fk.from_table, fk.from_columns)} -> ${formatKey(fk.to_table, fk.to_columns)}`;
+}
+
+export interface SchemaFormatOptions {
+  /**
+   * Approximate token budget for the prompt. Tables, columns and keys are always
+   * included; column value profiles and then sample rows are added while they fit.
+   */
+  tokenBudget?: number;
+}
+
+/** Rough token count (about four characters per token), good enough for budgeting */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const quoteValue = (value: string, type: string) => (/CHAR|TEXT|STRING|DATE|TIME/i.test(type) ? `'${value}'` : value);
+
+function formatTableStructure(tableName: string, tableInfo: TableInfo, foreignKeys: ForeignKey[]): string {
+  let output = `## Table: ${tableName}\n`;
+  output += 'Columns:\n';
+
+  // A composite key is listed below the columns instead of on each of them
+  const singlePK = tableInfo.primary_key.length === 1;
+
+  for (const col of tableInfo.columns) {
+    const pkMarker = col.primary_key && singlePK ? ' [PRIMARY KEY]' : '';
+    const uniqueMarker = col.unique && !col.primary_key ? ' [UNIQUE]' : '';
+    const nullMarker = col.nullable ? '' : ' NOT NULL';
+    const fk = foreignKeys.find(
+      (key) => key.from_table === tableName && key.from_columns.length === 1 && key.from_columns[0] === col.name
+    );
+    const fkMarker = fk ? ` [FK -> ${formatKey(fk.to_table, fk.to_columns)}]` : '';
+    output += `  - ${col.name}: ${col.type}${pkMarker}${uniqueMarker}${fkMarker}${nullMarker}\n`;
+  }
+
+  if (tableInfo.primary_key.length > 1) {
+    output += `Primary key: (${tableInfo.primary_key.join(', ')})\n`;
+  }
+  for (const key of tableInfo.unique_keys.filter((key) => key.length > 1)) {
+    output += `Unique: (${key.join(', ')})\n`;
+  }
+  if (tableInfo.indexes.length > 0) {
+    const indexes = tableInfo.indexes.map(
+      (index) => `${index.name} (${index.columns.join(', ')})${index.unique ? ' UNIQUE' : ''}`
+    );
+    output += `Indexes: ${indexes.join(', ')}\n`;
+  }
+
+  return output;
+}
+
+/**
+ * "Country: 24 distinct, values 'USA' (13), 'Canada' (8), ..." for each profiled column
  */
-export function formatSchemaForPrompt(schema: any): string {
-  let output = '# Database Schema\n\n';
+function formatColumnValues(tableInfo: TableInfo): string {
+  if (!tableInfo.profile) return '';
 
-  for (const [tableName, tableInfo] of Object.entries(schema.tables) as [string, any][]) {
-    output += `## Table: ${tableName}\n`;
-    output += 'Columns:\n';
+  const lines = tableInfo.columns.flatMap((col) => {
+    const stats = tableInfo.profile!.columns[col.name];
+    if (!stats) return [];
 
-    for (const col of tableInfo.columns) {
-      const pkMarker = col.primary_key ? ' [PRIMARY KEY]' : '';
-      const nullMarker = col.nullable ? '' : ' NOT NULL';
-      output += `  - ${col.name}: ${col.type}${pkMarker}${nullMarker}\n`;
+    const parts = [`${stats.distinct_count} distinct`];
+    if (stats.null_ratio > 0) parts.push(`${Math.round(stats.null_ratio * 100)}% null`);
+    if (stats.top_values) {
+      const values = stats.top_values.map((top) => `${quoteValue(top.value, col.type)} (${top.count})`);
+      parts.push(`values ${values.join(', ')}${stats.distinct_count > stats.top_values.length ? ', ...' : ''}`);
+    } else if (stats.min !== undefined && stats.max !== undefined) {
+      parts.push(`range ${quoteValue(stats.min, col.type)} .. ${quoteValue(stats.max, col.type)}`);
     }
+    return [`  - ${col.name}: ${parts.join(', ')}\n`];
+  });
 
-    output += '\n';
+  return lines.length > 0 ? `Column values (${tableInfo.profile.row_count} rows):\n${lines.join('')}` : '';
+}
+
+function formatSampleRows(tableInfo: TableInfo): string {
+  const rows = tableInfo.profile?.sample_rows || [];
+  if (rows.length === 0) return '';
+  return `Sample rows:\n${rows.map((row) => `  ${JSON.stringify(row)}\n`).join('')}`;
+}
+
+/**
+ * Add value profiles, then sample rows, to each table's section while they fit in the budget
+ */
+function fillProfileSections(tables: TableInfo[], remainingTokens: number): string[] {
+  const sections = tables.map(() => '');
+  let remaining = remainingTokens;
+
+  for (const format of [formatColumnValues, formatSampleRows]) {
+    for (const [i, tableInfo] of tables.entries()) {
+      const text = format(tableInfo);
+      const cost = estimateTokens(text);
+      if (text && cost <= remaining) {
+        sections[i] += text;
+        remaining -= cost;
+      }
+    }
   }
 
+  return sections;
+}
+
+/**
+ * Format schema for LLM prompt
+ */
+export function formatSchemaForPrompt(schema: DatabaseSchema, options: SchemaFormatOptions = {}): string {
+  const tables = Object.entries(schema.tables);
+  const structure = tables.map(([tableName, tableInfo]) => formatTableStructure(tableName, tableInfo, schema.foreign_keys));
+
+  let relationships = '';
   if (schema.foreign_keys.length > 0) {
-    output += '## Foreign Key Relationships\n';
+    relationships += '## Foreign Key Relationships\n';
     for (const fk of schema.foreign_keys) {
-      output += `  - ${fk.from} -> ${fk.to}\n`;
+      relationships += `  - ${formatForeignKey(fk)}\n`;
     }
   }
 
+  const header = '# Database Schema\n\n';
+  const budget = options.tokenBudget ?? Infinity;
+  const profiles = fillProfileSections(
+    tables.map(([, tableInfo]) => tableInfo),
+    budget - estimateTokens(header + structure.join('\n') + relationships)
+  );
+
+  return header + structure.map((section, i) => `${section}${profiles[i]}\n`).join('') + relationships;
+}
+
+/**
+ * Value profiles for a subset of tables, e.g. the linked ones in a correction prompt
+ */
+export function formatColumnValueHints(schema: DatabaseSchema, tableNames: string[], tokenBudget = Infinity): string {
+  const tables = tableNames.filter((name) => schema.tables[name]?.profile);
+  let remaining = tokenBudget;
+  let output = '';
+
+  for (const name of tables) {
+    const section = `### ${name}\n${formatColumnValues(schema.tables[name])}`;
+    if (estimateTokens(section) > remaining) continue;
+    output += section;
+    remaining -= estimateTokens(section);
+  }
+
   return output;
 }
 
@@ -150,7 +284,7 @@ export const schemaLinkingTool = {
     // This would be called by LLM with structured reasoning
     // The actual schema linking logic would be done by the LLM
     // This tool provides the schema information
-    const schema = await getCompleteSchema(input.db_path);
+    const schema = await getCompleteSchema(getDataSource(input.database));
 
     // Return placeholder - actual linking done by LLM
     return {
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { exportFormatForPath, toJSONSafeRows, toJSONValue } from './sql-executor-tool.js';
+
+describe('toJSONValue', () => {
+  it('turns BIGINTs into numbers while a double holds them exactly', () => {
+    expect(toJSONValue(BigInt(3503))).toBe(3503);
+    expect(toJSONValue(BigInt(Number.MAX_SAFE_INTEGER))).toBe(Number.MAX_SAFE_INTEGER);
+    expect(toJSONValue(BigInt(Number.MAX_SAFE_INTEGER) + BigInt(1))).toBe('9007199254740992');
+    expect(toJSONValue(-(BigInt(2) ** BigInt(70)))).toBe('-1180591620717411303424');
+  });
+
+  it('prints DATE columns as plain dates and other times in full', () => {
+    const midnight = new Date('2009-01-01T00:00:00.000Z');
+    expect(toJSONValue(midnight, 'DATE')).toBe('2009-01-01');
+    expect(toJSONValue(midnight, 'TIMESTAMP')).toBe('2009-01-01T00:00:00.000Z');
+    expect(toJSONValue(midnight)).toBe('2009-01-01T00:00:00.000Z');
+  });
+
+  it('escapes BLOB bytes the way DuckDB prints them', () => {
+    expect(toJSONValue(Buffer.from('abc'))).toBe('abc');
+    expect(toJSONValue(Buffer.from([0x61, 0x00, 0xff, 0x5c]))).toBe('a\\x00\\xFF\\x5C');
+  });
+
+  it('leaves other values alone', () => {
+    expect(toJSONValue(1.5)).toBe(1.5);
+    expect(toJSONValue('text')).toBe('text');
+    expect(toJSONValue(null)).toBeNull();
+  });
+});
+
+describe('toJSONSafeRows', () => {
+  it('converts each value with its column type', () => {
+    const day = new Date('2009-01-01T00:00:00.000Z');
+    expect(
+      toJSONSafeRows([{ n: BigInt(2), day, at: day }], [
+        { name: 'n', type: 'BIGINT' },
+        { name: 'day', type: 'DATE' },
+        { name: 'at', type: 'TIMESTAMP' },
+      ])
+    ).toEqual([{ n: 2, day: '2009-01-01', at: '2009-01-01T00:00:00.000Z' }]);
+  });
+});
+
+describe('exportFormatForPath', () => {
+  it('reads the format from the extension, in any case', () => {
+    expect(exportFormatForPath('out/results.csv')).toBe('csv');
+    expect(exportFormatForPath('results.JSONL')).toBe('jsonl');
+    expect(exportFormatForPath('results.ndjson')).toBe('jsonl');
+    expect(exportFormatForPath('results.v2.parquet')).toBe('parquet');
+    expect(exportFormatForPath('results.xlsx')).toBe('xlsx');
+  });
+
+  it('returns undefined for unknown or missing extensions', () => {
+    expect(exportFormatForPath('results.json')).toBeUndefined();
+    expect(exportFormatForPath('results.xls')).toBeUndefined();
+    expect(exportFormatForPath('results')).toBeUndefined();
+  });
+});
@@ -4,129 +4,484 @@
  */
 
 import Database from 'duckdb';
+import { resolve } from 'path';
 import { z } from 'zod';
+import { checkReadOnly, formatGuardViolation, SQLGuardViolation } from '../sql/guard.js';
+import { SQLDiagnostic, guardDiagnostic, parseDuckDBError } from '../sql/diagnostics.js';
+import { qualifyTableReferences } from '../sql/qualifier.js';
+import { ResultPageOptions, asSubquery, buildPageQueries } from '../sql/paging.js';
+import {
+  DataSource,
+  attachDataSource,
+  getDataSource,
+  listAttachedTables,
+  quoteLiteral,
+  restrictExternalAccess,
+  runQuery,
+  tablePrefix,
+} from './database-registry.js';
 
 const SQLExecutorInputSchema = z.object({
   sql: z.string().describe('The SQL query to execute'),
-  db_path: z.string().describe('Path to the database file'),
+  database: z.string().optional().describe('Name of a registered data source (defaults to the registry default)'),
+});
+
+const ResultColumnSchema = z.object({
+  name: z.string(),
+  /** DuckDB type, e.g. BIGINT, DATE, DECIMAL(10,2) */
+  type: z.string(),
 });
 
 const SQLExecutorOutputSchema = z.object({
   success: z.boolean(),
   result: z.array(z.record(z.any())).optional(),
+  /** Result columns and their types, when DuckDB could describe the query */
+  columns: z.array(ResultColumnSchema).optional(),
   error: z.string().optional(),
   row_count: z.number().optional(),
   execution_time_ms: z.number().optional(),
+  /** More rows were available than the row cap allowed */
+  truncated: z.boolean().optional(),
+  /** Why the query was stopped before it finished */
+  interrupted: z.enum(['timeout', 'cancelled']).optional(),
+  guard_violation: z
+    .object({
+      code: z.string(),
+      message: z.string(),
+      keyword: z.string().optional(),
+    })
+    .optional(),
 });
 
 export type SQLExecutorInput = z.infer<typeof SQLExecutorInputSchema>;
 export type SQLExecutorOutput = z.infer<typeof SQLExecutorOutputSchema>;
+export type ResultColumn = z.infer<typeof ResultColumnSchema>;
+
+export interface SQLValidationResult {
+  valid: boolean;
+  /** Empty when the query is valid; DuckDB stops at the first error, so usually one entry */
+  diagnostics: SQLDiagnostic[];
+  validation_time_ms: number;
+}
+
+/** Default per-query time limit (SQL_TIMEOUT_MS, 0 = none) */
+export const QUERY_TIMEOUT_MS = parseInt(process.env.SQL_TIMEOUT_MS || '30000', 10);
+/** Default cap on returned rows (SQL_MAX_ROWS, 0 = none) */
+export const MAX_RESULT_ROWS = parseInt(process.env.SQL_MAX_ROWS || '10000', 10);
+
+export interface ExecuteOptions {
+  /** Statement types the read-only guard lets through (default: SELECT, WITH) */
+  allowedStatements?: string[];
+  /** Stop waiting for the query after this long (default: QUERY_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** Return at most this many rows and flag the result as truncated (default: MAX_RESULT_ROWS) */
+  maxRows?: number;
+  /** Abort the query, e.g. when the client that asked for it disconnects */
+  signal?: AbortSignal;
+}
+
+/** A query that passed the guard, on a connection with its source attached */
+type PreparedQuery =
+  | { ok: true; db: Database.Database; sql: string }
+  | { ok: false; error: string; guard_violation?: SQLGuardViolation; missing_extension?: string };
+
+/** What a connection needs beyond its source before external access is turned off */
+interface ConnectionAccess {
+  /** Files the query may write, e.g. an export's output path */
+  allowedPaths?: string[];
+  /** DuckDB extensions the query uses, installed beforehand with npm run setup:extensions */
+  extensions?: string[];
+}
 
 /**
- * Execute SQL query against SQLite database via DuckDB
+ * Guard the query, attach its data source with external access turned off and
+ * qualify its table references
  */
-export async function executeSQL(sql: string, dbPath: string): Promise<SQLExecutorOutput> {
-  const startTime = Date.now();
+async function prepareQuery(
+  sql: string,
+  source: DataSource,
+  options: ExecuteOptions,
+  access: ConnectionAccess = {}
+): Promise<PreparedQuery> {
+  // Refuse anything but a single read-only statement before touching the database
+  const guard = checkReadOnly(sql, { allowedStatements: options.allowedStatements });
+  if (!guard.allowed && guard.violation) {
+    return { ok: false, error: formatGuardViolation(guard.violation), guard_violation: guard.violation };
+  }
+
   const db = new Database.Database(':memory:');
 
+  try {
+    await attachDataSource(db, source);
+  } catch (err: any) {
+    db.close();
+    return { ok: false, error: `Failed to attach database "${source.name}": ${err.message}` };
+  }
+
+  // The guard's denylist can't name every function that reads files or the
+  // environment, so the connection itself refuses them
+  for (const extension of access.extensions ?? []) {
+    try {
+      await runQuery(db, `LOAD ${extension};`);
+    } catch (err: any) {
+      db.close();
+      return {
+        ok: false,
+        error: `DuckDB's ${extension} extension is not installed; run npm run setup:extensions (${err.message})`,
+        missing_extension: extension,
+      };
+    }
+  }
+
+  try {
+    await restrictExternalAccess(db, source, access.allowedPaths);
+  } catch (err: any) {
+    db.close();
+    return { ok: false, error: `Failed to prepare the connection: ${err.message}` };
+  }
+
+  // Only real base-table references get the source prefix (e.g. chinook.tracks)
+  try {
+    return { ok: true, db, sql: qualifyTableReferences(sql, tablePrefix(source), await listAttachedTables(db, source)) };
+  } catch (err: any) {
+    db.close();
+    return { ok: false, error: `Failed to list attached tables: ${err.message}` };
+  }
+}
+
+/**
+ * Column names and types of a prepared query, without running it
+ */
+async function describeQuery(db: Database.Database, sql: string): Promise<ResultColumn[]> {
+  const rows = await runQuery(db, `DESCRIBE ${sql}`);
+  return rows.map((row) => ({ name: row.column_name, type: row.column_type }));
+}
+
+/**
+ * Execute SQL query against a registered data source via DuckDB
+ */
+export async function executeSQL(sql: string, source: DataSource, options: ExecuteOptions = {}): Promise<SQLExecutorOutput> {
+  const startTime = Date.now();
+
+  const prepared = await prepareQuery(sql, source, options);
+  if (!prepared.ok) {
+    return {
+      success: false,
+      error: prepared.error,
+      ...(prepared.guard_violation && { guard_violation: prepared.guard_violation }),
+      execution_time_ms: Date.now() - startTime,
+    };
+  }
+  return streamRows(prepared.db, prepared.sql, options, startTime);
+}
+
+/** Outcome of work run under a query's limits */
+type LimitedOutcome<T> = { ok: true; value: T } | { ok: false; error: string; interrupted?: 'timeout' | 'cancelled' };
+
+/**
+ * Run queries on a prepared connection under the options' timeout and
+ * cancellation signal. The work is told when it has been abandoned, and the
+ * connection is closed once it finishes.
+ */
+function runWithLimits<T>(
+  db: Database.Database,
+  options: ExecuteOptions,
+  work: (abandoned: () => boolean) => Promise<T>
+): Promise<LimitedOutcome<T>> {
+  const timeoutMs = options.timeoutMs ?? QUERY_TIMEOUT_MS;
+
   return new Promise((resolve) => {
-    // Clean up SQL (remove comments, extra whitespace)
-    const cleanedSQL = sql
-      .replace(/--.*$/gm, '') // Remove single-line comments
-      .replace(/\/\*[\s\S]*?\*\//g, '') // Remove multi-line comments
-      .trim();
+    let settled = false;
+    let timer: NodeJS.Timeout | undefined;
 
-    if (!cleanedSQL) {
-      resolve({
-        success: false,
-        error: 'Empty SQL query after cleaning',
-      });
+    const finish = (outcome: LimitedOutcome<T>) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      resolve(outcome);
+    };
+
+    // The Node binding's interrupt() may not stop a running chunk, but rows are
+    // streamed, so no further chunks are fetched once the query is abandoned
+    const stop = (interrupted: 'timeout' | 'cancelled', error: string) => {
+      db.interrupt();
+      finish({ ok: false, error, interrupted });
+    };
+    const onAbort = () => stop('cancelled', 'Query cancelled');
+
+    // Nothing runs yet, so there is nothing to interrupt
+    if (options.signal?.aborted) {
+      finish({ ok: false, error: 'Query cancelled', interrupted: 'cancelled' });
+      db.close();
       return;
     }
+    options.signal?.addEventListener('abort', onAbort);
+    if (timeoutMs > 0) {
+      timer = setTimeout(
+        () =>
+          stop(
+            'timeout',
+            `Query timed out after ${timeoutMs}ms and was interrupted. It may be missing a join condition or a filter, producing a huge intermediate result.`
+          ),
+        timeoutMs
+      );
+    }
 
-    // Install SQLite extension and attach database
-    db.all(`INSTALL sqlite; LOAD sqlite;`, (err) => {
-      if (err) {
-        resolve({
-          success: false,
-          error: `Failed to load SQLite extension: ${err.message}`,
-          execution_time_ms: Date.now() - startTime,
-        });
-        return;
+    (async () => {
+      try {
+        finish({ ok: true, value: await work(() => settled) });
+      } catch (err: any) {
+        finish({ ok: false, error: err.message });
+      } finally {
+        db.close();
       }
+    })();
+  });
+}
 
-      db.all(`ATTACH '${dbPath}' AS chinook (TYPE SQLITE);`, (err) => {
-        if (err) {
-          db.close();
-          resolve({
-            success: false,
-            error: `Failed to attach database: ${err.message}`,
-            execution_time_ms: Date.now() - startTime,
-          });
-          return;
-        }
-
-        // Prefix table references with chinook schema
-        const sqlWithSchema = cleanedSQL.replace(/FROM\s+(\w+)/gi, 'FROM chinook.$1')
-                                        .replace(/JOIN\s+(\w+)/gi, 'JOIN chinook.$1');
-
-        db.all(sqlWithSchema, (err, rows) => {
-          const executionTime = Date.now() - startTime;
-          db.close();
-
-          if (err) {
-            resolve({
-              success: false,
-              error: err.message,
-              execution_time_ms: executionTime,
-            });
-          } else {
-            resolve({
-              success: true,
-              result: rows,
-              row_count: rows.length,
-              execution_time_ms: executionTime,
-            });
-          }
-        });
-      });
-    });
+/**
+ * A failed outcome as executor output
+ */
+function failedOutput(outcome: LimitedOutcome<unknown> & { ok: false }, startTime: number): SQLExecutorOutput {
+  return {
+    success: false,
+    error: outcome.error,
+    ...(outcome.interrupted && { interrupted: outcome.interrupted }),
+    execution_time_ms: Date.now() - startTime,
+  };
+}
+
+/**
+ * Stream a prepared query's rows under the options' timeout, row cap and
+ * cancellation signal. The connection is closed once the query finishes.
+ */
+async function streamRows(db: Database.Database, sql: string, options: ExecuteOptions, startTime: number): Promise<SQLExecutorOutput> {
+  const maxRows = options.maxRows ?? MAX_RESULT_ROWS;
+
+  const outcome = await runWithLimits(db, options, async (abandoned) => {
+    const rows: Record<string, any>[] = [];
+    let truncated = false;
+    // The query itself reports any error DESCRIBE runs into
+    const columns = await describeQuery(db, sql).catch(() => undefined);
+    for await (const row of db.stream(sql)) {
+      if (abandoned()) break;
+      if (maxRows > 0 && rows.length >= maxRows) {
+        truncated = true;
+        break;
+      }
+      rows.push(row);
+    }
+    return { rows, columns, truncated };
   });
+  if (!outcome.ok) return failedOutput(outcome, startTime);
+
+  const { rows, columns, truncated } = outcome.value;
+  return {
+    success: true,
+    result: rows,
+    row_count: rows.length,
+    ...(columns && { columns }),
+    ...(truncated && { truncated }),
+    execution_time_ms: Date.now() - startTime,
+  };
 }
 
 /**
- * Validate SQL syntax without executing
+ * JSON value for a DuckDB value. BIGINT/HUGEINT become numbers when a double
+ * holds them exactly and strings otherwise. DATE columns come back from the
+ * binding as midnight UTC, so they become plain 'YYYY-MM-DD' strings. BLOBs
+ * come back as Buffers and become the escaped text DuckDB prints, e.g. 'a\x00b'.
  */
-export async function validateSQL(sql: string, dbPath: string): Promise<{ valid: boolean; error?: string }> {
-  const db = new Database.Database(dbPath, { readonly: true });
+export function toJSONValue(value: unknown, type?: string): unknown {
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (value instanceof Date) {
+    return type === 'DATE' ? value.toISOString().slice(0, 10) : value.toISOString();
+  }
+  if (Buffer.isBuffer(value)) {
+    return [...value]
+      .map((byte) =>
+        byte >= 0x20 && byte < 0x7f && byte !== 0x5c
+          ? String.fromCharCode(byte)
+          : `\\x${byte.toString(16).toUpperCase().padStart(2, '0')}`
+      )
+      .join('');
+  }
+  return value;
+}
+
+/**
+ * Rows with every value converted by toJSONValue, so they can be JSON serialized
+ */
+export function toJSONSafeRows(rows: Record<string, any>[], columns?: ResultColumn[]): Record<string, any>[] {
+  const types = new Map((columns || []).map((column) => [column.name, column.type]));
+  return rows.map((row) => {
+    const converted: Record<string, any> = {};
+    for (const [key, value] of Object.entries(row)) {
+      converted[key] = toJSONValue(value, types.get(key));
+    }
+    return converted;
+  });
+}
+
+/**
+ * Bind the query against the attached catalog with EXPLAIN, without running it.
+ * Unknown tables and columns, ambiguous names and type mismatches come back
+ * as structured diagnostics.
+ */
+export async function validateSQL(sql: string, source: DataSource, options: ExecuteOptions = {}): Promise<SQLValidationResult> {
+  const startTime = Date.now();
+
+  const prepared = await prepareQuery(sql, source, options);
+  if (!prepared.ok) {
+    const diagnostics = prepared.guard_violation
+      ? [guardDiagnostic(prepared.guard_violation, prepared.error)]
+      : [parseDuckDBError(prepared.error)];
+    return { valid: false, diagnostics, validation_time_ms: Date.now() - startTime };
+  }
+  const { db } = prepared;
 
   return new Promise((resolve) => {
-    // Use EXPLAIN to validate without executing
-    db.all(`EXPLAIN ${sql}`, (err) => {
+    db.all(`EXPLAIN ${prepared.sql}`, (err) => {
       db.close();
-
-      if (err) {
-        resolve({
-          valid: false,
-          error: err.message,
-        });
-      } else {
-        resolve({
-          valid: true,
-        });
-      }
+      resolve({
+        valid: !err,
+        diagnostics: err ? [parseDuckDBError(err.message, tablePrefix(source))] : [],
+        validation_time_ms: Date.now() - startTime,
+      });
     });
   });
 }
 
+export type ExportFormat = 'csv' | 'jsonl' | 'parquet' | 'xlsx';
+
+/** File extension, MIME type and DuckDB COPY options of each export format */
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { extension: string; contentType: string; copyOptions: string; duckdbExtension?: string }
+> = {
+  csv: { extension: 'csv', contentType: 'text/csv', copyOptions: 'FORMAT csv, HEADER true' },
+  jsonl: { extension: 'jsonl', contentType: 'application/x-ndjson', copyOptions: 'FORMAT json' },
+  parquet: { extension: 'parquet', contentType: 'application/vnd.apache.parquet', copyOptions: 'FORMAT parquet' },
+  xlsx: {
+    extension: 'xlsx',
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    copyOptions: 'FORMAT xlsx, HEADER true',
+    duckdbExtension: 'excel',
+  },
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && value in EXPORT_FORMATS;
+}
+
 /**
- * SQL Executor Tool Definition for Claude Agent SDK
+ * Export format for a file name, e.g. results.parquet -> parquet
  */
-export const sqlExecutorTool = {
-  name: 'execute_sql',
-  description: 'Execute a SQL query against the database and return results or error information',
-  input_schema: SQLExecutorInputSchema,
-  execute: async (input: SQLExecutorInput): Promise<SQLExecutorOutput> => {
-    return executeSQL(input.sql, input.db_path);
-  },
+export function exportFormatForPath(path: string): ExportFormat | undefined {
+  const extension = path.split('.').pop()?.toLowerCase();
+  if (extension === 'ndjson') return 'jsonl';
+  return (Object.keys(EXPORT_FORMATS) as ExportFormat[]).find((format) => EXPORT_FORMATS[format].extension === extension);
+}
+
+export interface ExportResult {
+  success: boolean;
+  path?: string;
+  row_count?: number;
+  error?: string;
+  export_time_ms: number;
+}
+
+/**
+ * Write the full result of a query to a file with DuckDB's COPY, so column
+ * types (BIGINT, DATE, DECIMAL...) are kept natively. The query passes the
+ * same guard as executeSQL; the row cap does not apply to exports.
+ */
+export async function exportSQL(
+  sql: string,
+  source: DataSource,
+  format: ExportFormat,
+  path: string,
+  options: ExecuteOptions = {}
+): Promise<ExportResult> {
+  const startTime = Date.now();
+
+  // The connection may write only this file. XLSX needs the excel extension,
+  // which is loaded but never downloaded here.
+  const target = resolve(path);
+  const { duckdbExtension } = EXPORT_FORMATS[format];
+  const prepared = await prepareQuery(sql, source, options, {
+    allowedPaths: [target],
+    extensions: duckdbExtension ? [duckdbExtension] : [],
+  });
+  if (!prepared.ok) {
+    const error = prepared.missing_extension ? `${format} export unavailable: ${prepared.error}` : prepared.error;
+    return { success: false, error, export_time_ms: Date.now() - startTime };
+  }
+  const { db } = prepared;
+
+  try {
+    const rows = await runQuery(db, `COPY ${asSubquery(prepared.sql)} TO ${quoteLiteral(target)} (${EXPORT_FORMATS[format].copyOptions})`);
+    return { success: true, path, row_count: Number(rows[0]?.Count ?? 0), export_time_ms: Date.now() - startTime };
+  } catch (err: any) {
+    return { success: false, error: err.message, export_time_ms: Date.now() - startTime };
+  } finally {
+    db.close();
+  }
+}
+
+export type ResultPage = SQLExecutorOutput & {
+  offset: number;
+  limit: number;
+  /** Rows matching the filter, across all pages */
+  total_rows?: number;
 };
+
+/**
+ * One page of a query's result. The query is wrapped as a subquery so DuckDB
+ * does the filtering, sorting, LIMIT and OFFSET, and only the page's rows
+ * leave the database. The count and the page share the query's timeout and
+ * cancellation. The row cap does not apply; the page size bounds it.
+ */
+export async function pageSQL(
+  sql: string,
+  source: DataSource,
+  page: ResultPageOptions,
+  options: ExecuteOptions = {}
+): Promise<ResultPage> {
+  const startTime = Date.now();
+  const { offset, limit } = page;
+
+  const prepared = await prepareQuery(sql, source, options);
+  if (!prepared.ok) {
+    return { success: false, error: prepared.error, offset, limit, execution_time_ms: Date.now() - startTime };
+  }
+  const { db } = prepared;
+
+  const outcome = await runWithLimits(db, options, async () => {
+    const columns = await describeQuery(db, prepared.sql);
+    if (page.sort && !columns.some((column) => column.name === page.sort!.column)) {
+      throw new Error(`Unknown sort column: ${page.sort.column}`);
+    }
+
+    const queries = buildPageQueries(prepared.sql, columns.map((column) => column.name), page);
+    const [count] = await runQuery(db, queries.count);
+    const rows = await runQuery(db, queries.page);
+    return { columns, rows, total_rows: Number(count.total) };
+  });
+  if (!outcome.ok) return { ...failedOutput(outcome, startTime), offset, limit };
+
+  const { columns, rows, total_rows } = outcome.value;
+  return {
+    success: true,
+    result: rows,
+    row_count: rows.length,
+    columns,
+    offset,
+    limit,
+    total_rows,
+    execution_time_ms: Date.now() - startTime,
+  };
+}
@@ -1,20 +1,36 @@
 // State
 let apiKey = localStorage.getItem('openai_api_key') || '';
 let isRunning = false;
+// Conversation the next question can follow up on
+let session = null;
+// Result being browsed: the server pages, sorts and filters it
+let resultView = null;
+let filterTimer = null;
 const API_URL = 'http://localhost:3001/api';
+const RESULT_PAGE_SIZE = 100;
 
 // DOM Elements
 const apiKeyInput = document.getElementById('api-key');
 const modelSelect = document.getElementById('model-select');
+const databaseSelect = document.getElementById('database-select');
+const promptSetSelect = document.getElementById('prompt-set-select');
+const candidatesInput = document.getElementById('candidates-input');
+const budgetInput = document.getElementById('budget-input');
+const followUpInput = document.getElementById('follow-up-input');
+const summarizeInput = document.getElementById('summarize-input');
+const explainInput = document.getElementById('explain-input');
 const questionInput = document.getElementById('question');
 const runBtn = document.getElementById('run-btn');
 const statusBox = document.getElementById('status');
 const resultsSection = document.getElementById('results-section');
+const resultFilterInput = document.getElementById('result-filter');
 
 // Initialize
 document.addEventListener('DOMContentLoaded', () => {
     setupEventListeners();
     loadSavedAPIKey();
+    loadDatabases();
+    loadPromptSets();
 });
 
 // No DuckDB initialization needed - using backend API
@@ -36,6 +52,35 @@ function setupEventListeners() {
         });
     });
 
+    // Result browsing
+    resultFilterInput.addEventListener('input', () => {
+        clearTimeout(filterTimer);
+        filterTimer = setTimeout(() => {
+            if (!resultView) return;
+            resultView.filter = resultFilterInput.value.trim();
+            resultView.offset = 0;
+            loadResultPage();
+        }, 300);
+    });
+    document.getElementById('page-prev').addEventListener('click', () => {
+        resultView.offset = Math.max(resultView.offset - RESULT_PAGE_SIZE, 0);
+        loadResultPage();
+    });
+    document.getElementById('page-next').addEventListener('click', () => {
+        resultView.offset += RESULT_PAGE_SIZE;
+        loadResultPage();
+    });
+    document.getElementById('results-table').addEventListener('click', (e) => {
+        const header = e.target.closest('th[data-column]');
+        if (!header || !resultView) return;
+        // First click sorts ascending, the next one descending
+        const column = header.dataset.column;
+        const descending = resultView.sort?.column === column && !resultView.sort.descending;
+        resultView.sort = { column, descending };
+        resultView.offset = 0;
+        loadResultPage();
+    });
+
     // Tab switching
     document.querySelectorAll('.tab-btn').forEach(btn => {
         btn.addEventListener('click', (e) => {
@@ -51,6 +96,53 @@ function loadSavedAPIKey() {
     }
 }
 
+// Fill the database picker from the server's registry
+async function loadDatabases() {
+    try {
+        const response = await fetch(`${API_URL}/databases`);
+        const { databases } = await response.json();
+        databaseSelect.innerHTML = databases.map(db =>
+            `<option value="${db.name}"${db.default ? ' selected' : ''}>${db.name} (${db.type})${db.description ? ` - ${db.description}` : ''}</option>`
+        ).join('');
+    } catch (error) {
+        console.error('Failed to load databases:', error);
+    }
+}
+
+async function loadPromptSets() {
+    try {
+        const response = await fetch(`${API_URL}/prompt-sets`);
+        const { promptSets } = await response.json();
+        promptSetSelect.innerHTML = promptSets.map(set =>
+            `<option value="${set.id}"${set.default ? ' selected' : ''}>${set.id}${set.description ? ` - ${set.description}` : ''}</option>`
+        ).join('');
+    } catch (error) {
+        console.error('Failed to load prompt sets:', error);
+    }
+}
+
+// Continue the current conversation, or end it and start a new one on the selected database
+async function getSession(database, followUp) {
+    if (followUp && session && (!database || session.database === database)) {
+        return session;
+    }
+    if (session) {
+        // The server would expire it anyway; ending it now keeps abandoned sessions from piling up
+        fetch(`${API_URL}/sessions/${session.id}`, { method: 'DELETE' }).catch(() => {});
+        session = null;
+    }
+    const response = await fetch(`${API_URL}/sessions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ database })
+    });
+    if (!response.ok) {
+        throw new Error('Could not start a conversation');
+    }
+    session = await response.json();
+    return session;
+}
+
 // Switch tabs
 function switchTab(tabName) {
     document.querySelectorAll('.tab-btn').forEach(btn => {
@@ -98,11 +190,17 @@ function updateAgent(agentId, status, output = '') {
 
 // Reset all agents
 function resetAgents() {
-    ['schema', 'subproblem', 'queryplan', 'sql', 'execute', 'correction'].forEach(id => {
+    ['schema', 'subproblem', 'queryplan', 'sql', 'execute', 'correction', 'answer'].forEach(id => {
         updateAgent(id, 'pending');
         document.getElementById(`output-${id}`).textContent = '';
     });
     document.getElementById('correction-loop').classList.add('hidden');
+    // The answer card only shows when an answer or explanation was asked for
+    const answerAsked = summarizeInput.checked || explainInput.checked;
+    document.getElementById('agent-answer').classList.toggle('hidden', !answerAsked);
+    document.getElementById('arrow-answer').classList.toggle('hidden', !answerAsked);
+    document.getElementById('answer-summary').classList.add('hidden');
+    document.getElementById('sql-explanation').classList.add('hidden');
     resultsSection.classList.add('hidden');
 }
 
@@ -127,9 +225,13 @@ async function runSQLOfThought() {
     showStatus('🚀 Starting SQL-of-Thought pipeline...', 'info');
 
     const model = modelSelect.value;
+    const database = databaseSelect.value || undefined;
+    const candidates = parseInt(candidatesInput.value, 10) || 1;
     const startTime = Date.now();
 
     try {
+        const { id: sessionId } = await getSession(database, followUpInput.checked);
+
         // Call backend API with SSE for real-time updates
         const response = await fetch(`${API_URL}/sql-of-thought`, {
             method: 'POST',
@@ -139,7 +241,14 @@ async function runSQLOfThought() {
             body: JSON.stringify({
                 question,
                 model,
-                apiKey
+                apiKey,
+                database,
+                promptSet: promptSetSelect.value || undefined,
+                candidates,
+                sessionId,
+                summarize: summarizeInput.checked,
+                explain: explainInput.checked,
+                maxCostUSD: parseFloat(budgetInput.value) || undefined
             })
         });
 
@@ -175,13 +284,27 @@ async function runSQLOfThought() {
                     updateAgent(data.data.agent, 'error', data.data.error);
                 } else if (data.type === 'agent_update') {
                     updateAgent(data.data.agent, 'success', data.data.output);
+                } else if (data.type === 'answer_summary') {
+                    updateAgent('answer', 'success', data.data.answer);
+                    showAnswerSummary(data.data);
+                } else if (data.type === 'sql_explanation') {
+                    updateAgent('answer', 'success', data.data.summary || `${data.data.clauses.length} clauses explained`);
+                    showSQLExplanation(data.data);
                 } else if (data.type === 'complete') {
                     const endTime = Date.now();
-                    if (data.data.success) {
-                        showStatus(`✅ Success! Generated SQL in ${data.data.attempts} attempt(s)`, 'success');
-                        displayResults(data.data.results, data.data.sql, endTime - startTime, data.data.attempts - 1);
+                    const issues = data.data.verificationIssues || [];
+                    const vote = data.data.vote;
+                    const confidence = vote ? ` (${Math.round(vote.confidence * 100)}% of ${vote.candidates.length} candidates agree)` : '';
+                    const truncated = data.data.truncated && !data.data.resultId ? `, showing the first ${data.data.results.length} rows` : '';
+                    const standalone = data.data.standaloneQuestion ? ` for "${data.data.standaloneQuestion}"` : '';
+                    if (data.data.success && issues.length > 0) {
+                        showStatus(`⚠️ Answer may be wrong: ${issues.map(issue => issue.message).join(' ')}`, 'warning');
+                        displayResults(data.data, endTime - startTime);
+                    } else if (data.data.success) {
+                        showStatus(`✅ Success! Generated SQL in ${data.data.attempts} attempt(s)${standalone}${confidence}${truncated}`, 'success');
+                        displayResults(data.data, endTime - startTime);
                     } else {
-                        showStatus(`❌ Failed after ${data.data.attempts} attempts`, 'error');
+                        showStatus(`❌ Failed after ${data.data.attempts} attempts: ${data.data.error}`, 'error');
                     }
                 } else if (data.type === 'error') {
                     throw new Error(data.data.error);
@@ -387,36 +510,42 @@ async function callOpenAI(prompt, model, jsonMode = true) {
 }
 
 // Display results
-function displayResults(results, sql, executionTime, attempts) {
+function displayResults(result, executionTime) {
     resultsSection.classList.remove('hidden');
 
-    // Results table
-    const resultsTable = document.getElementById('results-table');
-    if (results.length > 0) {
-        const headers = Object.keys(results[0]);
-        let html = '<table><thead><tr>';
-        headers.forEach(h => html += `<th>${h}</th>`);
-        html += '</tr></thead><tbody>';
-
-        results.forEach(row => {
-            html += '<tr>';
-            headers.forEach(h => html += `<td>${row[h]}</td>`);
-            html += '</tr>';
-        });
+    // Export links fetch the full result from the server, not just the rows shown here
+    const exportLinks = document.getElementById('export-links');
+    if (result.resultId) {
+        const formats = [['csv', 'CSV'], ['jsonl', 'JSON Lines'], ['parquet', 'Parquet'], ['xlsx', 'Excel']];
+        exportLinks.innerHTML = 'Download: ' + formats
+            .map(([format, label]) => `<a href="${API_URL}/results/${encodeURIComponent(result.resultId)}/export?format=${format}">${label}</a>`)
+            .join(' · ');
+        exportLinks.classList.remove('hidden');
+    } else {
+        exportLinks.classList.add('hidden');
+    }
 
-        html += '</tbody></table>';
-        resultsTable.innerHTML = html;
+    // The complete event only carries the first page; the rest is fetched from the server
+    resultFilterInput.value = '';
+    if (result.resultId) {
+        resultView = { id: result.resultId, offset: 0, sort: null, filter: '' };
+        document.getElementById('result-controls').classList.remove('hidden');
+        renderResultTable(result.results, { offset: 0, total_rows: result.truncated ? undefined : result.row_count, columns: result.columns });
     } else {
-        resultsTable.innerHTML = '<p>No results found.</p>';
+        resultView = null;
+        document.getElementById('result-controls').classList.add('hidden');
+        renderResultTable(result.results, null);
     }
 
+    renderChart(result.chart);
+
     // SQL
-    document.getElementById('final-sql').textContent = sql;
+    document.getElementById('final-sql').textContent = result.sql;
 
     // Metrics
     document.getElementById('metrics-grid').innerHTML = `
         <div class="metric-card">
-            <div class="metric-value">${results.length}</div>
+            <div class="metric-value">${result.row_count ?? result.results.length}${result.truncated ? '+' : ''}</div>
             <div class="metric-label">Rows Returned</div>
         </div>
         <div class="metric-card">
@@ -424,12 +553,149 @@ function displayResults(results, sql, executionTime, attempts) {
             <div class="metric-label">Execution Time</div>
         </div>
         <div class="metric-card">
-            <div class="metric-value">${attempts + 1}</div>
+            <div class="metric-value">${result.attempts}</div>
             <div class="metric-label">Attempts</div>
         </div>
         <div class="metric-card">
-            <div class="metric-value">6</div>
-            <div class="metric-label">Agents Used</div>
+            <div class="metric-value">${result.usage.calls}</div>
+            <div class="metric-label">Agent Calls</div>
+        </div>
+        <div class="metric-card">
+            <div class="metric-value">${formatTokens(result.usage.input_tokens + result.usage.output_tokens)}</div>
+            <div class="metric-label">Tokens</div>
+        </div>
+        <div class="metric-card">
+            <div class="metric-value">${formatCost(result.usage.cost_usd)}</div>
+            <div class="metric-label">Cost</div>
         </div>
     `;
+    renderAgentUsage(result.usage);
+}
+
+function formatTokens(tokens) {
+    return tokens >= 10000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+// Unpriced models have no cost
+function formatCost(usd) {
+    if (usd === undefined) return 'n/a';
+    return `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
+
+// Tokens, latency and cost per agent, under the metric cards
+function renderAgentUsage(usage) {
+    const container = document.getElementById('agent-usage');
+    if (usage.agents.length === 0) {
+        container.classList.add('hidden');
+        return;
+    }
+
+    let html = `<p>${escapeHTML(usage.provider)}/${escapeHTML(usage.model)}</p>`;
+    html += '<table><thead><tr><th>Agent</th><th>Calls</th><th>Input</th><th>Cached</th><th>Output</th><th>Latency</th><th>Cost</th></tr></thead><tbody>';
+    usage.agents.forEach(agent => {
+        html += `<tr><td>${escapeHTML(agent.agent)}</td><td>${agent.calls}</td><td>${agent.input_tokens}</td><td>${agent.cached_input_tokens}</td><td>${agent.output_tokens}</td><td>${agent.latency_ms}ms</td><td>${formatCost(agent.cost_usd)}</td></tr>`;
+    });
+    html += '</tbody></table>';
+    container.innerHTML = html;
+    container.classList.remove('hidden');
+}
+
+// Plain-English answer above the result tabs
+function showAnswerSummary(summary) {
+    const box = document.getElementById('answer-summary');
+    const caveats = summary.caveats.map(caveat => `<li>${escapeHTML(caveat)}</li>`).join('');
+    box.innerHTML = `<p>💬 ${escapeHTML(summary.answer)}</p>${caveats ? `<ul>${caveats}</ul>` : ''}`;
+    box.classList.remove('hidden');
+}
+
+// Clause-by-clause explanation under the generated SQL
+function showSQLExplanation(explanation) {
+    const container = document.getElementById('sql-explanation');
+    let html = explanation.summary ? `<p>${escapeHTML(explanation.summary)}</p>` : '';
+    html += '<table><thead><tr><th>Clause</th><th>What it does</th><th>Plan steps</th></tr></thead><tbody>';
+    explanation.clauses.forEach(clause => {
+        html += `<tr><td><code>${escapeHTML(clause.clause)}</code></td><td>${escapeHTML(clause.explanation)}</td><td>${clause.plan_steps.join(', ') || '–'}</td></tr>`;
+    });
+    html += '</tbody></table>';
+    container.innerHTML = html;
+    container.classList.remove('hidden');
+}
+
+// Chart tab: the Vega-Lite spec from the complete event, or why there is none
+function renderChart(chart) {
+    const container = document.getElementById('chart');
+    const reason = document.getElementById('chart-reason');
+    container.innerHTML = '';
+    reason.textContent = chart ? chart.reason : 'Chart recommendation is turned off on the server.';
+
+    if (!chart?.spec) return;
+    if (!window.vegaEmbed) {
+        reason.textContent = 'Could not load Vega-Lite to draw the chart.';
+        return;
+    }
+    vegaEmbed(container, chart.spec, { actions: { export: true, source: true, compiled: false, editor: false } })
+        .catch(error => { reason.textContent = `Could not draw the chart: ${error.message}`; });
+}
+
+// Fetch the current page of the browsed result with its sort and filter
+async function loadResultPage() {
+    const view = resultView;
+    const params = pageParams(view);
+
+    try {
+        const response = await fetch(`${API_URL}/results/${encodeURIComponent(view.id)}?${params}`);
+        const page = await response.json();
+        if (!response.ok) throw new Error(page.error);
+        // A newer run or page request replaced this one
+        if (view !== resultView || params !== pageParams(view)) return;
+        renderResultTable(page.rows, page);
+    } catch (error) {
+        document.getElementById('results-table').innerHTML = `<p>Could not load results: ${escapeHTML(error.message)}</p>`;
+    }
+}
+
+function pageParams(view) {
+    const params = new URLSearchParams({ offset: view.offset, limit: RESULT_PAGE_SIZE });
+    if (view.sort) params.set('sort', `${view.sort.column}:${view.sort.descending ? 'desc' : 'asc'}`);
+    if (view.filter) params.set('filter', view.filter);
+    return params.toString();
+}
+
+function escapeHTML(value) {
+    return String(value).replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+}
+
+// Render one page of rows; page is null when the rows can't be paged server-side
+function renderResultTable(rows, page) {
+    const resultsTable = document.getElementById('results-table');
+    const headers = page?.columns ? page.columns.map(column => column.name) : Object.keys(rows[0] || {});
+
+    if (headers.length === 0 || (rows.length === 0 && !resultView?.filter)) {
+        resultsTable.innerHTML = '<p>No results found.</p>';
+    } else {
+        const arrow = (h) => resultView?.sort?.column === h ? (resultView.sort.descending ? ' ▼' : ' ▲') : '';
+        let html = '<table><thead><tr>';
+        headers.forEach(h => html += page ? `<th class="sortable" data-column="${escapeHTML(h)}">${escapeHTML(h)}${arrow(h)}</th>` : `<th>${escapeHTML(h)}</th>`);
+        html += '</tr></thead><tbody>';
+
+        rows.forEach(row => {
+            html += '<tr>';
+            headers.forEach(h => html += `<td>${escapeHTML(row[h] ?? '')}</td>`);
+            html += '</tr>';
+        });
+
+        html += '</tbody></table>';
+        if (rows.length === 0) html += '<p>No rows match the filter.</p>';
+        resultsTable.innerHTML = html;
+    }
+
+    if (!page) return;
+    const total = page.total_rows;
+    const first = rows.length > 0 ? page.offset + 1 : 0;
+    const last = page.offset + rows.length;
+    document.getElementById('page-info').textContent = total !== undefined
+        ? `Rows ${first}–${last} of ${total}`
+        : `Rows ${first}–${last}`;
+    document.getElementById('page-prev').disabled = page.offset === 0;
+    document.getElementById('page-next').disabled = total !== undefined ? last >= total : rows.length < RESULT_PAGE_SIZE;
 }
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// vite.config.js roots the web app in src/web; the unit tests cover the whole of src
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+});